@@ -0,0 +1,49 @@
+CREATE TABLE `project_members` (
+	`project_id` text NOT NULL,
+	`user_id` text NOT NULL,
+	`role` text NOT NULL,
+	`favorite` integer DEFAULT false NOT NULL,
+	`created_at` integer NOT NULL,
+	PRIMARY KEY(`project_id`, `user_id`)
+);
+--> statement-breakpoint
+CREATE INDEX `idx_project_members_user_id` ON `project_members` (`user_id`);--> statement-breakpoint
+CREATE TABLE `project_tags` (
+	`project_id` text NOT NULL,
+	`tag` text NOT NULL,
+	PRIMARY KEY(`project_id`, `tag`)
+);
+--> statement-breakpoint
+CREATE INDEX `idx_project_tags_tag` ON `project_tags` (`tag`);--> statement-breakpoint
+CREATE TABLE `project_usage` (
+	`project_id` text PRIMARY KEY NOT NULL,
+	`file_bytes` integer DEFAULT 0 NOT NULL,
+	`file_count` integer DEFAULT 0 NOT NULL,
+	`preview_bytes` integer DEFAULT 0 NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `projects` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`user_id` text NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`deleted_at` integer
+);
+--> statement-breakpoint
+CREATE INDEX `idx_projects_user_id` ON `projects` (`user_id`);--> statement-breakpoint
+CREATE INDEX `idx_projects_deleted_at` ON `projects` (`deleted_at`);--> statement-breakpoint
+CREATE TABLE `templates` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`source_project_id` text,
+	`size` integer NOT NULL,
+	`file_count` integer NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_templates_user_id` ON `templates` (`user_id`);
\ No newline at end of file
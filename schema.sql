@@ -1,10 +1,46 @@
--- Projects table (stored in Durable Objects SQLite)
+-- Applied schema migrations (stored in each Durable Object's SQLite, see src/migrations.ts)
+CREATE TABLE IF NOT EXISTS _migrations (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at INTEGER NOT NULL
+);
+
+-- Projects table (stored in D1, see src/db/schema.ts)
 CREATE TABLE IF NOT EXISTS projects (
   id TEXT PRIMARY KEY,
   name TEXT NOT NULL,
   description TEXT,
   user_id TEXT NOT NULL,
   created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  deleted_at INTEGER -- set while the project is in the trash
+);
+
+-- Project members and their roles (stored in D1)
+-- role is 'owner', 'editor' or 'viewer'; every project keeps at least one owner
+CREATE TABLE IF NOT EXISTS project_members (
+  project_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  role TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  favorite INTEGER NOT NULL DEFAULT 0, -- starred by this member; listed first
+  PRIMARY KEY (project_id, user_id)
+);
+
+-- Tags on each project, shared by all of its members (stored in D1)
+CREATE TABLE IF NOT EXISTS project_tags (
+  project_id TEXT NOT NULL,
+  tag TEXT NOT NULL,
+  PRIMARY KEY (project_id, tag)
+);
+
+-- Storage used by each project (stored in D1)
+-- Counted against the user who created the project
+CREATE TABLE IF NOT EXISTS project_usage (
+  project_id TEXT PRIMARY KEY,
+  file_bytes INTEGER NOT NULL DEFAULT 0, -- blob bytes in R2, including history
+  file_count INTEGER NOT NULL DEFAULT 0,
+  preview_bytes INTEGER NOT NULL DEFAULT 0,
   updated_at INTEGER NOT NULL
 );
 
@@ -17,13 +53,138 @@ CREATE TABLE IF NOT EXISTS files (
   type TEXT NOT NULL, -- 'file' or 'directory'
   parent_path TEXT,
   size INTEGER DEFAULT 0,
+  content_hash TEXT, -- blob holding the content; NULL for directories
+  is_binary INTEGER DEFAULT 0, -- 1 when the content is raw bytes rather than UTF-8 text
+  mime_type TEXT, -- derived from the extension; NULL for directories
+  revision INTEGER NOT NULL DEFAULT 1, -- bumped on every content change, for conflict detection
   created_at INTEGER NOT NULL,
   updated_at INTEGER NOT NULL,
   UNIQUE(project_id, path)
 );
 
+-- Content-addressed blobs (stored in Durable Objects SQLite)
+-- Content lives in R2 under blobs/<project_id>/<sha256>
+-- ref_count counts the files, versions and checkpoint entries pointing at each blob;
+-- blobs that drop to zero are garbage collected
+CREATE TABLE IF NOT EXISTS blobs (
+  hash TEXT PRIMARY KEY,
+  size INTEGER NOT NULL,
+  ref_count INTEGER NOT NULL,
+  created_at INTEGER NOT NULL
+);
+
+-- File version history (stored in Durable Objects SQLite)
+CREATE TABLE IF NOT EXISTS file_versions (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  path TEXT NOT NULL,
+  author TEXT NOT NULL, -- 'user' or 'ai'
+  tool TEXT, -- AI tool that wrote this version
+  size INTEGER NOT NULL,
+  content_hash TEXT NOT NULL,
+  created_at INTEGER NOT NULL
+);
+
+-- AI turn checkpoints (stored in Durable Objects SQLite)
+-- One per chat turn, keyed by the user message that started it
+CREATE TABLE IF NOT EXISTS checkpoints (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  restored_at INTEGER -- set once the turn has been undone
+);
+
+-- State of each path before the turn first touched it
+CREATE TABLE IF NOT EXISTS checkpoint_entries (
+  checkpoint_id TEXT NOT NULL,
+  path TEXT NOT NULL,
+  type TEXT, -- 'file', 'directory', or NULL if the path did not exist
+  existed INTEGER NOT NULL,
+  content_hash TEXT, -- blob holding the previous content, for files
+  PRIMARY KEY (checkpoint_id, path)
+);
+
+-- Shared editing documents (stored in Durable Objects SQLite)
+-- Yjs state of files open in the collaborative editor, written back to the file periodically
+CREATE TABLE IF NOT EXISTS collab_documents (
+  project_id TEXT NOT NULL,
+  path TEXT NOT NULL,
+  state BLOB NOT NULL, -- encoded Yjs document
+  dirty INTEGER NOT NULL DEFAULT 0, -- 1 when edits haven't been written back to the file yet
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY (project_id, path)
+);
+
+-- Search index (stored in Durable Objects SQLite)
+-- Text content of files up to 1 MB; search_documents maps each file to its FTS row
+CREATE TABLE IF NOT EXISTS search_documents (
+  id INTEGER PRIMARY KEY, -- rowid of the file's entry in file_search
+  file_id TEXT NOT NULL UNIQUE
+);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS file_search USING fts5(content, tokenize = 'trigram');
+
+-- Trash (stored in Durable Objects SQLite)
+-- Deleted files and directories; each entry keeps a reference to its blob until the item is purged
+CREATE TABLE IF NOT EXISTS trash_items (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  path TEXT NOT NULL, -- the deleted file or directory
+  type TEXT NOT NULL,
+  author TEXT NOT NULL, -- 'user' or 'ai'
+  deleted_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS trash_entries (
+  trash_id TEXT NOT NULL,
+  path TEXT NOT NULL,
+  type TEXT NOT NULL,
+  size INTEGER NOT NULL DEFAULT 0,
+  content_hash TEXT,
+  is_binary INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (trash_id, path)
+);
+
+-- Latest change to each path (deleted paths included), for incremental content loads
+CREATE TABLE IF NOT EXISTS file_changes (
+  seq INTEGER PRIMARY KEY AUTOINCREMENT, -- the project's content revision
+  project_id TEXT NOT NULL,
+  path TEXT NOT NULL
+);
+
+-- Templates users saved from their projects (stored in D1); the files are a zip in R2 at templates/<user_id>/<id>.zip
+CREATE TABLE IF NOT EXISTS templates (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  source_project_id TEXT,
+  size INTEGER NOT NULL,
+  file_count INTEGER NOT NULL,
+  created_at INTEGER NOT NULL
+);
+
+-- Append-only log of who changed which paths in a project
+CREATE TABLE IF NOT EXISTS activity_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  project_id TEXT NOT NULL,
+  actor TEXT NOT NULL, -- 'user' or 'ai'
+  user_id TEXT, -- the user, or the user the AI acted for
+  message_id TEXT, -- AI changes: the chat message that started the turn
+  tool TEXT, -- AI changes: the tool that made them
+  action TEXT NOT NULL, -- create, update, delete, move, restore, undo or copy
+  paths TEXT NOT NULL, -- JSON array
+  created_at INTEGER NOT NULL
+);
+
 -- Indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_projects_user_id ON projects(user_id);
+CREATE INDEX IF NOT EXISTS idx_project_members_user_id ON project_members(user_id);
 CREATE INDEX IF NOT EXISTS idx_files_project_id ON files(project_id);
 CREATE INDEX IF NOT EXISTS idx_files_parent_path ON files(parent_path);
 CREATE INDEX IF NOT EXISTS idx_projects_updated_at ON projects(updated_at);
+CREATE INDEX IF NOT EXISTS idx_file_versions_path ON file_versions(project_id, path, created_at);
+CREATE INDEX IF NOT EXISTS idx_file_changes_path ON file_changes(project_id, path);
+CREATE INDEX IF NOT EXISTS idx_templates_user_id ON templates(user_id);
+CREATE INDEX IF NOT EXISTS idx_project_tags_tag ON project_tags(tag);
+CREATE INDEX IF NOT EXISTS idx_activity_log_project ON activity_log(project_id, id);
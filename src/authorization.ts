@@ -0,0 +1,106 @@
+/**
+ * Project access checks shared by the Worker, the ProjectManager, the BuildRunner and the AI tools.
+ * Roles live in the project registry in D1; every file or build operation checks the
+ * caller's role in the project it touches before doing anything.
+ */
+
+import { drizzle } from "drizzle-orm/d1";
+import { and, eq, isNull } from "drizzle-orm";
+import * as schema from "./db/schema";
+import type { ProjectRole } from "./project-manager";
+
+/**
+ * What an operation needs: reading files, changing them, or managing the project itself
+ */
+export type ProjectAccess = "read" | "write" | "manage";
+
+const ALLOWED_ROLES: Record<ProjectAccess, ProjectRole[]> = {
+  read: ["owner", "editor", "viewer"],
+  write: ["owner", "editor"],
+  manage: ["owner"]
+};
+
+const ACCESS_ERRORS: Record<ProjectAccess, string> = {
+  read: "You don't have access to this project",
+  write: "You have view-only access to this project",
+  manage: "Only owners can do this"
+};
+
+/**
+ * Thrown when the caller can't access a project. Unknown projects and projects the
+ * caller isn't a member of both come out as 404, so ids can't be probed.
+ */
+export class AuthorizationError extends Error {
+  constructor(
+    message: string,
+    readonly status: 401 | 403 | 404
+  ) {
+    super(message);
+  }
+
+  toResponse(): Response {
+    return Response.json({ error: this.message }, { status: this.status });
+  }
+}
+
+export function hasAccess(role: ProjectRole, access: ProjectAccess): boolean {
+  return ALLOWED_ROLES[access].includes(role);
+}
+
+/**
+ * Reads (including WebSocket upgrades) need read access, everything else write access
+ */
+export function accessForMethod(method: string): ProjectAccess {
+  return method === "GET" || method === "HEAD" ? "read" : "write";
+}
+
+/**
+ * The user's role in a project, or null if they aren't a member or it doesn't exist.
+ * Projects in the trash count as missing unless `includeTrashed` is set.
+ */
+export async function getProjectRole(
+  env: Env,
+  projectId: string,
+  userId: string,
+  includeTrashed = false
+): Promise<ProjectRole | null> {
+  const conditions = [eq(schema.projectMembers.project_id, projectId), eq(schema.projectMembers.user_id, userId)];
+  if (!includeTrashed) {
+    conditions.push(isNull(schema.projects.deleted_at));
+  }
+
+  const [member] = await drizzle(env.DB, { schema })
+    .select({ role: schema.projectMembers.role })
+    .from(schema.projectMembers)
+    .innerJoin(schema.projects, eq(schema.projects.id, schema.projectMembers.project_id))
+    .where(and(...conditions));
+  return member?.role ?? null;
+}
+
+/**
+ * Check that `role` allows `access`, throwing an AuthorizationError otherwise
+ */
+export function requireAccess(role: ProjectRole | null, access: ProjectAccess): ProjectRole {
+  if (!role) {
+    throw new AuthorizationError("Project not found", 404);
+  }
+  if (!hasAccess(role, access)) {
+    throw new AuthorizationError(ACCESS_ERRORS[access], 403);
+  }
+  return role;
+}
+
+/**
+ * Look up the caller's role and check it allows `access`. Returns the role.
+ */
+export async function authorizeProject(
+  env: Env,
+  projectId: string,
+  userId: string | null | undefined,
+  access: ProjectAccess
+): Promise<ProjectRole> {
+  if (!userId) {
+    throw new AuthorizationError("Unauthorized", 401);
+  }
+  return requireAccess(await getProjectRole(env, projectId, userId), access);
+}
@@ -1,10 +1,23 @@
 import { DurableObject } from "cloudflare:workers";
+import { blobKey, type FileNode } from "./project-manager";
+import { getMimeType } from "./file-types";
+import { AuthorizationError, authorizeProject } from "./authorization";
+import { checkUserQuota, formatBytes, getStorageLimits, QuotaExceededError } from "./quotas";
+import { getUsage, reportUsage } from "./registry";
+import { loadProjectConfig, PROJECT_CONFIG_PATH, type ProjectConfig } from "./project-config";
+import { matchesGlobs } from "./search";
 
+/**
+ * A build request. Its commands and output directory come from the project's config file.
+ */
 export interface BuildConfig {
   projectId: string;
-  buildCommand?: string;
-  installCommand?: string;
-  outputDir?: string;
+}
+
+interface ProjectFile {
+  path: string;
+  content: string;  // Text content; empty for binary files
+  bytes?: ArrayBuffer;  // Raw content of binary files, deployed byte for byte
 }
 
 export interface BuildStatus {
@@ -18,6 +31,9 @@ export interface BuildStatus {
   error?: string;
 }
 
+// Where React builds start when the project's config names no entry points
+const DEFAULT_ENTRY_POINTS = ["src/main.tsx", "src/main.jsx", "src/index.tsx", "src/index.jsx"];
+
 /**
  * BuildRunner Durable Object
  * Handles building and deploying projects to preview environments
@@ -29,11 +45,24 @@ export class BuildRunner extends DurableObject<Env> {
     const url = new URL(request.url);
     const path = url.pathname;
 
+    // Set by server.ts; builds read the project's files as this user
+    const userId = request.headers.get("X-User-Id");
+    if (!userId) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
     try {
       // Start a new build
       if (path === "/build" && request.method === "POST") {
         const config = await request.json<BuildConfig>();
-        return this.startBuild(config);
+        await authorizeProject(this.env, config.projectId, userId, "read");
+        return this.startBuild(config, userId);
+      }
+
+      // Status, logs and cancelling are open to anyone who can read the build's project
+      const existing = path.startsWith("/build/") ? this.builds.get(path.split("/")[2]) : undefined;
+      if (existing) {
+        await authorizeProject(this.env, existing.projectId, userId, "read");
       }
 
       // Get build status
@@ -56,6 +85,10 @@ export class BuildRunner extends DurableObject<Env> {
 
       return new Response("Not found", { status: 404 });
     } catch (error) {
+      if (error instanceof AuthorizationError) {
+        return error.toResponse();
+      }
+
       console.error("BuildRunner error:", error);
       return Response.json(
         { error: error instanceof Error ? error.message : "Build failed" },
@@ -64,7 +97,7 @@ export class BuildRunner extends DurableObject<Env> {
     }
   }
 
-  private async startBuild(config: BuildConfig): Promise<Response> {
+  private async startBuild(config: BuildConfig, userId: string): Promise<Response> {
     const buildId = crypto.randomUUID();
     const build: BuildStatus = {
       id: buildId,
@@ -77,12 +110,12 @@ export class BuildRunner extends DurableObject<Env> {
     this.builds.set(buildId, build);
 
     // Run build asynchronously
-    this.ctx.waitUntil(this.executeBuild(buildId, config));
+    this.ctx.waitUntil(this.executeBuild(buildId, config, userId));
 
     return Response.json(build);
   }
 
-  private async executeBuild(buildId: string, config: BuildConfig): Promise<void> {
+  private async executeBuild(buildId: string, config: BuildConfig, userId: string): Promise<void> {
     const build = this.builds.get(buildId);
     if (!build) return;
 
@@ -91,8 +124,13 @@ export class BuildRunner extends DurableObject<Env> {
       build.status = "installing";
       build.logs.push(`[${new Date().toISOString()}] Starting build for project ${config.projectId}`);
 
+      const settings = await loadProjectConfig(this.env, config.projectId, userId);
+      if (Object.keys(settings).length > 0) {
+        build.logs.push(`[${new Date().toISOString()}] Using settings from ${PROJECT_CONFIG_PATH}`);
+      }
+
       // Get all project files from R2
-      const files = await this.getProjectFiles(config.projectId);
+      const files = await this.getProjectFiles(config.projectId, userId, settings.ignore ?? []);
 
       build.logs.push(`[${new Date().toISOString()}] Found ${files.length} files`);
 
@@ -104,6 +142,10 @@ export class BuildRunner extends DurableObject<Env> {
       if (files.some(f => f.path === "package.json")) {
         build.logs.push(`[${new Date().toISOString()}] Installing dependencies...`);
 
+        if (settings.installCommand) {
+          build.logs.push(`[${new Date().toISOString()}] Install command: ${settings.installCommand}`);
+        }
+
         const packageJson = files.find(f => f.path === "package.json");
         if (packageJson) {
           const deps = await this.installDependencies(packageJson.content, build);
@@ -113,8 +155,11 @@ export class BuildRunner extends DurableObject<Env> {
       // Build the project
       build.status = "building";
       build.logs.push(`[${new Date().toISOString()}] Building project...`);
+      if (settings.buildCommand) {
+        build.logs.push(`[${new Date().toISOString()}] Build command: ${settings.buildCommand}`);
+      }
 
-      const buildResult = await this.buildProject(files, projectType, config, build);
+      const buildResult = await this.buildProject(files, projectType, settings, build);
 
       // Deploy to preview environment
       const previewUrl = await this.deployPreview(buildId, buildResult, config.projectId);
@@ -133,25 +178,41 @@ export class BuildRunner extends DurableObject<Env> {
     }
   }
 
-  private async getProjectFiles(projectId: string): Promise<Array<{ path: string; content: string }>> {
-    const files: Array<{ path: string; content: string }> = [];
+  /**
+   * The project's files with their content, leaving out paths matching the `ignore` globs
+   */
+  private async getProjectFiles(projectId: string, userId: string, ignore: string[]): Promise<ProjectFile[]> {
+    const files: ProjectFile[] = [];
+
+    // The ProjectManager maps each path to the blob holding its content
+    const stub = this.env.ProjectManager.get(this.env.ProjectManager.idFromName(projectId));
+    const response = await stub.fetch(
+      new Request(`https://dummy/projects/${projectId}/files`, { headers: { "X-User-Id": userId } })
+    );
+    if (!response.ok) {
+      throw new Error("Failed to list project files");
+    }
+
+    const tree = await response.json<FileNode[]>();
 
-    // List all files in R2 for this project
-    const list = await this.env.FILES.list({ prefix: `${projectId}/` });
+    for (const file of tree) {
+      if (file.type !== "file" || !file.content_hash) continue;
+      if (!matchesGlobs(file.path, [], ignore)) continue;
 
-    for (const object of list.objects) {
-      const r2Object = await this.env.FILES.get(object.key);
+      const r2Object = await this.env.FILES.get(blobKey(projectId, file.content_hash));
       if (r2Object) {
-        const content = await r2Object.text();
-        const path = object.key.replace(`${projectId}/`, "");
-        files.push({ path, content });
+        if (file.is_binary) {
+          files.push({ path: file.path, content: "", bytes: await r2Object.arrayBuffer() });
+        } else {
+          files.push({ path: file.path, content: await r2Object.text() });
+        }
       }
     }
 
     return files;
   }
 
-  private detectProjectType(files: Array<{ path: string; content: string }>): string {
+  private detectProjectType(files: ProjectFile[]): string {
     const packageJson = files.find(f => f.path === "package.json");
 
     if (packageJson) {
@@ -197,17 +258,31 @@ export class BuildRunner extends DurableObject<Env> {
   }
 
   private async buildProject(
-    files: Array<{ path: string; content: string }>,
+    files: ProjectFile[],
     projectType: string,
-    config: BuildConfig,
+    settings: ProjectConfig,
     build: BuildStatus
-  ): Promise<Map<string, string>> {
-    const builtFiles = new Map<string, string>();
+  ): Promise<Map<string, string | ArrayBuffer>> {
+    const builtFiles = new Map<string, string | ArrayBuffer>();
+
+    // Files already built into the output directory are deployed as they are
+    if (settings.outputDir) {
+      const prefix = `${settings.outputDir}/`;
+      const output = files.filter((file) => file.path.startsWith(prefix));
+      if (output.length > 0) {
+        build.logs.push(`[${new Date().toISOString()}] Deploying ${output.length} files from ${settings.outputDir}`);
+        for (const file of output) {
+          builtFiles.set(file.path.slice(prefix.length), file.bytes ?? file.content);
+        }
+        return builtFiles;
+      }
+      build.logs.push(`[${new Date().toISOString()}] ${settings.outputDir} has no files, building from source`);
+    }
 
     // For static sites, just copy files
     if (projectType === "static") {
       for (const file of files) {
-        builtFiles.set(file.path, file.content);
+        builtFiles.set(file.path, file.bytes ?? file.content);
       }
       return builtFiles;
     }
@@ -217,15 +292,13 @@ export class BuildRunner extends DurableObject<Env> {
       build.logs.push(`[${new Date().toISOString()}] Building React application...`);
 
       // Find entry point
-      const entryFile = files.find(f =>
-        f.path === "src/main.tsx" ||
-        f.path === "src/main.jsx" ||
-        f.path === "src/index.tsx" ||
-        f.path === "src/index.jsx"
-      );
+      const entryPoints = settings.entryPoints ?? DEFAULT_ENTRY_POINTS;
+      const entryFile = entryPoints
+        .map((entryPoint) => files.find((f) => f.path === entryPoint))
+        .find((file) => file !== undefined);
 
       if (!entryFile) {
-        throw new Error("No entry file found (main.tsx, index.tsx, etc.)");
+        throw new Error(`No entry file found (${entryPoints.join(", ")})`);
       }
 
       // Create a simple HTML wrapper
@@ -240,7 +313,7 @@ export class BuildRunner extends DurableObject<Env> {
           // In production, use esbuild or swc
           builtFiles.set(file.path, file.content);
         } else {
-          builtFiles.set(file.path, file.content);
+          builtFiles.set(file.path, file.bytes ?? file.content);
         }
       }
     }
@@ -248,7 +321,7 @@ export class BuildRunner extends DurableObject<Env> {
     return builtFiles;
   }
 
-  private createHTMLWrapper(files: Array<{ path: string; content: string }>, entryPath: string): string {
+  private createHTMLWrapper(files: ProjectFile[], entryPath: string): string {
     const indexHtml = files.find(f => f.path === "index.html");
 
     if (indexHtml) {
@@ -273,40 +346,58 @@ export class BuildRunner extends DurableObject<Env> {
 
   private async deployPreview(
     buildId: string,
-    builtFiles: Map<string, string>,
+    builtFiles: Map<string, string | ArrayBuffer>,
     projectId: string
   ): Promise<string> {
     // Store built files in R2 under preview namespace
     const previewPrefix = `previews/${projectId}/${buildId}/`;
 
+    // Earlier previews stay up, since their URLs may have been shared
+    const bytes = [...builtFiles.values()].reduce(
+      (total, content) => total + (typeof content === "string" ? new TextEncoder().encode(content).length : content.byteLength),
+      0
+    );
+    const previewBytes = await this.getPreviewBytes(projectId);
+
+    const limits = getStorageLimits();
+    if (previewBytes + bytes > limits.previewBytes) {
+      throw new QuotaExceededError(
+        `The preview is ${formatBytes(bytes)}, and this project's previews already use ${formatBytes(previewBytes)} of their ${formatBytes(limits.previewBytes)} limit`
+      );
+    }
+    const report = await getUsage(this.env, projectId);
+    checkUserQuota(report, { ...report.project, previewBytes }, bytes);
+
     for (const [path, content] of builtFiles) {
       await this.env.FILES.put(`${previewPrefix}${path}`, content, {
         httpMetadata: {
-          contentType: this.getContentType(path)
+          contentType: getMimeType(path)
         }
       });
     }
 
+    await reportUsage(this.env, projectId, { previewBytes: previewBytes + bytes });
+
     // Return preview URL
     // In production, this would be a subdomain or path
     return `/preview/${projectId}/${buildId}/`;
   }
 
-  private getContentType(path: string): string {
-    const ext = path.split(".").pop()?.toLowerCase();
-    const types: Record<string, string> = {
-      html: "text/html",
-      css: "text/css",
-      js: "application/javascript",
-      json: "application/json",
-      png: "image/png",
-      jpg: "image/jpeg",
-      jpeg: "image/jpeg",
-      gif: "image/gif",
-      svg: "image/svg+xml",
-      ico: "image/x-icon"
-    };
-    return types[ext || ""] || "text/plain";
+  /**
+   * Bytes of all the project's deployed previews in R2
+   */
+  private async getPreviewBytes(projectId: string): Promise<number> {
+    let bytes = 0;
+    let cursor: string | undefined;
+    do {
+      const list = await this.env.FILES.list({ prefix: `previews/${projectId}/`, cursor });
+      for (const object of list.objects) {
+        bytes += object.size;
+      }
+      cursor = list.truncated ? list.cursor : undefined;
+    } while (cursor);
+
+    return bytes;
   }
 
   private getBuildStatus(buildId: string): Response {
@@ -2,43 +2,132 @@ import { tool } from "ai";
 import { z } from "zod";
 import type { ToolSet } from "ai";
 import type { Env } from "./types";
+import { encodePath, getFileName, getParentPath, normalizePath, validateName } from "./paths";
+import type { BatchOperation, FileNode } from "./project-manager";
+import type { SearchResult } from "./search";
+
+/**
+ * Extract the error message from a failed ProjectManager response
+ */
+async function readError(response: Response, fallback: string): Promise<string> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text).error || fallback;
+  } catch {
+    return text || fallback;
+  }
+}
+
+/**
+ * Headers marking a ProjectManager write as made by the AI through `toolName` on behalf
+ * of the user and, when set, attaching it to the checkpoint of the current chat turn
+ */
+function aiHeaders(toolName: string, { userId, checkpointId }: CodeToolOptions): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    "X-User-Id": userId,
+    "X-Author": "ai",
+    "X-Author-Tool": toolName,
+    ...(checkpointId ? { "X-Checkpoint-Id": checkpointId } : {})
+  };
+}
+
+/**
+ * Read a file and its current content through the ProjectManager, or null if it doesn't exist.
+ * Binary files come back without content.
+ */
+async function readProjectFile(
+  env: Env,
+  projectId: string,
+  filePath: string,
+  userId: string
+): Promise<FileNode | null> {
+  const id = env.ProjectManager.idFromName(projectId);
+  const stub = env.ProjectManager.get(id);
+
+  const response = await stub.fetch(
+    new Request(`https://dummy/projects/${projectId}/files/${encodePath(filePath)}`, {
+      method: "GET",
+      headers: { "X-User-Id": userId }
+    })
+  );
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(await readError(response, "Failed to read file"));
+  }
+
+  return response.json<FileNode>();
+}
+
+function binaryFileError(file: FileNode): string {
+  return `${file.path} is a binary file (${file.mime_type}, ${file.size} bytes) and can't be read as text`;
+}
+
+export interface CodeToolOptions {
+  userId: string;  // The user the agent acts for; every request runs with their role in the project
+  projectId?: string;  // The project the chat turn is about; tools refuse to touch any other
+  checkpointId?: string;  // Checkpoint that AI writes in this turn are captured into
+}
+
+/**
+ * Why a tool can't work on `projectId`, or null if it can. The model picks the id it passes,
+ * so anything but the current project is refused before reaching the ProjectManager.
+ */
+function checkProject(projectId: string, options: CodeToolOptions): string | null {
+  if (!projectId || !options.projectId) {
+    return "No project context available";
+  }
+  if (projectId !== options.projectId) {
+    return `Tools can only work on the current project (${options.projectId})`;
+  }
+  return null;
+}
 
 /**
  * Tools for AI to interact with code files
  * These tools allow the AI assistant to read, write, and search code
  */
-export const createCodeTools = (env: Env) => ({
+export const createCodeTools = (env: Env, options: CodeToolOptions) => ({
   readFile: tool({
     description: "Read the contents of a file in the current project",
     inputSchema: z.object({
       projectId: z.string().describe("The ID of the current project"),
       filePath: z.string().describe("The path to the file to read")
     }),
-    execute: async ({ projectId, filePath }) => {
+    execute: async ({ projectId, filePath: requestedPath }) => {
       console.log('[readFile] ProjectId:', projectId);
-      if (!projectId) {
+      const projectError = checkProject(projectId, options);
+      if (projectError) {
         return {
           success: false,
-          error: "No project context available"
+          error: projectError
         };
       }
       try {
-        // Get file from R2
-        const r2Key = `${projectId}/${filePath}`;
-        const object = await env.FILES.get(r2Key);
+        const filePath = normalizePath(requestedPath);
+        const file = await readProjectFile(env, projectId, filePath, options.userId);
 
-        if (!object) {
+        if (!file) {
           return {
             success: false,
             error: "File not found"
           };
         }
 
-        const content = await object.text();
+        if (file.is_binary) {
+          return {
+            success: false,
+            error: binaryFileError(file)
+          };
+        }
+
+        const content = file.content || "";
 
         return {
           success: true,
           filePath,
+          revision: file.revision,
           content
         };
       } catch (error) {
@@ -56,39 +145,62 @@ export const createCodeTools = (env: Env) => ({
     inputSchema: z.object({
       projectId: z.string().describe("The ID of the current project"),
       filePath: z.string().describe("The path to the file to write"),
-      content: z.string().describe("The content to write to the file")
+      content: z.string().describe("The content to write to the file"),
+      expectedRevision: z
+        .number()
+        .optional()
+        .describe("The revision returned by readFile. If set, the write fails when the file changed since that read.")
     }),
-    execute: async ({ projectId, filePath, content }) => {
-      if (!projectId) {
+    execute: async ({ projectId, filePath: requestedPath, content, expectedRevision }) => {
+      const projectError = checkProject(projectId, options);
+      if (projectError) {
         return {
           success: false,
-          error: "No project context available"
+          error: projectError
         };
       }
       try {
-        // Store in R2
-        const r2Key = `${projectId}/${filePath}`;
-        await env.FILES.put(r2Key, content);
+        const filePath = normalizePath(requestedPath);
 
         // Get or create Durable Object for project management
         const id = env.ProjectManager.idFromName(projectId);
         const stub = env.ProjectManager.get(id);
 
-        // Update metadata
-        const response = await stub.fetch(
-          new Request(`https://dummy/projects/${projectId}/files/${filePath}`, {
+        // The ProjectManager stores the content in R2 and records a version
+        let response = await stub.fetch(
+          new Request(`https://dummy/projects/${projectId}/files/${encodePath(filePath)}`, {
             method: "PUT",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              path: filePath,
-              name: filePath.split("/").pop(),
-              content
-            })
+            headers: aiHeaders("writeFile", options),
+            body: JSON.stringify({ content, expectedRevision })
           })
         );
 
+        if (response.status === 409) {
+          return {
+            success: false,
+            error: `${await readError(response, "File changed")}. Read the file again before writing it.`
+          };
+        }
+
+        // The file doesn't exist yet, create it with the content
+        if (response.status === 404) {
+          response = await stub.fetch(
+            new Request(`https://dummy/projects/${projectId}/files`, {
+              method: "POST",
+              headers: aiHeaders("writeFile", options),
+              body: JSON.stringify({
+                path: filePath,
+                name: getFileName(filePath),
+                type: "file",
+                parent_path: getParentPath(filePath),
+                content
+              })
+            })
+          );
+        }
+
         if (!response.ok) {
-          throw new Error(`Failed to update file metadata: ${response.statusText}`);
+          throw new Error(await readError(response, "Failed to write file"));
         }
 
         return {
@@ -106,78 +218,73 @@ export const createCodeTools = (env: Env) => ({
   }),
 
   searchInFiles: tool({
-    description: "Search for text in all files of the current project",
+    description:
+      "Search the text files of the current project. Returns matching lines grouped by file. " +
+      "Use include/exclude globs to narrow the search, e.g. include ['src/**/*.ts'] or exclude ['node_modules', '*.test.ts'].",
     inputSchema: z.object({
       projectId: z.string().describe("The ID of the current project"),
-      query: z.string().describe("The text to search for")
+      query: z.string().describe("The text to search for, or a JavaScript regular expression when regex is true"),
+      regex: z.boolean().optional().describe("Treat the query as a regular expression"),
+      caseSensitive: z.boolean().optional().describe("Match case exactly (default: case-insensitive)"),
+      wholeWord: z.boolean().optional().describe("Only match whole words"),
+      include: z.array(z.string()).optional().describe("Only search files whose paths match one of these globs"),
+      exclude: z.array(z.string()).optional().describe("Skip files whose paths match any of these globs"),
+      maxResults: z.number().int().positive().optional().describe("Maximum number of matching lines (default 200)")
     }),
-    execute: async ({ projectId, query }) => {
-      if (!projectId) {
+    execute: async ({ projectId, query, regex, caseSensitive, wholeWord, include, exclude, maxResults }) => {
+      const projectError = checkProject(projectId, options);
+      if (projectError) {
         return {
           success: false,
-          error: "No project context available"
+          error: projectError
         };
       }
       try {
-        // Get all files for the project
         const id = env.ProjectManager.idFromName(projectId);
         const stub = env.ProjectManager.get(id);
 
-        const filesResponse = await stub.fetch(
-          new Request(`https://dummy/projects/${projectId}/files`, {
-            method: "GET"
+        const params = new URLSearchParams({ q: query });
+        if (regex) params.set("regex", "1");
+        if (caseSensitive) params.set("caseSensitive", "1");
+        if (wholeWord) params.set("wholeWord", "1");
+        if (include?.length) params.set("include", include.join(","));
+        if (exclude?.length) params.set("exclude", exclude.join(","));
+        if (maxResults) params.set("maxResults", String(maxResults));
+
+        const response = await stub.fetch(
+          new Request(`https://dummy/projects/${projectId}/search?${params}`, {
+            method: "GET",
+            headers: { "X-User-Id": options.userId }
           })
         );
 
-        if (!filesResponse.ok) {
-          throw new Error("Failed to get files");
+        if (!response.ok) {
+          throw new Error(await readError(response, "Search failed"));
         }
 
-        const files = await filesResponse.json<
-          Array<{ path: string; type: string }>
-        >();
+        const { matches, truncated } = await response.json<SearchResult>();
 
-        // Search in each file
+        // Group matching lines by file
         const results: Array<{
           file: string;
-          matches: Array<{ line: number; text: string }>;
+          matches: Array<{ line: number; column: number; text: string }>;
         }> = [];
 
-        for (const file of files) {
-          if (file.type === "directory") continue;
-
-          const r2Key = `${projectId}/${file.path}`;
-          const object = await env.FILES.get(r2Key);
-
-          if (!object) continue;
-
-          const content = await object.text();
-          const lines = content.split("\n");
-
-          const matches: Array<{ line: number; text: string }> = [];
-
-          for (let i = 0; i < lines.length; i++) {
-            if (lines[i].toLowerCase().includes(query.toLowerCase())) {
-              matches.push({
-                line: i + 1,
-                text: lines[i].trim()
-              });
-            }
-          }
-
-          if (matches.length > 0) {
-            results.push({
-              file: file.path,
-              matches
-            });
+        for (const match of matches) {
+          let result = results[results.length - 1];
+          if (result?.file !== match.path) {
+            result = { file: match.path, matches: [] };
+            results.push(result);
           }
+          result.matches.push({ line: match.line, column: match.column, text: match.text });
         }
 
         return {
           success: true,
           query,
           results,
-          totalMatches: results.reduce((sum, r) => sum + r.matches.length, 0)
+          totalMatches: matches.length,
+          truncated
         };
       } catch (error) {
         return {
@@ -195,10 +302,11 @@ export const createCodeTools = (env: Env) => ({
     }),
     execute: async ({ projectId }) => {
       console.log('[listFiles] ProjectId:', projectId);
-      if (!projectId) {
+      const projectError = checkProject(projectId, options);
+      if (projectError) {
         return {
           success: false,
-          error: "No project context available"
+          error: projectError
         };
       }
       try {
@@ -207,7 +315,8 @@ export const createCodeTools = (env: Env) => ({
 
         const response = await stub.fetch(
           new Request(`https://dummy/projects/${projectId}/files`, {
-            method: "GET"
+            method: "GET",
+            headers: { "X-User-Id": options.userId }
           })
         );
 
@@ -250,43 +359,40 @@ export const createCodeTools = (env: Env) => ({
       type: z.enum(["file", "directory"]).describe("Whether to create a file or directory"),
       content: z.string().optional().describe("Initial content for files (ignored for directories)")
     }),
-    execute: async ({ projectId, path, type, content = "" }) => {
-      if (!projectId) {
+    execute: async ({ projectId, path: requestedPath, type, content = "" }) => {
+      const projectError = checkProject(projectId, options);
+      if (projectError) {
         return {
           success: false,
-          error: "No project context available"
+          error: projectError
         };
       }
       try {
+        const path = normalizePath(requestedPath);
         const id = env.ProjectManager.idFromName(projectId);
         const stub = env.ProjectManager.get(id);
 
         // Create file metadata
-        const parentPath = path.split("/").slice(0, -1).join("/") || null;
-        const name = path.split("/").pop() || path;
+        const parentPath = getParentPath(path);
+        const name = getFileName(path);
 
+        // Send content in the request so the DO uploads it to R2
         const response = await stub.fetch(
           new Request(`https://dummy/projects/${projectId}/files`, {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
+            headers: aiHeaders("createFile", options),
             body: JSON.stringify({
               path,
               name,
               type,
               parent_path: parentPath,
-              size: type === "file" ? content.length : 0
+              content: type === "file" ? content : undefined
             })
           })
         );
 
         if (!response.ok) {
-          throw new Error("Failed to create file");
-        }
-
-        // If it's a file, store content in R2
-        if (type === "file") {
-          const r2Key = `${projectId}/${path}`;
-          await env.FILES.put(r2Key, content);
+          throw new Error(await readError(response, "Failed to create file"));
         }
 
         return {
@@ -305,36 +411,44 @@ export const createCodeTools = (env: Env) => ({
   }),
 
   deleteFile: tool({
-    description: "Delete a file or directory from the project",
+    description: "Delete a file or directory from the project. It moves to the project's trash, where the user can restore it.",
     inputSchema: z.object({
       projectId: z.string().describe("The ID of the current project"),
       filePath: z.string().describe("The path to the file or directory to delete")
     }),
-    execute: async ({ projectId, filePath }) => {
-      if (!projectId) {
+    execute: async ({ projectId, filePath: requestedPath }) => {
+      const projectError = checkProject(projectId, options);
+      if (projectError) {
         return {
           success: false,
-          error: "No project context available"
+          error: projectError
         };
       }
       try {
+        const filePath = normalizePath(requestedPath);
         const id = env.ProjectManager.idFromName(projectId);
         const stub = env.ProjectManager.get(id);
 
         const response = await stub.fetch(
-          new Request(`https://dummy/projects/${projectId}/files/${filePath}`, {
-            method: "DELETE"
+          new Request(`https://dummy/projects/${projectId}/files/${encodePath(filePath)}`, {
+            method: "DELETE",
+            headers: aiHeaders("deleteFile", options)
           })
         );
 
         if (!response.ok) {
-          throw new Error("Failed to delete file");
+          throw new Error(await readError(response, "Failed to delete file"));
         }
 
+        const result = await response.json<{ deleted: number }>();
+
         return {
           success: true,
           filePath,
-          message: "File deleted successfully"
+          deleted: result.deleted,
+          message: result.deleted > 1
+            ? `Deleted ${filePath} and ${result.deleted - 1} nested entries`
+            : "File deleted successfully"
         };
       } catch (error) {
         return {
@@ -352,63 +466,41 @@ export const createCodeTools = (env: Env) => ({
       sourcePath: z.string().describe("The current path of the file or directory"),
       destinationPath: z.string().describe("The new path where the file or directory should be moved")
     }),
-    execute: async ({ projectId, sourcePath, destinationPath }) => {
-      if (!projectId) {
+    execute: async ({ projectId, sourcePath: requestedSource, destinationPath: requestedDestination }) => {
+      const projectError = checkProject(projectId, options);
+      if (projectError) {
         return {
           success: false,
-          error: "No project context available"
+          error: projectError
         };
       }
       try {
-        // Read the source file from R2
-        const sourceKey = `${projectId}/${sourcePath}`;
-        const sourceObject = await env.FILES.get(sourceKey);
-
-        if (!sourceObject) {
-          return {
-            success: false,
-            error: "Source file not found"
-          };
-        }
-
-        const content = await sourceObject.text();
-
-        // Write to new location
-        const destKey = `${projectId}/${destinationPath}`;
-        await env.FILES.put(destKey, content);
-
-        // Delete from old location
-        await env.FILES.delete(sourceKey);
-
-        // Update metadata in Durable Object
+        const sourcePath = normalizePath(requestedSource);
+        const destinationPath = normalizePath(requestedDestination);
         const id = env.ProjectManager.idFromName(projectId);
         const stub = env.ProjectManager.get(id);
 
-        // Delete old file metadata
-        await stub.fetch(
-          new Request(`https://dummy/projects/${projectId}/files/${sourcePath}`, {
-            method: "DELETE"
+        // The ProjectManager moves the entry and, for directories, everything below it
+        const response = await stub.fetch(
+          new Request(`https://dummy/projects/${projectId}/files/move`, {
+            method: "POST",
+            headers: aiHeaders("moveFile", options),
+            body: JSON.stringify({ sourcePath, destinationPath })
           })
         );
 
-        // Create new file metadata
-        await stub.fetch(
-          new Request(`https://dummy/projects/${projectId}/files/${destinationPath}`, {
-            method: "PUT",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              path: destinationPath,
-              name: destinationPath.split("/").pop(),
-              content
-            })
-          })
-        );
+        if (!response.ok) {
+          throw new Error(await readError(response, "Failed to move file"));
+        }
+
+        const result = await response.json<{ moved: number }>();
 
         return {
           success: true,
           sourcePath,
           destinationPath,
-          message: `File moved from ${sourcePath} to ${destinationPath}`
+          moved: result.moved,
+          message: `Moved ${sourcePath} to ${destinationPath}`
         };
       } catch (error) {
         return {
@@ -426,68 +518,39 @@ export const createCodeTools = (env: Env) => ({
       filePath: z.string().describe("The current path of the file or directory"),
       newName: z.string().describe("The new name for the file or directory")
     }),
-    execute: async ({ projectId, filePath, newName }) => {
-      if (!projectId) {
+    execute: async ({ projectId, filePath: requestedPath, newName }) => {
+      const projectError = checkProject(projectId, options);
+      if (projectError) {
         return {
           success: false,
-          error: "No project context available"
+          error: projectError
         };
       }
       try {
-        // Calculate new path
-        const pathParts = filePath.split("/");
-        pathParts[pathParts.length - 1] = newName;
-        const newPath = pathParts.join("/");
-
-        // Read the source file from R2
-        const sourceKey = `${projectId}/${filePath}`;
-        const sourceObject = await env.FILES.get(sourceKey);
-
-        if (!sourceObject) {
-          return {
-            success: false,
-            error: "File not found"
-          };
-        }
-
-        const content = await sourceObject.text();
-
-        // Write to new location
-        const destKey = `${projectId}/${newPath}`;
-        await env.FILES.put(destKey, content);
-
-        // Delete from old location
-        await env.FILES.delete(sourceKey);
-
-        // Update metadata in Durable Object
+        const filePath = normalizePath(requestedPath);
+        validateName(newName);
         const id = env.ProjectManager.idFromName(projectId);
         const stub = env.ProjectManager.get(id);
 
-        // Delete old file metadata
-        await stub.fetch(
-          new Request(`https://dummy/projects/${projectId}/files/${filePath}`, {
-            method: "DELETE"
+        const response = await stub.fetch(
+          new Request(`https://dummy/projects/${projectId}/files/rename`, {
+            method: "POST",
+            headers: aiHeaders("renameFile", options),
+            body: JSON.stringify({ filePath, newName })
           })
         );
 
-        // Create new file metadata
-        await stub.fetch(
-          new Request(`https://dummy/projects/${projectId}/files/${newPath}`, {
-            method: "PUT",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              path: newPath,
-              name: newName,
-              content
-            })
-          })
-        );
+        if (!response.ok) {
+          throw new Error(await readError(response, "Failed to rename file"));
+        }
+
+        const result = await response.json<{ destinationPath: string }>();
 
         return {
           success: true,
           oldPath: filePath,
-          newPath,
-          message: `File renamed from ${filePath} to ${newPath}`
+          newPath: result.destinationPath,
+          message: `Renamed ${filePath} to ${result.destinationPath}`
         };
       } catch (error) {
         return {
@@ -506,26 +569,35 @@ export const createCodeTools = (env: Env) => ({
       oldContent: z.string().describe("The exact content to be replaced (must match exactly including whitespace)"),
       newContent: z.string().describe("The new content to replace the old content with")
     }),
-    execute: async ({ projectId, filePath, oldContent, newContent }) => {
-      if (!projectId) {
+    execute: async ({ projectId, filePath: requestedPath, oldContent, newContent }) => {
+      const projectError = checkProject(projectId, options);
+      if (projectError) {
         return {
           success: false,
-          error: "No project context available"
+          error: projectError
         };
       }
       try {
+        const filePath = normalizePath(requestedPath);
+
         // Read current file content
-        const r2Key = `${projectId}/${filePath}`;
-        const object = await env.FILES.get(r2Key);
+        const file = await readProjectFile(env, projectId, filePath, options.userId);
 
-        if (!object) {
+        if (!file) {
           return {
             success: false,
             error: "File not found"
           };
         }
 
-        const currentContent = await object.text();
+        if (file.is_binary) {
+          return {
+            success: false,
+            error: binaryFileError(file)
+          };
+        }
+
+        const currentContent = file.content || "";
 
         // Check if old content exists in file
         if (!currentContent.includes(oldContent)) {
@@ -538,27 +610,28 @@ export const createCodeTools = (env: Env) => ({
         // Replace old content with new content
         const updatedContent = currentContent.replace(oldContent, newContent);
 
-        // Store updated content in R2
-        await env.FILES.put(r2Key, updatedContent);
-
-        // Update metadata
+        // Store updated content through the ProjectManager so a version is recorded
         const id = env.ProjectManager.idFromName(projectId);
         const stub = env.ProjectManager.get(id);
 
         const response = await stub.fetch(
-          new Request(`https://dummy/projects/${projectId}/files/${filePath}`, {
+          new Request(`https://dummy/projects/${projectId}/files/${encodePath(filePath)}`, {
             method: "PUT",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              path: filePath,
-              name: filePath.split("/").pop(),
-              content: updatedContent
-            })
+            headers: aiHeaders("editFile", options),
+            body: JSON.stringify({ content: updatedContent, expectedRevision: file.revision })
           })
         );
 
+        // Someone saved the file between our read and this write; don't clobber their change
+        if (response.status === 409) {
+          return {
+            success: false,
+            error: "The file was changed while it was being edited. Read it again and retry the edit."
+          };
+        }
+
         if (!response.ok) {
-          throw new Error(`Failed to update file metadata: ${response.statusText}`);
+          throw new Error(await readError(response, "Failed to edit file"));
         }
 
         return {
@@ -573,8 +646,92 @@ export const createCodeTools = (env: Env) => ({
         };
       }
     }
+  }),
+
+  applyChanges: tool({
+    description:
+      "Create, update and delete several files at once. All changes are applied together or, if any of them fails, none are. Use this for edits that span multiple files.",
+    inputSchema: z.object({
+      projectId: z.string().describe("The ID of the current project"),
+      changes: z
+        .array(
+          z
+            .discriminatedUnion("action", [
+              z.object({
+                action: z.literal("create"),
+                path: z.string().describe("The path of the file or directory"),
+                type: z.enum(["file", "directory"]).optional().describe("file (default) or directory"),
+                content: z.string().optional().describe("Full content of the new file; required for files")
+              }),
+              z.object({
+                action: z.literal("update"),
+                path: z.string().describe("The path of the file"),
+                content: z.string().describe("Full new content of the file")
+              }),
+              z.object({
+                action: z.literal("delete"),
+                path: z.string().describe("The path of the file or directory")
+              })
+            ])
+            // A missing content would otherwise create an empty file
+            .refine((change) => change.action !== "create" || change.type === "directory" || change.content !== undefined, {
+              message: "content is required to create a file",
+              path: ["content"]
+            })
+        )
+        .min(1)
+        .describe("The changes to apply, in order")
+    }),
+    execute: async ({ projectId, changes }) => {
+      const projectError = checkProject(projectId, options);
+      if (projectError) {
+        return {
+          success: false,
+          error: projectError
+        };
+      }
+      try {
+        const id = env.ProjectManager.idFromName(projectId);
+        const stub = env.ProjectManager.get(id);
+
+        const operations = changes.map((change): BatchOperation => {
+          const path = normalizePath(change.path);
+          if (change.action === "create") {
+            return { op: "create", path, type: change.type ?? "file", content: change.content };
+          }
+          if (change.action === "update") {
+            return { op: "update", path, content: change.content };
+          }
+          return { op: "delete", path };
+        });
+
+        const response = await stub.fetch(
+          new Request(`https://dummy/projects/${projectId}/files/batch`, {
+            method: "POST",
+            headers: aiHeaders("applyChanges", options),
+            body: JSON.stringify({ operations })
+          })
+        );
+
+        if (!response.ok) {
+          const error = await readError(response, "Failed to apply changes");
+          throw new Error(`${error}. No changes were applied.`);
+        }
+
+        return {
+          success: true,
+          applied: changes.length,
+          message: `Applied ${changes.length} changes`
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Failed to apply changes"
+        };
+      }
+    }
   })
-}) satisfies (env: Env) => ToolSet;
+}) satisfies (env: Env, options?: CodeToolOptions) => ToolSet;
 
 /**
  * Execution handlers for tools that require human confirmation
@@ -0,0 +1,48 @@
+/**
+ * Collaborative editing protocol shared by the ProjectManager and the editor.
+ * Messages use the y-websocket framing: a varint message type followed by a
+ * y-protocols sync or awareness payload.
+ */
+
+import type * as Y from "yjs";
+
+export const MESSAGE_SYNC = 0;
+export const MESSAGE_AWARENESS = 1;
+
+// Name of the Y.Text holding a file's content
+export const COLLAB_TEXT = "content";
+
+// Close code telling editors the file is gone and they shouldn't reconnect
+export const CLOSE_FILE_DELETED = 4404;
+
+/**
+ * Replace the text with new content, touching only the range that differs
+ * so concurrent edits elsewhere in the document survive
+ */
+export function replaceText(text: Y.Text, content: string): void {
+  const current = text.toString();
+
+  let start = 0;
+  while (start < current.length && start < content.length && current[start] === content[start]) {
+    start++;
+  }
+
+  let end = 0;
+  while (
+    end < current.length - start &&
+    end < content.length - start &&
+    current[current.length - 1 - end] === content[content.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const deleted = current.length - start - end;
+  if (deleted > 0) {
+    text.delete(start, deleted);
+  }
+
+  const inserted = content.slice(start, content.length - end);
+  if (inserted) {
+    text.insert(start, inserted);
+  }
+}
@@ -0,0 +1,234 @@
+import { useEffect, useState } from "react";
+import { Activity, Bot, MessageSquare, User, X } from "lucide-react";
+import { Button } from "@/components/button/Button";
+import { Input } from "@/components/input/Input";
+import { Select } from "@/components/select/Select";
+import type { ActivityAction, ActivityEntry, ActivityPage, ProjectMember } from "@/project-manager";
+
+interface ActivityPanelProps {
+  projectId: string;
+  currentUserId?: string;
+  refreshKey?: number;
+  onOpenFile: (path: string) => void;
+  onOpenMessage: (messageId: string) => void;
+  onClose: () => void;
+}
+
+// Wait this long after the last keystroke in the path filter before loading
+const FILTER_DELAY_MS = 300;
+const PAGE_SIZE = 50;
+
+const ACTORS = { Everyone: null, People: "user", AI: "ai" } as const;
+const ALL_ACTIONS = "All changes";
+const ACTION_LABELS: Record<ActivityAction, string> = {
+  create: "created",
+  update: "edited",
+  delete: "deleted",
+  move: "moved",
+  restore: "restored",
+  undo: "undid the AI turn for",
+  copy: "copied"
+};
+
+/**
+ * Who changed what in the project, newest first: people's saves and the AI's tool calls.
+ * Paths open the file; AI entries link to the chat message whose turn made the change.
+ */
+export function ActivityPanel({
+  projectId,
+  currentUserId,
+  refreshKey,
+  onOpenFile,
+  onOpenMessage,
+  onClose
+}: ActivityPanelProps) {
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [actor, setActor] = useState<keyof typeof ACTORS>("Everyone");
+  const [action, setAction] = useState<ActivityAction | null>(null);
+  const [path, setPath] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: refreshKey changes when the project's files change
+  useEffect(() => {
+    const timer = setTimeout(() => loadActivity(null), FILTER_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [projectId, actor, action, path, refreshKey]);
+
+  useEffect(() => {
+    const loadMembers = async () => {
+      try {
+        const response = await fetch(`/api/projects/${projectId}/members`);
+        if (response.ok) {
+          setMembers(await response.json<ProjectMember[]>());
+        }
+      } catch (error) {
+        console.error("Failed to load members:", error);
+      }
+    };
+    loadMembers();
+  }, [projectId]);
+
+  const loadActivity = async (before: number | null) => {
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+    const actorFilter = ACTORS[actor];
+    if (actorFilter) params.set("actor", actorFilter);
+    if (action) params.set("action", action);
+    if (path.trim()) params.set("path", path.trim());
+    if (before !== null) params.set("before", String(before));
+
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/projects/${projectId}/activity?${params}`, {
+        headers: { "X-DO-ID": projectId }
+      });
+
+      if (!response.ok) {
+        const data = await response.json<{ error?: string }>().catch(() => ({ error: undefined }));
+        throw new Error(data.error || "Failed to load activity");
+      }
+
+      const page = await response.json<ActivityPage>();
+      setEntries((current) => (before === null ? page.entries : [...current, ...page.entries]));
+      setNextCursor(page.nextCursor);
+      setError(null);
+    } catch (error) {
+      console.error("Failed to load activity:", error);
+      setError(error instanceof Error ? error.message : "Failed to load activity");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const userName = (userId: string | null) => {
+    if (!userId) return "Collaborators";
+    if (userId === currentUserId) return "You";
+    const member = members.find((candidate) => candidate.user_id === userId);
+    return member?.name || member?.email || "A former member";
+  };
+
+  const formatTimestamp = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString(undefined, {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit"
+    });
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-neutral-50 dark:bg-neutral-900">
+      <div className="px-3 py-2 border-b border-neutral-300 dark:border-neutral-800 flex items-center justify-between">
+        <div className="flex items-center gap-2 min-w-0">
+          <Activity size={16} className="text-[#F48120] flex-shrink-0" />
+          <span className="text-sm font-semibold truncate">Activity</span>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 hover:bg-neutral-200 dark:hover:bg-neutral-800 rounded"
+          title="Close activity"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="p-2 space-y-2 border-b border-neutral-300 dark:border-neutral-800">
+        <div className="flex gap-2">
+          <Select
+            size="sm"
+            className="flex-1"
+            options={Object.keys(ACTORS).map((value) => ({ value }))}
+            value={actor}
+            setValue={(value) => setActor(value as keyof typeof ACTORS)}
+          />
+          <Select
+            size="sm"
+            className="flex-1"
+            placeholder={ALL_ACTIONS}
+            options={Object.keys(ACTION_LABELS).map((value) => ({ value }))}
+            value={action ?? ALL_ACTIONS}
+            setValue={(value) => setAction(value === ALL_ACTIONS ? null : (value as ActivityAction))}
+          />
+        </div>
+        <Input
+          size="sm"
+          className="w-full"
+          initialValue={path}
+          onValueChange={(value) => setPath(value)}
+          placeholder="Filter by file or folder"
+          aria-label="Filter by file or folder"
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {error ? (
+          <div className="p-4 text-sm text-red-500 text-center">{error}</div>
+        ) : entries.length === 0 ? (
+          <div className="p-4 text-sm text-neutral-500 text-center">
+            {isLoading ? "Loading..." : "No activity recorded yet."}
+          </div>
+        ) : (
+          entries.map((entry) => (
+            <div key={entry.id} className="px-3 py-2 border-b border-neutral-200 dark:border-neutral-800 text-xs">
+              <div className="flex items-center gap-2">
+                {entry.actor === "ai" ? (
+                  <Bot size={12} className="text-[#F48120] flex-shrink-0" />
+                ) : (
+                  <User size={12} className="text-blue-500 flex-shrink-0" />
+                )}
+                <span className="font-medium truncate">
+                  {entry.actor === "ai"
+                    ? `AI${entry.tool ? ` · ${entry.tool}` : ""}`
+                    : userName(entry.user_id)}
+                </span>
+                <span className="ml-auto text-[10px] text-neutral-500 flex-shrink-0">
+                  {formatTimestamp(entry.created_at)}
+                </span>
+              </div>
+
+              <div className="mt-1 text-neutral-600 dark:text-neutral-400">
+                {ACTION_LABELS[entry.action]}{" "}
+                {entry.paths.slice(0, 5).map((entryPath, index) => (
+                  <span key={entryPath}>
+                    {index > 0 && (entry.action === "move" ? " → " : ", ")}
+                    <button
+                      type="button"
+                      onClick={() => onOpenFile(entryPath)}
+                      className="font-mono text-neutral-800 dark:text-neutral-200 hover:text-[#F48120] hover:underline break-all"
+                    >
+                      {entryPath}
+                    </button>
+                  </span>
+                ))}
+                {entry.paths.length > 5 && ` and ${entry.paths.length - 5} more`}
+              </div>
+
+              {/* Only the user's own agent holds the conversation */}
+              {entry.message_id && entry.user_id === currentUserId && (
+                <button
+                  type="button"
+                  onClick={() => entry.message_id && onOpenMessage(entry.message_id)}
+                  className="mt-1 flex items-center gap-1 text-[10px] text-[#F48120] hover:underline"
+                >
+                  <MessageSquare size={10} />
+                  Show in chat
+                </button>
+              )}
+            </div>
+          ))
+        )}
+
+        {nextCursor !== null && (
+          <div className="p-2 flex justify-center">
+            <Button variant="secondary" size="sm" onClick={() => loadActivity(nextCursor)} disabled={isLoading}>
+              {isLoading ? "Loading..." : "Load more"}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -10,28 +10,36 @@ import { Avatar } from "@/components/avatar/Avatar";
 import { Textarea } from "@/components/textarea/Textarea";
 import { MemoizedMarkdown } from "@/components/memoized-markdown";
 import { ToolInvocationCard } from "@/components/tool-invocation-card/ToolInvocationCard";
+import type { Checkpoint } from "@/project-manager";
+import { useSession } from "@/lib/auth-client";
 
-import { Bot, Send, Square, Trash2 } from "lucide-react";
+import { Bot, Send, Square, Trash2, Undo2 } from "lucide-react";
 
 interface AIChatProps {
   projectId?: string;
   currentFile?: string | null;
   onToolCall?: (toolName: string, args: unknown) => void;
-  onFilesChanged?: () => void;
+  focusMessage?: { id: string; at: number } | null;  // Scrolls to the message; `at` repeats the same one
 }
 
-export function AIChat({ projectId, currentFile, onToolCall, onFilesChanged }: AIChatProps) {
+export function AIChat({ projectId, currentFile, onToolCall, focusMessage }: AIChatProps) {
   const [showDebug, setShowDebug] = useState(false);
   const [textareaHeight, setTextareaHeight] = useState("auto");
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [lastProjectId, setLastProjectId] = useState<string | undefined>(projectId);
+  const [checkpoints, setCheckpoints] = useState<Checkpoint[]>([]);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
 
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, []);
 
+  // Every user has their own agent, which works on projects with that user's role
+  const { data: session } = useSession();
   const agent = useAgent({
-    agent: "chat"
+    agent: "chat",
+    name: session?.user.id
   });
 
   const [agentInput, setAgentInput] = useState("");
@@ -89,6 +97,22 @@ export function AIChat({ projectId, currentFile, onToolCall, onFilesChanged }: A
     agentMessages.length > 0 && scrollToBottom();
   }, [agentMessages, scrollToBottom]);
 
+  // Bring a message another panel links to into view and flash it
+  useEffect(() => {
+    if (!focusMessage) return;
+
+    const element = document.querySelector(`[data-message-id="${CSS.escape(focusMessage.id)}"]`);
+    if (!element) {
+      alert("That message is no longer in this chat's history");
+      return;
+    }
+
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+    setHighlightedId(focusMessage.id);
+    const timer = setTimeout(() => setHighlightedId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [focusMessage]);
+
   // Clear chat history when switching projects
   useEffect(() => {
     if (projectId && lastProjectId && projectId !== lastProjectId) {
@@ -98,32 +122,64 @@ export function AIChat({ projectId, currentFile, onToolCall, onFilesChanged }: A
     setLastProjectId(projectId);
   }, [projectId, lastProjectId, clearHistory]);
 
-  // Detect file changes from AI tools and refresh immediately after each tool call
+  const loadCheckpoints = useCallback(async () => {
+    if (!projectId) return;
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/checkpoints`, {
+        headers: { "X-DO-ID": projectId }
+      });
+
+      if (!response.ok) throw new Error("Failed to load checkpoints");
+
+      setCheckpoints(await response.json<Checkpoint[]>());
+    } catch (error) {
+      console.error("Failed to load checkpoints:", error);
+    }
+  }, [projectId]);
+
+  // Refresh checkpoints on project switch and whenever a turn finishes
   useEffect(() => {
-    if (agentMessages.length > 0) {
-      const lastMessage = agentMessages[agentMessages.length - 1];
-      if (lastMessage.role === 'assistant') {
-        // Check if any file modification tools were used
-        const fileTools = ['writeFile', 'createFile', 'deleteFile', 'moveFile', 'renameFile', 'editFile'];
-
-        // Count completed tool calls
-        let hasChanges = false;
-        for (const part of lastMessage.parts) {
-          if (isToolUIPart(part) && fileTools.includes(part.toolName) && part.state === 'output-available') {
-            hasChanges = true;
-            console.log('[AIChat] File modification detected:', part.toolName, part.output);
-            break;
-          }
-        }
+    if (status === "ready") {
+      loadCheckpoints();
+    }
+  }, [status, loadCheckpoints]);
 
-        // Refresh UI immediately after each tool call completion
-        if (hasChanges && onFilesChanged) {
-          console.log('[AIChat] Triggering file refresh');
-          onFilesChanged();
-        }
-      }
+  const handleUndoTurn = async (checkpointId: string) => {
+    if (!projectId || !confirm("Undo all file changes the AI made in this turn?")) {
+      return;
+    }
+
+    try {
+      setUndoingId(checkpointId);
+      const response = await fetch(`/api/projects/${projectId}/checkpoints/${checkpointId}/restore`, {
+        method: "POST",
+        headers: { "X-DO-ID": projectId }
+      });
+
+      if (!response.ok) throw new Error("Failed to undo turn");
+
+      const result = await response.json<{ restored: number }>();
+      console.log('[AIChat] Undid turn, restored paths:', result.restored);
+    } catch (error) {
+      console.error("Failed to undo turn:", error);
+    } finally {
+      setUndoingId(null);
+      await loadCheckpoints();
     }
-  }, [agentMessages, onFilesChanged]);
+  };
+
+  /**
+   * Checkpoint for the turn that ends at this assistant message, if the turn changed any files
+   */
+  const getTurnCheckpoint = (index: number) => {
+    const next = agentMessages[index + 1];
+    if (agentMessages[index].role !== "assistant" || (next && next.role !== "user")) return undefined;
+    if (!next && (status === "submitted" || status === "streaming")) return undefined;
+
+    const userMessage = agentMessages.slice(0, index).reverse().find((m) => m.role === "user");
+    return checkpoints.find((c) => c.id === userMessage?.id && c.entry_count > 0);
+  };
 
   const formatTime = (date: Date) => {
     return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
@@ -189,9 +245,14 @@ export function AIChat({ projectId, currentFile, onToolCall, onFilesChanged }: A
           const isUser = m.role === "user";
           const showAvatar =
             index === 0 || agentMessages[index - 1]?.role !== m.role;
+          const checkpoint = getTurnCheckpoint(index);
 
           return (
-            <div key={m.id}>
+            <div
+              key={m.id}
+              data-message-id={m.id}
+              className={highlightedId === m.id ? "rounded-md ring-2 ring-[#F48120] transition-shadow" : undefined}
+            >
               {showDebug && (
                 <pre className="text-xs text-muted-foreground overflow-scroll">
                   {JSON.stringify(m, null, 2)}
@@ -273,6 +334,27 @@ export function AIChat({ projectId, currentFile, onToolCall, onFilesChanged }: A
                         return null;
                       })}
                     </div>
+
+                    {checkpoint && (
+                      <div className="mt-1">
+                        {checkpoint.restored_at ? (
+                          <span className="text-[10px] text-muted-foreground">
+                            File changes from this turn were undone
+                          </span>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-[10px] h-6"
+                            onClick={() => handleUndoTurn(checkpoint.id)}
+                            disabled={undoingId !== null}
+                          >
+                            <Undo2 size={12} />
+                            {undoingId === checkpoint.id ? "Undoing..." : "Undo this turn"}
+                          </Button>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
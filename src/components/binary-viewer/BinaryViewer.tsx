@@ -0,0 +1,101 @@
+import { useState, useEffect } from "react";
+import { Download, File } from "lucide-react";
+import { Button } from "@/components/button/Button";
+import type { FileNode } from "@/project-manager";
+import { encodePath } from "@/paths";
+
+interface BinaryViewerProps {
+  projectId: string;
+  file: FileNode;
+}
+
+export function BinaryViewer({ projectId, file }: BinaryViewerProps) {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isImage = file.mime_type?.startsWith("image/") ?? false;
+
+  // Raw content needs the X-DO-ID header, so it can't be loaded through a plain src attribute
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reload when the file's content changes
+  useEffect(() => {
+    let url: string | null = null;
+    let cancelled = false;
+
+    const loadContent = async () => {
+      try {
+        setError(null);
+        const response = await fetch(`/api/projects/${projectId}/raw/${encodePath(file.path)}`, {
+          headers: { "X-DO-ID": projectId }
+        });
+
+        if (!response.ok) throw new Error("Failed to load file");
+
+        url = URL.createObjectURL(await response.blob());
+        if (cancelled) {
+          URL.revokeObjectURL(url);
+          return;
+        }
+        setObjectUrl(url);
+      } catch (err) {
+        console.error("Failed to load binary file:", err);
+        setError(err instanceof Error ? err.message : "Failed to load file");
+      }
+    };
+
+    loadContent();
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setObjectUrl(null);
+    };
+  }, [projectId, file.path, file.content_hash]);
+
+  const formatSize = (size: number) => {
+    if (size < 1024) return `${size} B`;
+    if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+    return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  const handleDownload = () => {
+    if (!objectUrl) return;
+
+    const link = document.createElement("a");
+    link.href = objectUrl;
+    link.download = file.name;
+    link.click();
+  };
+
+  return (
+    <div className="h-full flex flex-col items-center justify-center gap-4 p-6 overflow-auto">
+      {error ? (
+        <p className="text-sm text-red-500">{error}</p>
+      ) : isImage && objectUrl ? (
+        <img
+          src={objectUrl}
+          alt={file.name}
+          className="max-w-full max-h-[70%] object-contain rounded border border-neutral-200 dark:border-neutral-800 bg-[repeating-conic-gradient(#8882_0%_25%,transparent_0%_50%)] bg-[length:16px_16px]"
+        />
+      ) : (
+        <File size={48} className="text-neutral-400" />
+      )}
+
+      <div className="text-center space-y-1">
+        <p className="text-sm font-medium">{file.name}</p>
+        <p className="text-xs text-neutral-500 dark:text-neutral-400">
+          {file.mime_type || "application/octet-stream"} · {formatSize(file.size)}
+        </p>
+        {!isImage && (
+          <p className="text-xs text-neutral-400 dark:text-neutral-500">
+            This file is binary and can't be edited as text.
+          </p>
+        )}
+      </div>
+
+      <Button variant="secondary" size="sm" onClick={handleDownload} disabled={!objectUrl}>
+        <Download size={14} />
+        Download
+      </Button>
+    </div>
+  );
+}
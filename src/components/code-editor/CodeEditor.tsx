@@ -1,6 +1,8 @@
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
 import Editor, { type OnChange, type OnMount } from "@monaco-editor/react";
 import type { editor } from "monaco-editor";
+import { Avatar } from "@/components/avatar/Avatar";
+import { connectCollab, type CollabPeer, type CollabUser } from "@/lib/collab-editor";
 
 interface CodeEditorProps {
   value: string;
@@ -8,6 +10,11 @@ interface CodeEditorProps {
   onChange?: (value: string | undefined) => void;
   theme?: "light" | "dark";
   readOnly?: boolean;
+  // Edit the file together with everyone else who has it open. The shared document
+  // then owns the content, so `value` only seeds the editor.
+  collab?: { projectId: string; path: string; user: CollabUser };
+  // Select and scroll to this range, e.g. a search result. Pass a new object to reveal it again.
+  selection?: { line: number; column: number; length: number };
 }
 
 export function CodeEditor({
@@ -15,12 +22,42 @@ export function CodeEditor({
   language = "javascript",
   onChange,
   theme = "dark",
-  readOnly = false
+  readOnly = false,
+  collab,
+  selection
 }: CodeEditorProps) {
   const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+  const [mountedEditor, setMountedEditor] = useState<editor.IStandaloneCodeEditor | null>(null);
+  const [peers, setPeers] = useState<CollabPeer[]>([]);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reconnect only when the file or user changes
+  useEffect(() => {
+    if (!collab || !mountedEditor) return;
+
+    const disconnect = connectCollab({ ...collab, editor: mountedEditor, onPeersChange: setPeers });
+    return () => {
+      disconnect();
+      setPeers([]);
+    };
+  }, [mountedEditor, collab?.projectId, collab?.path, collab?.user.name, collab?.user.image]);
+
+  useEffect(() => {
+    if (!selection || !mountedEditor) return;
+
+    const range = {
+      startLineNumber: selection.line,
+      startColumn: selection.column,
+      endLineNumber: selection.line,
+      endColumn: selection.column + selection.length
+    };
+    mountedEditor.setSelection(range);
+    mountedEditor.revealRangeInCenter(range);
+    mountedEditor.focus();
+  }, [mountedEditor, selection]);
 
   const handleEditorDidMount: OnMount = (editor) => {
     editorRef.current = editor;
+    setMountedEditor(editor);
 
     // Configure editor options
     editor.updateOptions({
@@ -74,12 +111,21 @@ export function CodeEditor({
   };
 
   return (
-    <div className="h-full w-full">
+    <div className="relative h-full w-full">
+      {peers.length > 0 && (
+        <div className="absolute top-2 right-6 z-10 flex -space-x-2">
+          {peers.map((peer) => (
+            <span key={peer.clientId} className="rounded-full border-2" style={{ borderColor: peer.color }}>
+              <Avatar username={peer.name} image={peer.image ?? undefined} size="sm" tooltip={peer.name} />
+            </span>
+          ))}
+        </div>
+      )}
       <Editor
         height="100%"
         defaultLanguage={language}
         language={language}
-        value={value}
+        {...(collab ? { defaultValue: value } : { value })}
         theme={theme === "dark" ? "vs-dark" : "vs-light"}
         onChange={handleEditorChange}
         onMount={handleEditorDidMount}
@@ -0,0 +1,186 @@
+import { useState, useEffect } from "react";
+import { Bot, History, RotateCcw, User, X } from "lucide-react";
+import { Button } from "@/components/button/Button";
+import type { FileNode, FileVersion } from "@/project-manager";
+
+interface FileHistoryProps {
+  projectId: string;
+  filePath: string;
+  refreshKey?: number;
+  onRestored: (file: FileNode & { content: string }) => void;
+  onClose: () => void;
+}
+
+// Binary versions come back without text content
+type VersionWithContent = FileVersion & { content: string | null; is_binary: number };
+
+export function FileHistory({ projectId, filePath, refreshKey, onRestored, onClose }: FileHistoryProps) {
+  const [versions, setVersions] = useState<FileVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedVersion, setSelectedVersion] = useState<VersionWithContent | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: refreshKey changes when the file is saved
+  useEffect(() => {
+    loadVersions();
+  }, [projectId, filePath, refreshKey]);
+
+  const loadVersions = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(
+        `/api/projects/${projectId}/versions?path=${encodeURIComponent(filePath)}`,
+        { headers: { "X-DO-ID": projectId } }
+      );
+
+      if (!response.ok) throw new Error("Failed to load versions");
+
+      setVersions(await response.json<FileVersion[]>());
+      setSelectedVersion(null);
+    } catch (error) {
+      console.error("Failed to load versions:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSelect = async (version: FileVersion) => {
+    if (selectedVersion?.id === version.id) {
+      setSelectedVersion(null);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/versions/${version.id}`, {
+        headers: { "X-DO-ID": projectId }
+      });
+
+      if (!response.ok) throw new Error("Failed to load version");
+
+      setSelectedVersion(await response.json<VersionWithContent>());
+    } catch (error) {
+      console.error("Failed to load version:", error);
+    }
+  };
+
+  const handleRestore = async (version: FileVersion) => {
+    if (!confirm(`Restore ${filePath} to the version from ${formatTimestamp(version.created_at)}?`)) {
+      return;
+    }
+
+    try {
+      setIsRestoring(true);
+      const response = await fetch(`/api/projects/${projectId}/versions/${version.id}/restore`, {
+        method: "POST",
+        headers: { "X-DO-ID": projectId }
+      });
+
+      if (!response.ok) throw new Error("Failed to restore version");
+
+      onRestored(await response.json<FileNode & { content: string }>());
+      await loadVersions();
+    } catch (error) {
+      console.error("Failed to restore version:", error);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const formatTimestamp = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString(undefined, {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit"
+    });
+  };
+
+  const formatSize = (size: number) => {
+    return size < 1024 ? `${size} B` : `${(size / 1024).toFixed(1)} KB`;
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-neutral-50 dark:bg-neutral-900 border-l border-neutral-300 dark:border-neutral-800">
+      <div className="px-3 py-2 border-b border-neutral-300 dark:border-neutral-800 flex items-center justify-between">
+        <div className="flex items-center gap-2 min-w-0">
+          <History size={16} className="text-[#F48120] flex-shrink-0" />
+          <span className="text-sm font-semibold truncate">History</span>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 hover:bg-neutral-200 dark:hover:bg-neutral-800 rounded"
+          title="Close history"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {isLoading ? (
+          <div className="p-4 text-sm text-neutral-500 text-center">Loading...</div>
+        ) : versions.length === 0 ? (
+          <div className="p-4 text-sm text-neutral-500 text-center">
+            No versions recorded for this file yet.
+          </div>
+        ) : (
+          versions.map((version, index) => (
+            <div key={version.id} className="border-b border-neutral-200 dark:border-neutral-800">
+              <button
+                type="button"
+                onClick={() => handleSelect(version)}
+                className={`w-full text-left px-3 py-2 hover:bg-neutral-200 dark:hover:bg-neutral-800 transition-colors ${
+                  selectedVersion?.id === version.id ? "bg-neutral-200 dark:bg-neutral-800" : ""
+                }`}
+              >
+                <div className="flex items-center gap-2 text-xs">
+                  {version.author === "ai" ? (
+                    <Bot size={12} className="text-[#F48120] flex-shrink-0" />
+                  ) : (
+                    <User size={12} className="text-blue-500 flex-shrink-0" />
+                  )}
+                  <span className="font-medium">
+                    {version.author === "ai" ? `AI${version.tool ? ` · ${version.tool}` : ""}` : "You"}
+                  </span>
+                  {index === 0 && (
+                    <span className="ml-auto text-[10px] uppercase text-neutral-500">Current</span>
+                  )}
+                </div>
+                <div className="text-[10px] text-neutral-500 mt-0.5">
+                  {formatTimestamp(version.created_at)} · {formatSize(version.size)}
+                </div>
+              </button>
+
+              {selectedVersion?.id === version.id && (
+                <div className="px-3 pb-3 space-y-2">
+                  {selectedVersion.is_binary ? (
+                    <div className="text-[11px] p-2 rounded text-neutral-500 bg-white dark:bg-[#1e1e1e] border border-neutral-200 dark:border-neutral-800">
+                      Binary content ({formatSize(selectedVersion.size)})
+                    </div>
+                  ) : (
+                    <pre className="text-[11px] max-h-64 overflow-auto p-2 rounded bg-white dark:bg-[#1e1e1e] border border-neutral-200 dark:border-neutral-800 whitespace-pre">
+                      {selectedVersion.content}
+                    </pre>
+                  )}
+                  {index > 0 && (
+                    <Button
+                      variant="primary"
+                      size="sm"
+                      onClick={() => handleRestore(version)}
+                      disabled={isRestoring}
+                      className="text-xs h-7"
+                    >
+                      <RotateCcw size={12} />
+                      {isRestoring ? "Restoring..." : "Restore this version"}
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -12,8 +12,10 @@ import {
   Trash2
 } from "lucide-react";
 import type { FileNode } from "@/project-manager";
+import { TrashView } from "./TrashView";
 
 interface FileTreeProps {
+  projectId?: string;  // Enables the trash view
   files: FileNode[];
   onFileSelect: (file: FileNode) => void;
   onFileCreate?: (parentPath: string | null, type: "file" | "directory", name: string) => void;
@@ -83,6 +85,9 @@ const buildTree = (files: FileNode[]): TreeNode[] => {
   return tree;
 };
 
+const countDescendants = (node: TreeNode): number =>
+  (node.children || []).reduce((count, child) => count + 1 + countDescendants(child), 0);
+
 function TreeItem({
   node,
   level,
@@ -305,7 +310,11 @@ function TreeItem({
           <button
             onClick={() => {
               setShowContextMenu(false);
-              if (onFileDelete && confirm(`Delete ${node.name}?`)) {
+              const descendants = isDirectory ? countDescendants(node) : 0;
+              const message = descendants > 0
+                ? `Move ${node.name} and the ${descendants} ${descendants === 1 ? "item" : "items"} inside it to the trash?`
+                : `Move ${node.name} to the trash?`;
+              if (onFileDelete && confirm(message)) {
                 onFileDelete(node.path);
               }
             }}
@@ -366,9 +375,10 @@ function TreeItem({
   );
 }
 
-export function FileTree({ files, onFileSelect, onFileCreate, onFileMove, onFileRename, onFileDelete, selectedFile }: FileTreeProps) {
+export function FileTree({ projectId, files, onFileSelect, onFileCreate, onFileMove, onFileRename, onFileDelete, selectedFile }: FileTreeProps) {
   const tree = buildTree(files);
   const [creatingRootFile, setCreatingRootFile] = useState<{ type: "file" | "directory"; name: string } | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
 
   const handleCreateRoot = () => {
     if (creatingRootFile && creatingRootFile.name.trim() && onFileCreate) {
@@ -379,20 +389,45 @@ export function FileTree({ files, onFileSelect, onFileCreate, onFileMove, onFile
     }
   };
 
+  if (projectId && showTrash) {
+    return (
+      <div className="h-full flex flex-col bg-neutral-50 dark:bg-neutral-900 border-r border-neutral-300 dark:border-neutral-800">
+        <TrashView
+          projectId={projectId}
+          refreshKey={files.length}
+          canModify={!!onFileDelete}
+          onClose={() => setShowTrash(false)}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="h-full flex flex-col bg-neutral-50 dark:bg-neutral-900 border-r border-neutral-300 dark:border-neutral-800">
       <div className="px-3 py-2 border-b border-neutral-300 dark:border-neutral-800 flex items-center justify-between">
         <span className="text-sm font-semibold">Explorer</span>
-        {onFileCreate && (
-          <button
-            type="button"
-            onClick={() => setCreatingRootFile({ type: "file", name: "" })}
-            className="p-1 hover:bg-neutral-200 dark:hover:bg-neutral-800 rounded"
-            title="New File"
-          >
-            <Plus size={16} />
-          </button>
-        )}
+        <div className="flex items-center gap-1">
+          {projectId && (
+            <button
+              type="button"
+              onClick={() => setShowTrash(true)}
+              className="p-1 hover:bg-neutral-200 dark:hover:bg-neutral-800 rounded"
+              title="Trash"
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
+          {onFileCreate && (
+            <button
+              type="button"
+              onClick={() => setCreatingRootFile({ type: "file", name: "" })}
+              className="p-1 hover:bg-neutral-200 dark:hover:bg-neutral-800 rounded"
+              title="New File"
+            >
+              <Plus size={16} />
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="flex-1 overflow-y-auto">
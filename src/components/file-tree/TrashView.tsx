@@ -0,0 +1,177 @@
+import { useState, useEffect } from "react";
+import { Bot, File, Folder, RotateCcw, Trash2, User, X } from "lucide-react";
+import { Button } from "@/components/button/Button";
+import type { TrashItem } from "@/project-manager";
+
+interface TrashViewProps {
+  projectId: string;
+  refreshKey?: number;
+  canModify: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Files and directories deleted from the project. Restored items come back through the
+ * project's event feed like any other created file.
+ */
+export function TrashView({ projectId, refreshKey, canModify, onClose }: TrashViewProps) {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: refreshKey changes when files are deleted or restored
+  useEffect(() => {
+    loadItems();
+  }, [projectId, refreshKey]);
+
+  const loadItems = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/projects/${projectId}/trash`, {
+        headers: { "X-DO-ID": projectId }
+      });
+
+      if (!response.ok) throw new Error("Failed to load trash");
+
+      setItems(await response.json<TrashItem[]>());
+    } catch (error) {
+      console.error("Failed to load trash:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const changeTrash = async (busy: string, path: string, method: "POST" | "DELETE") => {
+    try {
+      setBusyId(busy);
+      const response = await fetch(`/api/projects/${projectId}/trash${path}`, {
+        method,
+        headers: { "X-DO-ID": projectId }
+      });
+
+      if (!response.ok) {
+        const data = await response.json<{ error?: string }>().catch(() => ({ error: undefined }));
+        alert(data.error || "Failed to update the trash");
+        return;
+      }
+
+      await loadItems();
+    } catch (error) {
+      console.error("Failed to update the trash:", error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = (item: TrashItem) => {
+    if (confirm(`Delete ${item.path} forever? This can't be undone.`)) {
+      changeTrash(item.id, `/${item.id}`, "DELETE");
+    }
+  };
+
+  const handleEmpty = () => {
+    if (confirm(`Delete all ${items.length} items in the trash forever? This can't be undone.`)) {
+      changeTrash("all", "", "DELETE");
+    }
+  };
+
+  const formatTimestamp = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString(undefined, {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit"
+    });
+  };
+
+  const formatSize = (size: number) => {
+    return size < 1024 ? `${size} B` : `${(size / 1024).toFixed(1)} KB`;
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-3 py-2 border-b border-neutral-300 dark:border-neutral-800 flex items-center justify-between">
+        <div className="flex items-center gap-2 min-w-0">
+          <Trash2 size={16} className="text-[#F48120] flex-shrink-0" />
+          <span className="text-sm font-semibold truncate">Trash</span>
+        </div>
+        <div className="flex items-center gap-1">
+          {canModify && items.length > 0 && (
+            <button
+              type="button"
+              onClick={handleEmpty}
+              disabled={busyId !== null}
+              className="px-1.5 py-0.5 text-xs text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 rounded"
+            >
+              Empty
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 hover:bg-neutral-200 dark:hover:bg-neutral-800 rounded"
+            title="Close trash"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {isLoading && items.length === 0 ? (
+          <div className="p-4 text-sm text-neutral-500 text-center">Loading...</div>
+        ) : items.length === 0 ? (
+          <div className="p-4 text-sm text-neutral-500 text-center">The trash is empty.</div>
+        ) : (
+          items.map((item) => (
+            <div key={item.id} className="px-3 py-2 border-b border-neutral-200 dark:border-neutral-800">
+              <div className="flex items-center gap-2 text-xs min-w-0" title={item.path}>
+                {item.type === "directory" ? (
+                  <Folder size={14} className="text-blue-500 flex-shrink-0" />
+                ) : (
+                  <File size={14} className="text-gray-400 flex-shrink-0" />
+                )}
+                <span className="font-medium truncate">{item.path}</span>
+              </div>
+              <div className="flex items-center gap-1 text-[10px] text-neutral-500 mt-0.5">
+                {item.author === "ai" ? (
+                  <Bot size={10} className="text-[#F48120] flex-shrink-0" />
+                ) : (
+                  <User size={10} className="text-blue-500 flex-shrink-0" />
+                )}
+                <span>
+                  {formatTimestamp(item.deleted_at)} · {formatSize(item.size)}
+                  {item.entry_count > 1 && ` · ${item.entry_count} items`}
+                </span>
+              </div>
+              <div className="text-[10px] text-neutral-500">Deleted for good {formatTimestamp(item.expires_at)}</div>
+              {canModify && (
+                <div className="flex gap-1 mt-1.5">
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => changeTrash(item.id, `/${item.id}/restore`, "POST")}
+                    disabled={busyId !== null}
+                    className="text-xs h-6"
+                  >
+                    <RotateCcw size={12} />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handlePurge(item)}
+                    disabled={busyId !== null}
+                    className="text-xs h-6 text-red-600 dark:text-red-400"
+                  >
+                    Delete forever
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
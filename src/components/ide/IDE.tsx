@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { Panel, PanelGroup, PanelResizeHandle } from "react-resizable-panels";
 import { FileTree } from "@/components/file-tree/FileTree";
 import { CodeEditor } from "@/components/code-editor/CodeEditor";
@@ -6,11 +6,28 @@ import { AIChat } from "@/components/ai-chat/AIChat";
 import { Terminal } from "@/components/terminal/Terminal";
 import { Preview } from "@/components/preview/Preview";
 import { FloatingPreview } from "@/components/floating-preview/FloatingPreview";
+import { FileHistory } from "@/components/file-history/FileHistory";
+import { BinaryViewer } from "@/components/binary-viewer/BinaryViewer";
+import { SaveConflictDialog } from "@/components/save-conflict/SaveConflictDialog";
+import { ProjectMembersDialog } from "@/components/project-members/ProjectMembersDialog";
+import { ProjectSettingsDialog } from "@/components/project-settings/ProjectSettingsDialog";
+import { SearchPanel } from "@/components/search-panel/SearchPanel";
+import { ActivityPanel } from "@/components/activity-panel/ActivityPanel";
 import { Button } from "@/components/button/Button";
-import { Moon, Sun, X, Play, Square, Terminal as TerminalIcon, ChevronDown, LogOut } from "lucide-react";
+import { Moon, Sun, X, Play, Square, Terminal as TerminalIcon, ChevronDown, LogOut, History, Users, Search, Settings, Activity } from "lucide-react";
 import { signOut, useSession } from "@/lib/auth-client";
-import type { FileNode } from "@/project-manager";
-import { mountProjectFiles } from "@/lib/webcontainer";
+import type { ContentEntry, FileEvent, FileNode, ProjectList, ProjectRole } from "@/project-manager";
+import type { SearchMatch } from "@/search";
+import { encodePath } from "@/paths";
+import { parseProjectConfig, PROJECT_CONFIG_PATH, type ProjectConfig } from "@/project-config";
+import {
+  mountProjectFiles,
+  writeContainerFile,
+  createContainerDirectory,
+  removeContainerPath,
+  renameContainerPath
+} from "@/lib/webcontainer";
+import { decodeEntryContent, readProjectContent } from "@/lib/project-content";
 
 interface IDEProps {
   projectId: string;
@@ -27,6 +44,11 @@ interface FileTab extends FileWithContent {
   hasUnsavedChanges?: boolean;
 }
 
+interface SaveConflict {
+  path: string;
+  file: FileWithContent;  // The version that was saved after the tab was opened
+}
+
 interface BuildStatus {
   id: string;
   status: "pending" | "installing" | "building" | "success" | "failed";
@@ -47,6 +69,18 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
   const [activeTabIndex, setActiveTabIndex] = useState<number>(-1);
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [saveConflict, setSaveConflict] = useState<SaveConflict | null>(null);
+  const [role, setRole] = useState<ProjectRole | null>(null);
+  const [showMembers, setShowMembers] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [projectConfig, setProjectConfig] = useState<ProjectConfig>({});
+  const [showSearch, setShowSearch] = useState(false);
+  const [showActivity, setShowActivity] = useState(false);
+  // Bumped on every file event so the activity panel picks up new entries
+  const [activityRefresh, setActivityRefresh] = useState(0);
+  const [chatFocus, setChatFocus] = useState<{ id: string; at: number } | null>(null);
+  const [searchMatch, setSearchMatch] = useState<SearchMatch | null>(null);  // Result to reveal in the editor
 
   // Build & Preview state
   const [buildStatus, setBuildStatus] = useState<BuildStatus | null>(null);
@@ -57,12 +91,20 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
   const [previewUrl, setPreviewUrl] = useState<string>('');
   const [showFloatingPreview, setShowFloatingPreview] = useState(false);
   const [isFloatingExpanded, setIsFloatingExpanded] = useState(false);
-  const [projects, setProjects] = useState<Array<{ id: string; name: string }>>([]);
+  const [projects, setProjects] = useState<ProjectList["projects"]>([]);
+  const [projectTags, setProjectTags] = useState<string[]>([]);
+  const [projectSearch, setProjectSearch] = useState("");
+  const [projectTagFilter, setProjectTagFilter] = useState("");
   const [showProjectDropdown, setShowProjectDropdown] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
+  // Revision of the last content load; later loads only fetch what changed since
+  const contentRevision = useRef<number | null>(null);
 
   const selectedFile = activeTabIndex >= 0 ? openTabs[activeTabIndex] : null;
 
+  // Viewers can browse, build and follow live edits, but not change files
+  const readOnly = role === "viewer";
+
   useEffect(() => {
     if (theme === "dark") {
       document.documentElement.classList.add("dark");
@@ -74,21 +116,27 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
     localStorage.setItem("theme", theme);
   }, [theme]);
 
-  // Load projects list
+  // Load projects list, filtered by the dropdown's search box and tag
   useEffect(() => {
     const loadProjects = async () => {
       try {
-        const response = await fetch("/api/projects");
+        const params = new URLSearchParams({ limit: "50" });
+        if (projectSearch.trim()) params.set("q", projectSearch.trim());
+        if (projectTagFilter) params.set("tag", projectTagFilter);
+
+        const response = await fetch(`/api/projects?${params}`);
         if (response.ok) {
-          const data = await response.json();
-          setProjects(data.projects || []);
+          const data = await response.json<ProjectList>();
+          setProjects(data.projects);
+          setProjectTags(data.tags);
         }
       } catch (error) {
         console.error("Failed to load projects:", error);
       }
     };
-    loadProjects();
-  }, []);
+    const timer = setTimeout(loadProjects, 250);
+    return () => clearTimeout(timer);
+  }, [projectSearch, projectTagFilter]);
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -124,6 +172,12 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
         }
       }
 
+      // Ctrl+Shift+F to open search
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === "f") {
+        e.preventDefault();
+        setShowSearch(true);
+      }
+
       // Ctrl+` to toggle terminal
       if ((e.ctrlKey || e.metaKey) && e.key === "`") {
         e.preventDefault();
@@ -140,51 +194,96 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
   };
 
   useEffect(() => {
+    contentRevision.current = null;
     loadFiles();
   }, [projectId]);
 
-  const loadFiles = async () => {
+  // biome-ignore lint/correctness/useExhaustiveDependencies: the settings follow the project
+  useEffect(() => {
+    loadProjectConfig();
+  }, [projectId]);
+
+  // The role decides what the IDE lets the user change; the ProjectManager enforces it either way
+  useEffect(() => {
+    const loadRole = async () => {
+      try {
+        const response = await fetch(`/api/projects/${projectId}/role`);
+        if (response.ok) {
+          const data = await response.json<{ role: ProjectRole }>();
+          setRole(data.role);
+        }
+      } catch (error) {
+        console.error("Failed to load project role:", error);
+      }
+    };
+    loadRole();
+  }, [projectId]);
+
+  /**
+   * Read the project's config file; a missing or invalid file gives the defaults
+   */
+  const loadProjectConfig = async () => {
     try {
-      setIsLoading(true);
-      const response = await fetch(`/api/projects/${projectId}/files`, {
+      const response = await fetch(`/api/projects/${projectId}/files/${PROJECT_CONFIG_PATH}`, {
         headers: { "X-DO-ID": projectId }
       });
+      if (!response.ok) {
+        setProjectConfig({});
+        return;
+      }
+
+      const file = await response.json<FileWithContent>();
+      setProjectConfig(parseProjectConfig(file.content ?? ""));
+    } catch (error) {
+      console.error("Failed to load project settings:", error);
+      setProjectConfig({});
+    }
+  };
+
+  /**
+   * Load the project's files and content in one request and mount them into the WebContainer.
+   * After the first load, only what changed since the last revision is fetched and applied.
+   */
+  const loadFiles = async () => {
+    try {
+      setIsLoading(true);
+      const since = contentRevision.current;
+      const response = await fetch(
+        `/api/projects/${projectId}/content${since === null ? "" : `?since=${since}`}`,
+        { headers: { "X-DO-ID": projectId } }
+      );
 
       if (!response.ok) throw new Error("Failed to load files");
 
-      const data = await response.json<FileNode[]>();
-      setFiles(data);
+      const { header, entries } = await readProjectContent(response);
+      contentRevision.current = header.revision;
 
-      // Load all file contents for WebContainer
-      const filesWithContent: Array<{ path: string; content: string; type: 'file' | 'directory' }> = [];
+      if (!header.full) {
+        await applyContentChanges(entries);
+        return;
+      }
+
+      const data: FileNode[] = [];
+      const filesWithContent: Array<{ path: string; content: string | Uint8Array; type: 'file' | 'directory' }> = [];
+
+      for (const entry of entries) {
+        if ("deleted" in entry) continue;
+        const { content: _, encoding: __, ...file } = entry;
+        data.push(file);
 
-      for (const file of data) {
         if (file.type === 'directory') {
-          filesWithContent.push({
-            path: file.path,
-            content: '',
-            type: 'directory'
-          });
-        } else {
-          try {
-            const fileResponse = await fetch(`/api/projects/${projectId}/files/${file.path}`, {
-              headers: { "X-DO-ID": projectId }
-            });
-
-            if (fileResponse.ok) {
-              const fileData = await fileResponse.json<FileWithContent>();
-              filesWithContent.push({
-                path: file.path,
-                content: fileData.content || '',
-                type: 'file'
-              });
-            }
-          } catch (err) {
-            console.error(`Failed to load content for ${file.path}:`, err);
-          }
+          filesWithContent.push({ path: file.path, content: '', type: 'directory' });
+          continue;
+        }
+
+        const content = decodeEntryContent(entry);
+        if (content !== null) {
+          filesWithContent.push({ path: file.path, content, type: 'file' });
         }
       }
 
+      setFiles(data);
+
       // Mount files to WebContainer
       try {
         await mountProjectFiles(projectId, filesWithContent);
@@ -200,6 +299,168 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
     }
   };
 
+  /**
+   * Apply the entries of an incremental content load to the file tree and WebContainer
+   */
+  const applyContentChanges = async (entries: ContentEntry[]) => {
+    const changed: FileNode[] = [];
+    for (const entry of entries) {
+      if ("deleted" in entry) continue;
+      const { content: _, encoding: __, ...file } = entry;
+      changed.push(file);
+    }
+    const paths = new Set(entries.map((entry) => entry.path));
+
+    setFiles((current) => [...current.filter((file) => !paths.has(file.path)), ...changed]);
+
+    for (const entry of entries) {
+      if ("deleted" in entry) {
+        await removeContainerPath(entry.path).catch((err) => console.error("Failed to sync delete:", err));
+      } else if (entry.type === "directory") {
+        await createContainerDirectory(entry.path).catch((err) => console.error("Failed to sync directory:", err));
+      } else {
+        const content = decodeEntryContent(entry);
+        if (content === null) continue;
+        await writeContainerFile(entry.path, content).catch((err) => console.error("Failed to sync file:", err));
+      }
+    }
+  };
+
+  /**
+   * Current content of a file: text for the editor, bytes for binary files. Null if it can't be loaded.
+   */
+  const loadFileContent = async (file: FileNode): Promise<string | Uint8Array | null> => {
+    try {
+      if (file.is_binary) {
+        const rawResponse = await fetch(`/api/projects/${projectId}/raw/${encodePath(file.path)}`, {
+          headers: { "X-DO-ID": projectId }
+        });
+        return rawResponse.ok ? new Uint8Array(await rawResponse.arrayBuffer()) : null;
+      }
+
+      const fileResponse = await fetch(`/api/projects/${projectId}/files/${encodePath(file.path)}`, {
+        headers: { "X-DO-ID": projectId }
+      });
+      if (!fileResponse.ok) return null;
+
+      const fileData = await fileResponse.json<FileWithContent>();
+      return fileData.content || '';
+    } catch (err) {
+      console.error(`Failed to load content for ${file.path}:`, err);
+      return null;
+    }
+  };
+
+  /**
+   * Apply one change from the project's event feed to the file tree, open tabs and WebContainer
+   */
+  const applyFileEvent = async (event: FileEvent) => {
+    const isUnder = (path: string, root: string) => path === root || path.startsWith(`${root}/`);
+
+    if (event.type === "deleted") {
+      setFiles((current) => current.filter((file) => !isUnder(file.path, event.path)));
+      if (isUnder(PROJECT_CONFIG_PATH, event.path)) {
+        setProjectConfig({});
+      }
+      // Tabs with unsaved edits stay open so the work isn't lost
+      setOpenTabs((tabs) => tabs.filter((tab) => tab.hasUnsavedChanges || !isUnder(tab.path, event.path)));
+      await removeContainerPath(event.path).catch((err) => console.error("Failed to sync delete:", err));
+      return;
+    }
+
+    if (event.type === "moved") {
+      const movePath = <T extends FileNode>(file: T): T => {
+        if (!isUnder(file.path, event.fromPath)) return file;
+        const path = event.toPath + file.path.slice(event.fromPath.length);
+        return {
+          ...file,
+          path,
+          name: path.split("/").pop() || path,
+          parent_path: path.split("/").slice(0, -1).join("/") || null
+        };
+      };
+      setFiles((current) => current.map(movePath));
+      setOpenTabs((tabs) => tabs.map(movePath));
+      await renameContainerPath(event.fromPath, event.toPath).catch((err) => console.error("Failed to sync move:", err));
+      return;
+    }
+
+    const { file } = event;
+    if (file.path === PROJECT_CONFIG_PATH) {
+      loadProjectConfig();
+    }
+    setFiles((current) => [...current.filter((existing) => existing.path !== file.path), file]);
+
+    if (file.type === "directory") {
+      await createContainerDirectory(file.path).catch((err) => console.error("Failed to sync directory:", err));
+      return;
+    }
+
+    const content = await loadFileContent(file);
+    if (content === null) return;
+
+    await writeContainerFile(file.path, content).catch((err) => console.error("Failed to sync file:", err));
+
+    // Text tabs get their content live from the shared document, so only catch up on metadata
+    // and clear the unsaved marker once the saved content matches what the editor shows
+    setOpenTabs((tabs) =>
+      tabs.map((tab) => {
+        if (tab.path !== file.path || (tab.revision ?? 0) >= (file.revision ?? 0)) return tab;
+        // Event files carry metadata only, so spreading them keeps the tab's content
+        return {
+          ...tab,
+          ...file,
+          hasUnsavedChanges: typeof content === "string" && tab.hasUnsavedChanges && tab.content !== content
+        };
+      })
+    );
+  };
+
+  // Follow changes made by the AI, other tabs and other users as they happen
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reconnect only when the project changes
+  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+    let reconnecting = false;
+    // Events are applied one at a time, so changes to the same path reach the WebContainer in order
+    let applying = Promise.resolve();
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/api/projects/${projectId}/events`);
+
+      socket.onopen = () => {
+        // Catch up on whatever changed while the socket was down
+        if (reconnecting) {
+          applying = applying.then(() => loadFiles());
+        }
+      };
+
+      socket.onmessage = (message) => {
+        const event = JSON.parse(message.data) as FileEvent;
+        applying = applying
+          .then(() => applyFileEvent(event))
+          .catch((error) => console.error("Failed to apply file event:", error));
+        setActivityRefresh((count) => count + 1);
+      };
+
+      socket.onclose = () => {
+        if (closed) return;
+        reconnecting = true;
+        retryTimer = setTimeout(connect, 2000);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }, [projectId]);
+
   const handleFileSelect = async (file: FileNode) => {
     if (file.type === "directory") return;
 
@@ -211,7 +472,7 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
 
     try {
       setIsLoading(true);
-      const response = await fetch(`/api/projects/${projectId}/files/${file.path}`, {
+      const response = await fetch(`/api/projects/${projectId}/files/${encodePath(file.path)}`, {
         headers: { "X-DO-ID": projectId }
       });
 
@@ -228,6 +489,23 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
     }
   };
 
+  const handleOpenMatch = async (match: SearchMatch) => {
+    const file = files.find((candidate) => candidate.path === match.path);
+    if (!file) return;
+
+    await handleFileSelect(file);
+    setSearchMatch(match);
+  };
+
+  const handleOpenActivityPath = async (path: string) => {
+    const file = files.find((candidate) => candidate.path === path);
+    if (!file) {
+      alert(`${path} no longer exists`);
+      return;
+    }
+    await handleFileSelect(file);
+  };
+
   const handleContentChange = (value: string | undefined) => {
     if (activeTabIndex === -1 || !selectedFile) return;
 
@@ -243,29 +521,52 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
     setOpenTabs(updatedTabs);
   };
 
-  const handleSave = async () => {
+  const handleSave = () => saveFile(selectedFile?.revision);
+
+  /**
+   * Save the active tab. The server rejects the write with 409 when the file has moved
+   * past `expectedRevision`, which opens the conflict dialog instead.
+   */
+  const saveFile = async (expectedRevision?: number) => {
     if (activeTabIndex === -1 || !selectedFile) return;
 
     try {
       setIsSaving(true);
-      const response = await fetch(`/api/projects/${projectId}/files/${selectedFile.path}`, {
+      const response = await fetch(`/api/projects/${projectId}/files/${encodePath(selectedFile.path)}`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
           "X-DO-ID": projectId
         },
-        body: JSON.stringify({ content: selectedFile.content })
+        body: JSON.stringify({ content: selectedFile.content, expectedRevision })
       });
 
+      if (response.status === 409) {
+        const conflict = await response.json<{ error: string; file: FileWithContent }>();
+        setSaveConflict({ path: selectedFile.path, file: conflict.file });
+        return;
+      }
+
+      // Out of storage: the change stays in the tab until space is freed
+      if (response.status === 413) {
+        const data = await response.json<{ error: string }>();
+        alert(data.error);
+        return;
+      }
+
       if (!response.ok) throw new Error("Failed to save file");
 
+      const savedFile = await response.json<FileWithContent>();
       const updatedTabs = [...openTabs];
       updatedTabs[activeTabIndex] = {
         ...selectedFile,
+        updated_at: savedFile.updated_at,
+        size: savedFile.size,
+        revision: savedFile.revision,
         hasUnsavedChanges: false
       };
       setOpenTabs(updatedTabs);
-      await loadFiles();
+      setSaveConflict(null);
     } catch (error) {
       console.error("Failed to save file:", error);
     } finally {
@@ -273,6 +574,42 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
     }
   };
 
+  // Drop local edits and continue from the version that was saved meanwhile
+  const handleReloadConflict = () => {
+    if (!saveConflict) return;
+
+    setOpenTabs((tabs) =>
+      tabs.map((tab) =>
+        tab.path === saveConflict.path ? { ...tab, ...saveConflict.file, hasUnsavedChanges: false } : tab
+      )
+    );
+    setSaveConflict(null);
+  };
+
+  const closeSaveConflict = useCallback(() => setSaveConflict(null), []);
+
+  const closeMembers = useCallback(() => setShowMembers(false), []);
+
+  const handleMembersRoleChange = useCallback(
+    (newRole: ProjectRole | null) => {
+      // Leaving the project takes the user back to their project list
+      if (newRole === null) {
+        onBack?.();
+        return;
+      }
+      setRole(newRole);
+    },
+    [onBack]
+  );
+
+  const handleVersionRestored = async (file: FileNode & { content: string }) => {
+    setOpenTabs((tabs) =>
+      tabs.map((tab) =>
+        tab.path === file.path ? { ...tab, ...file, hasUnsavedChanges: false } : tab
+      )
+    );
+  };
+
   const handleCloseTab = (index: number) => {
     const tab = openTabs[index];
 
@@ -321,7 +658,7 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
 
   const handleFileDelete = async (filePath: string) => {
     try {
-      const response = await fetch(`/api/projects/${projectId}/files/${filePath}`, {
+      const response = await fetch(`/api/projects/${projectId}/files/${encodePath(filePath)}`, {
         method: "DELETE",
         headers: {
           "X-DO-ID": projectId
@@ -329,6 +666,19 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
       });
 
       if (!response.ok) throw new Error("Failed to delete file");
+      const result = await response.json<{ deleted: number }>();
+      console.log(`Deleted ${result.deleted} entries under ${filePath}`);
+
+      // Close tabs for the deleted file or anything inside the deleted directory
+      const remainingTabs = openTabs.filter(
+        (tab) => tab.path !== filePath && !tab.path.startsWith(`${filePath}/`)
+      );
+      if (remainingTabs.length !== openTabs.length) {
+        const activeIndex = selectedFile ? remainingTabs.findIndex((tab) => tab.id === selectedFile.id) : -1;
+        setOpenTabs(remainingTabs);
+        setActiveTabIndex(activeIndex !== -1 ? activeIndex : remainingTabs.length - 1);
+      }
+
       await loadFiles();
     } catch (error) {
       console.error("Failed to delete file:", error);
@@ -347,6 +697,7 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
       });
 
       if (!response.ok) throw new Error("Failed to move file");
+      remapOpenTabs(sourcePath, destinationPath);
       await loadFiles();
     } catch (error) {
       console.error("Failed to move file:", error);
@@ -365,12 +716,26 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
       });
 
       if (!response.ok) throw new Error("Failed to rename file");
+      const result = await response.json<{ destinationPath: string }>();
+      remapOpenTabs(filePath, result.destinationPath);
       await loadFiles();
     } catch (error) {
       console.error("Failed to rename file:", error);
     }
   };
 
+  // Keep open tabs pointing at their file after it (or a parent directory) moves
+  const remapOpenTabs = (oldPath: string, newPath: string) => {
+    setOpenTabs((tabs) =>
+      tabs.map((tab) => {
+        if (tab.path !== oldPath && !tab.path.startsWith(`${oldPath}/`)) return tab;
+        const path = newPath + tab.path.slice(oldPath.length);
+        const parentPath = path.split("/").slice(0, -1).join("/") || null;
+        return { ...tab, path, name: path.split("/").pop() || path, parent_path: parentPath };
+      })
+    );
+  };
+
   const handleBuild = async () => {
     try {
       setIsBuilding(true);
@@ -380,11 +745,8 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
       const response = await fetch("/api/build", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          projectId,
-          buildCommand: "npm run build",
-          installCommand: "npm install"
-        })
+        // Commands and output directory come from the project's settings
+        body: JSON.stringify({ projectId })
       });
 
       if (!response.ok) throw new Error("Failed to start build");
@@ -492,9 +854,37 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
 
             {showProjectDropdown && (
               <div className="absolute top-full left-0 mt-1 w-64 bg-white dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-700 rounded-lg shadow-lg z-50 max-h-80 overflow-y-auto">
+                <div className="sticky top-0 p-2 space-y-1 bg-white dark:bg-neutral-800 border-b border-neutral-200 dark:border-neutral-700">
+                  <input
+                    type="search"
+                    value={projectSearch}
+                    onChange={(e) => setProjectSearch(e.target.value)}
+                    placeholder="Search projects..."
+                    aria-label="Search projects"
+                    className="w-full px-2 py-1 text-sm rounded border border-neutral-300 dark:border-neutral-600 bg-transparent text-neutral-700 dark:text-neutral-300 focus:outline-none focus:border-[#F48120]"
+                  />
+                  {projectTags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {projectTags.map((tag) => (
+                        <button
+                          key={tag}
+                          type="button"
+                          onClick={() => setProjectTagFilter(projectTagFilter === tag ? "" : tag)}
+                          className={`px-1.5 py-0.5 rounded text-xs ${
+                            projectTagFilter === tag
+                              ? "bg-[#F48120] text-white"
+                              : "bg-neutral-100 dark:bg-neutral-700 text-neutral-600 dark:text-neutral-300"
+                          }`}
+                        >
+                          {tag}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
                 {projects.length === 0 ? (
                   <div className="p-3 text-sm text-neutral-500 text-center">
-                    No other projects found
+                    {projectSearch.trim() || projectTagFilter ? "No matching projects" : "No other projects found"}
                   </div>
                 ) : (
                   <div className="py-1">
@@ -513,6 +903,7 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
                             : "text-neutral-700 dark:text-neutral-300"
                         }`}
                       >
+                        {project.favorite && <span className="text-[#F48120] mr-1">★</span>}
                         {project.name}
                       </button>
                     ))}
@@ -546,7 +937,7 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
             </Button>
           )}
 
-          {selectedFile?.hasUnsavedChanges && (
+          {selectedFile?.hasUnsavedChanges && !readOnly && (
             <Button
               variant="default"
               size="sm"
@@ -558,6 +949,74 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
             </Button>
           )}
 
+          {selectedFile && (
+            <Button
+              variant="ghost"
+              size="sm"
+              shape="square"
+              className="h-7 w-7"
+              onClick={() => setShowHistory(!showHistory)}
+              tooltip="File history"
+              tooltipSide="bottom"
+            >
+              <History size={16} />
+            </Button>
+          )}
+
+          <Button
+            variant="ghost"
+            size="sm"
+            shape="square"
+            className="h-7 w-7"
+            onClick={() => {
+              setShowSearch(!showSearch);
+              setShowActivity(false);
+            }}
+            tooltip="Search (Ctrl+Shift+F)"
+            tooltipSide="bottom"
+          >
+            <Search size={16} />
+          </Button>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            shape="square"
+            className="h-7 w-7"
+            onClick={() => {
+              setShowActivity(!showActivity);
+              setShowSearch(false);
+            }}
+            tooltip="Activity"
+            tooltipSide="bottom"
+          >
+            <Activity size={16} />
+          </Button>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            shape="square"
+            className="h-7 w-7"
+            onClick={() => setShowMembers(true)}
+            tooltip={readOnly ? "Members (view only)" : "Share"}
+            tooltipSide="bottom"
+          >
+            <Users size={16} />
+          </Button>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            shape="square"
+            className="h-7 w-7"
+            onClick={() => setShowSettings(true)}
+            tooltip={readOnly ? "Project settings (view only)" : "Project settings"}
+            tooltipSide="bottom"
+          >
+            <Settings size={16} />
+          </Button>
+
           <Button
             variant="ghost"
             size="sm"
@@ -599,17 +1058,31 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
       {/* Main Content */}
       <div className="flex-1 overflow-hidden">
         <PanelGroup direction="horizontal">
-          {/* File Tree - Left Sidebar */}
+          {/* File Tree or Search - Left Sidebar */}
           <Panel defaultSize={15} minSize={10} maxSize={30}>
-            <FileTree
-              files={files}
-              onFileSelect={handleFileSelect}
-              onFileCreate={handleCreateFile}
-              onFileMove={handleFileMove}
-              onFileRename={handleFileRename}
-              onFileDelete={handleFileDelete}
-              selectedFile={selectedFile}
-            />
+            {showSearch ? (
+              <SearchPanel projectId={projectId} onOpenMatch={handleOpenMatch} onClose={() => setShowSearch(false)} />
+            ) : showActivity ? (
+              <ActivityPanel
+                projectId={projectId}
+                currentUserId={session?.user.id}
+                refreshKey={activityRefresh}
+                onOpenFile={handleOpenActivityPath}
+                onOpenMessage={(id) => setChatFocus({ id, at: Date.now() })}
+                onClose={() => setShowActivity(false)}
+              />
+            ) : (
+              <FileTree
+                projectId={projectId}
+                files={files}
+                onFileSelect={handleFileSelect}
+                onFileCreate={readOnly ? undefined : handleCreateFile}
+                onFileMove={readOnly ? undefined : handleFileMove}
+                onFileRename={readOnly ? undefined : handleFileRename}
+                onFileDelete={readOnly ? undefined : handleFileDelete}
+                selectedFile={selectedFile}
+              />
+            )}
           </Panel>
 
           <PanelResizeHandle className="w-1 bg-neutral-300 dark:bg-[#2b2b2b] hover:bg-[#F48120] transition-colors" />
@@ -653,28 +1126,57 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
                   )}
 
                   {/* Editor */}
-                  <div className="flex-1 bg-white dark:bg-[#1e1e1e]">
-                    {isLoading ? (
-                      <div className="h-full flex items-center justify-center">
-                        <p className="text-sm text-neutral-500 dark:text-neutral-400">Loading...</p>
-                      </div>
-                    ) : selectedFile ? (
-                      <CodeEditor
-                        value={selectedFile.content || ""}
-                        language={detectLanguage(selectedFile.name)}
-                        onChange={handleContentChange}
-                        theme={theme}
-                      />
-                    ) : (
-                      <div className="h-full flex items-center justify-center">
-                        <div className="text-center space-y-2">
-                          <p className="text-sm text-neutral-500 dark:text-neutral-400">
-                            No file selected
-                          </p>
-                          <p className="text-xs text-neutral-400 dark:text-neutral-500">
-                            Select a file from the explorer to start editing
-                          </p>
+                  <div className="flex-1 flex min-h-0 bg-white dark:bg-[#1e1e1e]">
+                    <div className="flex-1 min-w-0">
+                      {isLoading ? (
+                        <div className="h-full flex items-center justify-center">
+                          <p className="text-sm text-neutral-500 dark:text-neutral-400">Loading...</p>
+                        </div>
+                      ) : selectedFile?.is_binary ? (
+                        <BinaryViewer projectId={projectId} file={selectedFile} />
+                      ) : selectedFile ? (
+                        <CodeEditor
+                          key={selectedFile.path}
+                          value={selectedFile.content || ""}
+                          language={detectLanguage(selectedFile.name)}
+                          onChange={handleContentChange}
+                          theme={theme}
+                          readOnly={readOnly}
+                          selection={searchMatch?.path === selectedFile.path ? searchMatch : undefined}
+                          collab={
+                            session?.user
+                              ? {
+                                  projectId,
+                                  path: selectedFile.path,
+                                  user: { name: session.user.name, image: session.user.image }
+                                }
+                              : undefined
+                          }
+                        />
+                      ) : (
+                        <div className="h-full flex items-center justify-center">
+                          <div className="text-center space-y-2">
+                            <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                              No file selected
+                            </p>
+                            <p className="text-xs text-neutral-400 dark:text-neutral-500">
+                              Select a file from the explorer to start editing
+                            </p>
+                          </div>
                         </div>
+                      )}
+                    </div>
+
+                    {/* Version history for the active tab */}
+                    {showHistory && selectedFile && (
+                      <div className="w-72 flex-shrink-0">
+                        <FileHistory
+                          projectId={projectId}
+                          filePath={selectedFile.path}
+                          refreshKey={selectedFile.updated_at}
+                          onRestored={handleVersionRestored}
+                          onClose={() => setShowHistory(false)}
+                        />
                       </div>
                     )}
                   </div>
@@ -711,6 +1213,7 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
                     <Preview
                       previewUrl={previewUrl || buildStatus?.previewUrl || ''}
                       projectId={projectId}
+                      routes={projectConfig.previewRoutes}
                       onClose={() => setShowPreview(false)}
                       onPopout={() => {
                         setIsFloatingExpanded(false);
@@ -732,7 +1235,7 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
                 <AIChat
                   projectId={projectId}
                   currentFile={selectedFile?.path || null}
-                  onFilesChanged={loadFiles}
+                  focusMessage={chatFocus}
                 />
               </Panel>
             </PanelGroup>
@@ -751,6 +1254,40 @@ export function IDE({ projectId, projectName, onBack, onProjectChange }: IDEProp
           initialExpanded={isFloatingExpanded}
         />
       )}
+
+      <ProjectMembersDialog
+        isOpen={showMembers}
+        projectId={projectId}
+        projectName={projectName}
+        currentUserId={session?.user.id}
+        onClose={closeMembers}
+        onRoleChange={handleMembersRoleChange}
+      />
+
+      <ProjectSettingsDialog
+        isOpen={showSettings}
+        projectId={projectId}
+        projectName={projectName}
+        readOnly={readOnly}
+        onClose={() => setShowSettings(false)}
+        onSaved={setProjectConfig}
+      />
+
+      {/* Save rejected because the file changed since it was opened */}
+      {saveConflict && selectedFile && (
+        <SaveConflictDialog
+          isOpen
+          fileName={selectedFile.name}
+          language={detectLanguage(selectedFile.name)}
+          localContent={selectedFile.content || ""}
+          remoteContent={saveConflict.file.content || ""}
+          theme={theme}
+          isSaving={isSaving}
+          onOverwrite={() => saveFile(saveConflict.file.revision)}
+          onReload={handleReloadConflict}
+          onClose={closeSaveConflict}
+        />
+      )}
     </div>
   );
 }
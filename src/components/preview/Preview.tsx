@@ -1,26 +1,38 @@
 import { useState, useEffect } from "react";
 import { RefreshCw, X, Maximize2, Expand } from "lucide-react";
 import { Button } from "@/components/button/Button";
+import { Select } from "@/components/select/Select";
 
 interface PreviewProps {
   previewUrl?: string;
   projectId: string;
+  routes?: string[];  // Pages to offer, from the project's settings
   onClose?: () => void;
   onPopout?: () => void;
   onFullscreen?: () => void;
 }
 
-export function Preview({ previewUrl, projectId, onClose, onPopout, onFullscreen }: PreviewProps) {
+export function Preview({ previewUrl, projectId, routes, onClose, onPopout, onFullscreen }: PreviewProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [currentUrl, setCurrentUrl] = useState(previewUrl);
+  const [route, setRoute] = useState("/");
 
   useEffect(() => {
     setCurrentUrl(previewUrl);
+    setRoute("/");
     setIsLoading(true);
     setError(null);
   }, [previewUrl]);
 
+  const handleRouteChange = (value: string) => {
+    if (!previewUrl || value === route) return;
+    setRoute(value);
+    setCurrentUrl(`${previewUrl.replace(/\/$/, "")}${value}`);
+    setIsLoading(true);
+    setError(null);
+  };
+
   const handleRefresh = () => {
     setIsLoading(true);
     setError(null);
@@ -96,6 +108,14 @@ export function Preview({ previewUrl, projectId, onClose, onPopout, onFullscreen
       {/* Preview Header */}
       <div className="h-10 bg-neutral-100 dark:bg-[#252526] border-b border-neutral-300 dark:border-[#2b2b2b] flex items-center justify-between px-3">
         <div className="flex items-center gap-2 flex-1 min-w-0">
+          {routes && routes.length > 0 && (
+            <Select
+              size="sm"
+              options={[...new Set(["/", ...routes])].map((value) => ({ value }))}
+              value={route}
+              setValue={handleRouteChange}
+            />
+          )}
           <span className="text-xs text-neutral-600 dark:text-neutral-400 truncate">
             {currentUrl}
           </span>
@@ -0,0 +1,227 @@
+import { useEffect, useId, useState } from "react";
+import { Trash2, UserPlus } from "lucide-react";
+import { Avatar } from "@/components/avatar/Avatar";
+import { Button } from "@/components/button/Button";
+import { Input } from "@/components/input/Input";
+import { Label } from "@/components/label/Label";
+import { Modal } from "@/components/modal/Modal";
+import { Select } from "@/components/select/Select";
+import type { ProjectMember, ProjectRole } from "@/project-manager";
+
+interface ProjectMembersDialogProps {
+  isOpen: boolean;
+  projectId: string;
+  projectName: string;
+  currentUserId?: string;
+  onClose: () => void;
+  onRoleChange?: (role: ProjectRole | null) => void;  // The current user's role after a change, null once they left
+}
+
+const ROLE_OPTIONS = [{ value: "editor" }, { value: "viewer" }, { value: "owner" }];
+
+/**
+ * Lists who has access to a project. Owners can invite people by email or GitHub
+ * username, change roles and remove members; everyone else can leave.
+ */
+export function ProjectMembersDialog({
+  isOpen,
+  projectId,
+  projectName,
+  currentUserId,
+  onClose,
+  onRoleChange
+}: ProjectMembersDialogProps) {
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [inviteIdentifier, setInviteIdentifier] = useState("");
+  const [inviteRole, setInviteRole] = useState<ProjectRole>("editor");
+  const [isInviting, setIsInviting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inviteId = useId();
+
+  const currentRole = members.find((member) => member.user_id === currentUserId)?.role ?? null;
+  const isOwner = currentRole === "owner";
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reload whenever the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setError(null);
+      loadMembers();
+    }
+  }, [isOpen, projectId]);
+
+  const loadMembers = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/projects/${projectId}/members`);
+
+      if (!response.ok) {
+        throw new Error("Failed to load members");
+      }
+
+      const data = await response.json<ProjectMember[]>();
+      setMembers(data);
+      onRoleChange?.(data.find((member) => member.user_id === currentUserId)?.role ?? null);
+    } catch (error) {
+      console.error("Failed to load members:", error);
+      setError("Failed to load members");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Send a membership change and reload the list, showing the server's error if it fails
+   */
+  const changeMembers = async (path: string, init: RequestInit): Promise<boolean> => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/members${path}`, {
+        ...init,
+        headers: { "Content-Type": "application/json" }
+      });
+
+      if (!response.ok) {
+        const data = await response.json<{ error?: string }>().catch(() => ({ error: undefined }));
+        setError(data.error || "Failed to update members");
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error("Failed to update members:", error);
+      setError("Failed to update members");
+      return false;
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteIdentifier.trim()) return;
+
+    setIsInviting(true);
+    const invited = await changeMembers("", {
+      method: "POST",
+      body: JSON.stringify({ identifier: inviteIdentifier, role: inviteRole })
+    });
+    setIsInviting(false);
+
+    if (invited) {
+      setInviteIdentifier("");
+      await loadMembers();
+    }
+  };
+
+  const handleRoleChange = async (member: ProjectMember, role: string) => {
+    if (role === member.role) return;
+
+    if (await changeMembers(`/${member.user_id}`, { method: "PATCH", body: JSON.stringify({ role }) })) {
+      await loadMembers();
+    }
+  };
+
+  const handleRemove = async (member: ProjectMember) => {
+    const isSelf = member.user_id === currentUserId;
+    const message = isSelf
+      ? `Leave ${projectName}? You'll lose access until an owner invites you again.`
+      : `Remove ${member.name || "this member"} from ${projectName}?`;
+    if (!confirm(message)) return;
+
+    if (await changeMembers(`/${member.user_id}`, { method: "DELETE" })) {
+      if (isSelf) {
+        onRoleChange?.(null);
+        onClose();
+        return;
+      }
+      await loadMembers();
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} className="w-full p-6">
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold">Share {projectName}</h3>
+
+        {isOwner && (
+          <form onSubmit={handleInvite} className="space-y-2">
+            <Label htmlFor={inviteId} title="Invite by email or GitHub username" />
+            <div className="flex gap-2">
+              <Input
+                id={inviteId}
+                className="flex-1"
+                initialValue={inviteIdentifier}
+                onValueChange={(value) => setInviteIdentifier(value)}
+                placeholder="octocat or someone@example.com"
+              />
+              <Select
+                options={ROLE_OPTIONS}
+                value={inviteRole}
+                setValue={(value) => setInviteRole(value as ProjectRole)}
+              />
+              <Button type="submit" variant="primary" disabled={isInviting || !inviteIdentifier.trim()}>
+                <UserPlus size={14} />
+                {isInviting ? "Inviting..." : "Invite"}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        {isLoading && members.length === 0 ? (
+          <p className="text-sm text-neutral-500 dark:text-neutral-400">Loading members...</p>
+        ) : (
+          <ul className="divide-y divide-neutral-200 dark:divide-neutral-800">
+            {members.map((member) => {
+              const isSelf = member.user_id === currentUserId;
+              const name = member.name || member.email || member.user_id;
+
+              return (
+                <li key={member.user_id} className="flex items-center gap-3 py-2">
+                  <Avatar username={name} image={member.image ?? undefined} size="sm" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {name}
+                      {isSelf && <span className="text-neutral-500"> (you)</span>}
+                    </p>
+                    {member.email && <p className="text-xs text-neutral-500 truncate">{member.email}</p>}
+                  </div>
+
+                  {isOwner ? (
+                    <Select
+                      size="sm"
+                      options={ROLE_OPTIONS}
+                      value={member.role}
+                      setValue={(value) => handleRoleChange(member, value)}
+                    />
+                  ) : (
+                    <span className="text-xs text-neutral-500 capitalize">{member.role}</span>
+                  )}
+
+                  {(isOwner || isSelf) && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      shape="square"
+                      onClick={() => handleRemove(member)}
+                      tooltip={isSelf ? "Leave project" : "Remove"}
+                    >
+                      <Trash2 size={14} />
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="flex justify-end">
+          <Button type="button" variant="secondary" onClick={onClose}>
+            Done
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -1,50 +1,258 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useId } from "react";
 import { Button } from "@/components/button/Button";
 import { Card } from "@/components/card/Card";
 import { Input } from "@/components/input/Input";
 import { Label } from "@/components/label/Label";
+import { Modal } from "@/components/modal/Modal";
+import { Select } from "@/components/select/Select";
 import { Textarea } from "@/components/textarea/Textarea";
-import { FolderOpen, Plus, Code } from "lucide-react";
-import type { Project } from "@/project-manager";
+import {
+  FolderOpen,
+  Plus,
+  Code,
+  Pencil,
+  Copy,
+  Trash2,
+  Upload,
+  Download,
+  RotateCcw,
+  LayoutTemplate,
+  X,
+  Search,
+  Star
+} from "lucide-react";
+import type { Project, ProjectList, ProjectSort } from "@/project-manager";
+import { formatBytes, type StorageLimits, type StorageUsage } from "@/quotas";
+import type { ProjectTemplate } from "@/templates";
+import { createZipStream, type ZipEntry } from "@/zip";
 
 interface ProjectSelectorProps {
   onProjectSelect: (project: Project) => void;
 }
 
+interface ProjectAction {
+  type: "edit" | "duplicate" | "template" | "delete" | "purge";
+  project: Project;
+}
+
+// Listed first in the template gallery; creates a project with no files
+const EMPTY_PROJECT: Omit<ProjectTemplate, "id"> & { id: null } = {
+  id: null,
+  name: "Empty project",
+  description: "Start with no files",
+  builtin: true
+};
+
+// Projects fetched per page; "Load more" fetches the next one
+const PAGE_SIZE = 24;
+
+const SORT_LABELS: Record<ProjectSort, string> = {
+  updated: "Last updated",
+  created: "Newest",
+  name: "Name"
+};
+const ALL_TAGS = "All tags";
+
+interface UserStorage {
+  usage: StorageUsage;
+  limits: StorageLimits;
+}
+
+interface PickedFile {
+  path: string;
+  file: File;
+}
+
 export function ProjectSelector({ onProjectSelect }: ProjectSelectorProps) {
   const [projects, setProjects] = useState<Project[]>([]);
+  const [totalProjects, setTotalProjects] = useState(0);
+  const [allTags, setAllTags] = useState<string[]>([]);
+  const [search, setSearch] = useState("");
+  const [tagFilter, setTagFilter] = useState("");
+  const [sort, setSort] = useState<ProjectSort>("updated");
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [trashedProjects, setTrashedProjects] = useState<Project[]>([]);
+  const [showTrash, setShowTrash] = useState(false);
+  const [storage, setStorage] = useState<UserStorage | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [showCloneForm, setShowCloneForm] = useState(false);
+  const [showImportForm, setShowImportForm] = useState(false);
   const [newProjectName, setNewProjectName] = useState("");
   const [newProjectDescription, setNewProjectDescription] = useState("");
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
   const [gitRepoUrl, setGitRepoUrl] = useState("");
   const [gitBranch, setGitBranch] = useState("main");
   const [gitToken, setGitToken] = useState("");
   const [isCloning, setIsCloning] = useState(false);
+  const [importArchive, setImportArchive] = useState<Blob | null>(null);
+  const [importSource, setImportSource] = useState("");
+  const [importName, setImportName] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [projectAction, setProjectAction] = useState<ProjectAction | null>(null);
+  const [actionName, setActionName] = useState("");
+  const [actionDescription, setActionDescription] = useState("");
+  const [actionTags, setActionTags] = useState("");
+  const [isSubmittingAction, setIsSubmittingAction] = useState(false);
+  const actionNameId = useId();
+  const actionDescriptionId = useId();
+  const actionTagsId = useId();
+  const searchId = useId();
+  const importNameId = useId();
 
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reload whenever the filters change, debounced for typing
   useEffect(() => {
-    loadProjects();
-  }, []);
+    const timer = setTimeout(() => loadProjects(), 250);
+    return () => clearTimeout(timer);
+  }, [search, tagFilter, sort, favoritesOnly]);
+
+  const fetchProjectPage = async (offset: number): Promise<ProjectList> => {
+    const params = new URLSearchParams({ sort, limit: String(PAGE_SIZE), offset: String(offset) });
+    if (search.trim()) params.set("q", search.trim());
+    if (tagFilter) params.set("tag", tagFilter);
+    if (favoritesOnly) params.set("favorites", "1");
+
+    const response = await fetch(`/api/projects?${params}`);
+
+    if (!response.ok) {
+      throw new Error("Failed to load projects");
+    }
+    return response.json<ProjectList>();
+  };
 
   const loadProjects = async () => {
     try {
       setIsLoading(true);
-      // Use a consistent ID for listing all projects
-      const response = await fetch("/api/projects", {
-        headers: { "X-DO-ID": "global" }
+      const data = await fetchProjectPage(0);
+      setProjects(data.projects);
+      setTotalProjects(data.total);
+      setAllTags(data.tags);
+    } catch (error) {
+      console.error("Failed to load projects:", error);
+    } finally {
+      setIsLoading(false);
+    }
+
+    loadTrashedProjects();
+    loadStorage();
+    loadTemplates();
+  };
+
+  const loadMoreProjects = async () => {
+    try {
+      setIsLoadingMore(true);
+      const data = await fetchProjectPage(projects.length);
+      setProjects((current) => [...current, ...data.projects]);
+      setTotalProjects(data.total);
+    } catch (error) {
+      console.error("Failed to load projects:", error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleToggleFavorite = async (e: React.MouseEvent, project: Project) => {
+    e.stopPropagation();
+
+    try {
+      const response = await fetch(`/api/projects/${project.id}/favorite`, {
+        method: project.favorite ? "DELETE" : "PUT"
       });
 
       if (!response.ok) {
-        throw new Error("Failed to load projects");
+        throw new Error("Failed to update favorites");
       }
 
-      const data = await response.json<Project[]>();
-      setProjects(data);
+      await loadProjects();
     } catch (error) {
-      console.error("Failed to load projects:", error);
-    } finally {
-      setIsLoading(false);
+      console.error("Failed to update favorites:", error);
+      alert("Failed to update favorites");
+    }
+  };
+
+  const loadTemplates = async () => {
+    try {
+      const response = await fetch("/api/templates");
+
+      if (!response.ok) {
+        throw new Error("Failed to load templates");
+      }
+
+      setTemplates(await response.json<ProjectTemplate[]>());
+    } catch (error) {
+      console.error("Failed to load templates:", error);
+    }
+  };
+
+  const handleDeleteTemplate = async (template: ProjectTemplate) => {
+    if (!confirm(`Delete the template ${template.name}? Projects created from it are kept.`)) return;
+
+    try {
+      const response = await fetch(`/api/templates/${template.id}`, {
+        method: "DELETE"
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to delete template");
+      }
+
+      if (selectedTemplateId === template.id) {
+        setSelectedTemplateId(null);
+      }
+      await loadTemplates();
+    } catch (error) {
+      console.error("Failed to delete template:", error);
+      alert("Failed to delete template");
+    }
+  };
+
+  const loadTrashedProjects = async () => {
+    try {
+      const response = await fetch("/api/projects?trashed=1");
+
+      if (!response.ok) {
+        throw new Error("Failed to load trashed projects");
+      }
+
+      setTrashedProjects((await response.json<ProjectList>()).projects);
+    } catch (error) {
+      console.error("Failed to load trashed projects:", error);
+    }
+  };
+
+  const handleRestoreProject = async (project: Project) => {
+    try {
+      const response = await fetch(`/api/projects/${project.id}/restore`, {
+        method: "POST"
+      });
+
+      if (!response.ok) {
+        const error = await response.json<{ error?: string }>().catch(() => ({ error: undefined }));
+        throw new Error(error.error || "Failed to restore project");
+      }
+
+      await loadProjects();
+    } catch (error) {
+      console.error("Failed to restore project:", error);
+      alert(error instanceof Error ? error.message : "Failed to restore project");
+    }
+  };
+
+  const loadStorage = async () => {
+    try {
+      const response = await fetch("/api/usage");
+
+      if (!response.ok) {
+        throw new Error("Failed to load storage usage");
+      }
+
+      setStorage(await response.json<UserStorage>());
+    } catch (error) {
+      console.error("Failed to load storage usage:", error);
     }
   };
 
@@ -57,20 +265,30 @@ export function ProjectSelector({ onProjectSelect }: ProjectSelectorProps) {
     }
 
     try {
-      const response = await fetch("/api/projects", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-DO-ID": "global"
-        },
-        body: JSON.stringify({
-          name: newProjectName,
-          description: newProjectDescription
-        })
-      });
+      setIsCreating(true);
+      // Templates are filled in and imported by the worker; an empty project goes straight to the registry
+      const response = selectedTemplateId
+        ? await fetch("/api/projects/from-template", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              templateId: selectedTemplateId,
+              name: newProjectName,
+              description: newProjectDescription
+            })
+          })
+        : await fetch("/api/projects", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              name: newProjectName,
+              description: newProjectDescription
+            })
+          });
 
       if (!response.ok) {
-        throw new Error("Failed to create project");
+        const error = await response.json<{ error?: string }>().catch(() => ({ error: undefined }));
+        throw new Error(error.error || "Failed to create project");
       }
 
       const project = await response.json<Project>();
@@ -78,6 +296,7 @@ export function ProjectSelector({ onProjectSelect }: ProjectSelectorProps) {
       // Reset form
       setNewProjectName("");
       setNewProjectDescription("");
+      setSelectedTemplateId(null);
       setShowCreateForm(false);
 
       // Reload projects
@@ -87,7 +306,9 @@ export function ProjectSelector({ onProjectSelect }: ProjectSelectorProps) {
       onProjectSelect(project);
     } catch (error) {
       console.error("Failed to create project:", error);
-      alert("Failed to create project");
+      alert(error instanceof Error ? error.message : "Failed to create project");
+    } finally {
+      setIsCreating(false);
     }
   };
 
@@ -145,6 +366,208 @@ export function ProjectSelector({ onProjectSelect }: ProjectSelectorProps) {
     }
   };
 
+  const selectImport = (archive: Blob, source: string, name: string) => {
+    setImportArchive(archive);
+    setImportSource(source);
+    setImportName(name);
+  };
+
+  const handleZipSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      selectImport(file, file.name, file.name.replace(/\.zip$/i, ""));
+    }
+    e.target.value = "";
+  };
+
+  const handleFolderSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files ?? [], (file) => ({ path: file.webkitRelativePath, file }));
+    e.target.value = "";
+    if (picked.length === 0) return;
+
+    const folderName = picked[0].path.split("/")[0];
+    selectImport(await zipPickedFiles(picked), `${folderName}/ (${picked.length} files)`, folderName);
+  };
+
+  const handleImportDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+
+    const droppedEntries = Array.from(e.dataTransfer.items, (item) => item.webkitGetAsEntry()).filter(
+      (entry): entry is FileSystemEntry => entry !== null
+    );
+
+    // A single zip is uploaded as is; folders and loose files are zipped here first
+    const zipFile = e.dataTransfer.files[0];
+    if (droppedEntries.length === 1 && droppedEntries[0].isFile && /\.zip$/i.test(zipFile?.name ?? "")) {
+      selectImport(zipFile, zipFile.name, zipFile.name.replace(/\.zip$/i, ""));
+      return;
+    }
+
+    try {
+      const picked: PickedFile[] = [];
+      for (const entry of droppedEntries) {
+        await readDroppedEntry(entry, picked);
+      }
+      if (picked.length === 0) return;
+
+      const name = droppedEntries.length === 1 ? droppedEntries[0].name : "imported-project";
+      selectImport(await zipPickedFiles(picked), `${name} (${picked.length} files)`, name);
+    } catch (error) {
+      console.error("Failed to read dropped files:", error);
+      alert("Failed to read dropped files");
+    }
+  };
+
+  const resetImportForm = () => {
+    setShowImportForm(false);
+    setImportArchive(null);
+    setImportSource("");
+    setImportName("");
+  };
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!importArchive) {
+      alert("Please choose a zip file or folder to import");
+      return;
+    }
+
+    try {
+      setIsImporting(true);
+      const response = await fetch(`/api/projects/import?name=${encodeURIComponent(importName.trim())}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/zip" },
+        body: importArchive
+      });
+
+      if (!response.ok) {
+        const error = await response.json<{ error: string }>();
+        throw new Error(error.error || "Failed to import project");
+      }
+
+      const project = await response.json<Project>();
+
+      resetImportForm();
+      await loadProjects();
+      onProjectSelect(project);
+    } catch (error) {
+      console.error("Failed to import project:", error);
+      alert(error instanceof Error ? error.message : "Failed to import project");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleExport = async (e: React.MouseEvent, project: Project) => {
+    e.stopPropagation();
+
+    try {
+      const response = await fetch(`/api/projects/${project.id}/export`, {
+        headers: { "X-DO-ID": project.id }
+      });
+
+      if (!response.ok) throw new Error("Failed to export project");
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${project.name}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to export project:", error);
+      alert("Failed to export project");
+    }
+  };
+
+  const openProjectAction = (e: React.MouseEvent, type: ProjectAction["type"], project: Project) => {
+    // Keep the card underneath from opening the project
+    e.stopPropagation();
+    setActionName(type === "duplicate" ? `${project.name} (copy)` : project.name);
+    setActionDescription(project.description || "");
+    setActionTags(project.tags?.join(", ") ?? "");
+    setProjectAction({ type, project });
+  };
+
+  // Stable so the modal doesn't reset focus on every keystroke
+  const closeProjectAction = useCallback(() => {
+    setProjectAction(null);
+  }, []);
+
+  const handleProjectAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!projectAction) return;
+
+    const { type, project } = projectAction;
+
+    if ((type === "edit" || type === "duplicate" || type === "template") && !actionName.trim()) {
+      alert(type === "template" ? "Please enter a template name" : "Please enter a project name");
+      return;
+    }
+
+    const requests = {
+      edit: {
+        url: `/api/projects/${project.id}`,
+        method: "PATCH",
+        body: {
+          name: actionName,
+          description: actionDescription,
+          tags: actionTags.split(",").map((tag) => tag.trim()).filter(Boolean)
+        }
+      },
+      duplicate: {
+        url: `/api/projects/${project.id}/duplicate`,
+        method: "POST",
+        body: { name: actionName }
+      },
+      template: {
+        url: "/api/templates",
+        method: "POST",
+        body: { projectId: project.id, name: actionName, description: actionDescription }
+      },
+      delete: {
+        url: `/api/projects/${project.id}`,
+        method: "DELETE",
+        body: undefined
+      },
+      purge: {
+        url: `/api/projects/${project.id}?permanent=1`,
+        method: "DELETE",
+        body: undefined
+      }
+    };
+    const { url, method, body } = requests[type];
+
+    try {
+      setIsSubmittingAction(true);
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body && JSON.stringify(body)
+      });
+
+      if (!response.ok) {
+        const error = await response.json<{ error?: string }>().catch(() => ({ error: undefined }));
+        throw new Error(error.error || `Failed to ${type} project`);
+      }
+
+      setProjectAction(null);
+      await loadProjects();
+    } catch (error) {
+      const failure = type === "template" ? "Failed to save template" : `Failed to ${type} project`;
+      console.error(`${failure}:`, error);
+      alert(error instanceof Error ? error.message : failure);
+    } finally {
+      setIsSubmittingAction(false);
+    }
+  };
+
+  // Storage of the projects the user created, across files and previews
+  const storageUsed = storage ? storage.usage.fileBytes + storage.usage.previewBytes : 0;
+  const storagePercent = storage ? Math.min(100, (storageUsed / storage.limits.userBytes) * 100) : 0;
+
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleDateString(undefined, {
       year: "numeric",
@@ -164,6 +587,20 @@ export function ProjectSelector({ onProjectSelect }: ProjectSelectorProps) {
           <p className="text-neutral-600 dark:text-neutral-400">
             Create or select a project to start coding with AI assistance
           </p>
+          {storage && (
+            <div className="mt-4 mx-auto max-w-sm text-xs text-neutral-500">
+              <div className="h-1.5 rounded-full bg-neutral-200 dark:bg-neutral-800 overflow-hidden">
+                <div
+                  className={`h-full ${storagePercent >= 90 ? "bg-red-500" : "bg-[#F48120]"}`}
+                  style={{ width: `${storagePercent}%` }}
+                />
+              </div>
+              <p className="mt-1">
+                {formatBytes(storageUsed)} of {formatBytes(storage.limits.userBytes)} used · {storage.usage.fileCount} files
+                {storage.usage.previewBytes > 0 && ` · ${formatBytes(storage.usage.previewBytes)} in previews`}
+              </p>
+            </div>
+          )}
         </div>
 
         {showCreateForm && (
@@ -195,6 +632,50 @@ export function ProjectSelector({ onProjectSelect }: ProjectSelectorProps) {
                 />
               </div>
 
+              <fieldset>
+                <legend className="text-sm font-medium">Template</legend>
+                <div className="mt-1 grid grid-cols-2 md:grid-cols-3 gap-2 max-h-64 overflow-y-auto">
+                  {[EMPTY_PROJECT, ...templates].map((template) => (
+                    <div key={template.id ?? "empty"} className="relative">
+                      <button
+                        type="button"
+                        onClick={() => setSelectedTemplateId(template.id)}
+                        className={`w-full h-full text-left rounded-lg border p-3 transition-colors ${
+                          selectedTemplateId === template.id
+                            ? "border-[#F48120] bg-[#F48120]/5"
+                            : "border-neutral-200 dark:border-neutral-700 hover:border-[#F48120]"
+                        }`}
+                      >
+                        <span className="flex items-center gap-1 text-sm font-medium pr-5 truncate">
+                          {template.name}
+                        </span>
+                        <span className="block text-xs text-neutral-500 line-clamp-2">
+                          {template.description}
+                        </span>
+                        {!template.builtin && (
+                          <span className="block text-xs text-[#F48120] mt-1">
+                            Saved by you · {template.file_count} files
+                          </span>
+                        )}
+                      </button>
+                      {template.id !== null && !template.builtin && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          shape="square"
+                          className="absolute top-1 right-1"
+                          onClick={() => handleDeleteTemplate(template)}
+                          tooltip="Delete template"
+                        >
+                          <X size={12} />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </fieldset>
+
               <div className="flex gap-2 justify-end">
                 <Button
                   type="button"
@@ -203,12 +684,14 @@ export function ProjectSelector({ onProjectSelect }: ProjectSelectorProps) {
                     setShowCreateForm(false);
                     setNewProjectName("");
                     setNewProjectDescription("");
+                    setSelectedTemplateId(null);
                   }}
+                  disabled={isCreating}
                 >
                   Cancel
                 </Button>
-                <Button type="submit" variant="default">
-                  Create Project
+                <Button type="submit" variant="default" disabled={isCreating}>
+                  {isCreating ? "Creating..." : "Create Project"}
                 </Button>
               </div>
             </form>
@@ -291,8 +774,71 @@ export function ProjectSelector({ onProjectSelect }: ProjectSelectorProps) {
           </Card>
         )}
 
-        {!showCreateForm && !showCloneForm && (
-          <div className="grid grid-cols-2 gap-4 mb-6">
+        {showImportForm && (
+          <Card className="p-6 mb-6 bg-white dark:bg-neutral-800">
+            <h3 className="text-lg font-semibold mb-4">Import Project</h3>
+            <form onSubmit={handleImport} className="space-y-4">
+              {/* biome-ignore lint/a11y/noStaticElementInteractions: drop target; the buttons inside are the accessible path */}
+              <div
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setIsDragging(true);
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleImportDrop}
+                className={`rounded-lg border-2 border-dashed p-6 text-center transition-colors ${
+                  isDragging ? "border-[#F48120] bg-[#F48120]/5" : "border-neutral-300 dark:border-neutral-700"
+                }`}
+              >
+                <Upload size={24} className="mx-auto mb-2 text-neutral-400" />
+                <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-3">
+                  {importSource || "Drop a zip file or a folder here"}
+                </p>
+                <div className="flex gap-2 justify-center">
+                  <label className="btn btn-secondary add-size-sm gap-1 interactive flex items-center font-medium cursor-pointer">
+                    Choose Zip
+                    <input type="file" accept=".zip,application/zip" className="hidden" onChange={handleZipSelected} />
+                  </label>
+                  <label className="btn btn-secondary add-size-sm gap-1 interactive flex items-center font-medium cursor-pointer">
+                    Choose Folder
+                    <input
+                      type="file"
+                      className="hidden"
+                      ref={(input) => {
+                        input?.setAttribute("webkitdirectory", "");
+                      }}
+                      onChange={handleFolderSelected}
+                    />
+                  </label>
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor={importNameId} title="Project Name" />
+                <Input
+                  id={importNameId}
+                  type="text"
+                  initialValue={importName}
+                  onValueChange={(value) => setImportName(value)}
+                  placeholder="imported-project"
+                  className="mt-1 w-full"
+                />
+              </div>
+
+              <div className="flex gap-2 justify-end">
+                <Button type="button" variant="secondary" onClick={resetImportForm} disabled={isImporting}>
+                  Cancel
+                </Button>
+                <Button type="submit" variant="primary" disabled={isImporting || !importArchive}>
+                  {isImporting ? "Importing..." : "Import Project"}
+                </Button>
+              </div>
+            </form>
+          </Card>
+        )}
+
+        {!showCreateForm && !showCloneForm && !showImportForm && (
+          <div className="grid grid-cols-3 gap-4 mb-6">
             <Button
               onClick={() => setShowCreateForm(true)}
               variant="default"
@@ -309,13 +855,71 @@ export function ProjectSelector({ onProjectSelect }: ProjectSelectorProps) {
               <Code size={20} />
               <span>Clone from Git</span>
             </Button>
+            <Button
+              onClick={() => setShowImportForm(true)}
+              variant="secondary"
+              className="w-full"
+            >
+              <Upload size={20} />
+              <span>Import Zip or Folder</span>
+            </Button>
           </div>
         )}
 
-        {isLoading ? (
+        <div className="flex items-center gap-2 mb-4">
+          <div className="relative flex-1">
+            <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-neutral-400 pointer-events-none" />
+            <Input
+              id={searchId}
+              type="search"
+              size="sm"
+              initialValue={search}
+              onValueChange={(value) => setSearch(value)}
+              placeholder="Search projects..."
+              className="w-full pl-8"
+              aria-label="Search projects"
+            />
+          </div>
+          {allTags.length > 0 && (
+            <Select
+              size="sm"
+              placeholder={ALL_TAGS}
+              options={allTags.map((value) => ({ value }))}
+              value={tagFilter || ALL_TAGS}
+              setValue={(value) => setTagFilter(value === ALL_TAGS ? "" : value)}
+            />
+          )}
+          <Select
+            size="sm"
+            options={Object.values(SORT_LABELS).map((value) => ({ value }))}
+            value={SORT_LABELS[sort]}
+            setValue={(value) =>
+              setSort((Object.keys(SORT_LABELS) as ProjectSort[]).find((key) => SORT_LABELS[key] === value) ?? "updated")
+            }
+          />
+          <Button
+            variant={favoritesOnly ? "primary" : "secondary"}
+            size="sm"
+            shape="square"
+            onClick={() => setFavoritesOnly(!favoritesOnly)}
+            tooltip={favoritesOnly ? "Show all projects" : "Show favorites only"}
+          >
+            <Star size={14} className={favoritesOnly ? "fill-current" : undefined} />
+          </Button>
+        </div>
+
+        {isLoading && projects.length === 0 ? (
           <div className="text-center py-12">
             <p className="text-neutral-500">Loading projects...</p>
           </div>
+        ) : projects.length === 0 && (search.trim() || tagFilter || favoritesOnly) ? (
+          <Card className="p-12 text-center bg-white dark:bg-neutral-800">
+            <Search size={48} className="mx-auto mb-4 text-neutral-400" />
+            <h3 className="text-lg font-semibold mb-2">No matching projects</h3>
+            <p className="text-neutral-600 dark:text-neutral-400">
+              Try another search, or clear the tag and favorites filters
+            </p>
+          </Card>
         ) : projects.length === 0 ? (
           <Card className="p-12 text-center bg-white dark:bg-neutral-800">
             <FolderOpen size={48} className="mx-auto mb-4 text-neutral-400" />
@@ -325,39 +929,314 @@ export function ProjectSelector({ onProjectSelect }: ProjectSelectorProps) {
             </p>
           </Card>
         ) : (
-          <div className="grid gap-4 md:grid-cols-2">
-            {projects.map((project) => (
-              <Card
-                key={project.id}
-                className="p-6 bg-white dark:bg-neutral-800 hover:border-[#F48120] transition-colors cursor-pointer"
-                onClick={() => {
-                  console.log("Card clicked, project:", project);
-                  onProjectSelect(project);
-                }}
-              >
-                <div className="flex items-start gap-3">
-                  <div className="p-2 bg-[#F48120]/10 rounded-lg">
-                    <FolderOpen size={24} className="text-[#F48120]" />
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <h3 className="font-semibold text-lg mb-1 truncate">
-                      {project.name}
-                    </h3>
-                    {project.description && (
-                      <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-2 line-clamp-2">
-                        {project.description}
+          <>
+            <div className="grid gap-4 md:grid-cols-2">
+              {projects.map((project) => (
+                <Card
+                  key={project.id}
+                  className="p-6 bg-white dark:bg-neutral-800 hover:border-[#F48120] transition-colors cursor-pointer"
+                  onClick={() => {
+                    console.log("Card clicked, project:", project);
+                    onProjectSelect(project);
+                  }}
+                >
+                  <div className="flex items-start gap-3">
+                    <div className="p-2 bg-[#F48120]/10 rounded-lg">
+                      <FolderOpen size={24} className="text-[#F48120]" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-semibold text-lg mb-1 truncate">
+                        {project.name}
+                      </h3>
+                      {project.description && (
+                        <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-2 line-clamp-2">
+                          {project.description}
+                        </p>
+                      )}
+                      <p className="text-xs text-neutral-500">
+                        Updated {formatDate(project.updated_at)}
+                        {project.file_bytes !== undefined && project.file_bytes !== null && (
+                          <span>
+                            {" "}
+                            · {formatBytes(project.file_bytes + (project.preview_bytes ?? 0))}, {project.file_count} files
+                          </span>
+                        )}
+                        {project.role && project.role !== "owner" && (
+                          <span className="capitalize"> · Shared with you as {project.role}</span>
+                        )}
                       </p>
-                    )}
-                    <p className="text-xs text-neutral-500">
-                      Updated {formatDate(project.updated_at)}
-                    </p>
+                      {project.tags && project.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                          {project.tags.map((tag) => (
+                            <button
+                              key={tag}
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setTagFilter(tag);
+                              }}
+                              className="px-1.5 py-0.5 rounded text-xs bg-neutral-100 dark:bg-neutral-700 text-neutral-600 dark:text-neutral-300 hover:text-[#F48120]"
+                            >
+                              {tag}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        shape="square"
+                        onClick={(e) => handleToggleFavorite(e, project)}
+                        tooltip={project.favorite ? "Remove from favorites" : "Add to favorites"}
+                      >
+                        <Star size={14} className={project.favorite ? "fill-[#F48120] text-[#F48120]" : undefined} />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        shape="square"
+                        onClick={(e) => handleExport(e, project)}
+                        tooltip="Export as zip"
+                      >
+                        <Download size={14} />
+                      </Button>
+                      {project.role === "owner" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          shape="square"
+                          onClick={(e) => openProjectAction(e, "edit", project)}
+                          tooltip="Rename"
+                        >
+                          <Pencil size={14} />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        shape="square"
+                        onClick={(e) => openProjectAction(e, "duplicate", project)}
+                        tooltip="Duplicate"
+                      >
+                        <Copy size={14} />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        shape="square"
+                        onClick={(e) => openProjectAction(e, "template", project)}
+                        tooltip="Save as template"
+                      >
+                        <LayoutTemplate size={14} />
+                      </Button>
+                      {project.role === "owner" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          shape="square"
+                          onClick={(e) => openProjectAction(e, "delete", project)}
+                          tooltip="Move to trash"
+                        >
+                          <Trash2 size={14} />
+                        </Button>
+                      )}
+                    </div>
                   </div>
-                </div>
-              </Card>
-            ))}
+                </Card>
+              ))}
+            </div>
+            {projects.length < totalProjects && (
+              <div className="flex justify-center mt-4">
+                <Button variant="secondary" size="sm" onClick={loadMoreProjects} disabled={isLoadingMore}>
+                  {isLoadingMore ? "Loading..." : `Load more (${totalProjects - projects.length} left)`}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+
+        {trashedProjects.length > 0 && (
+          <div className="mt-8">
+            <button
+              type="button"
+              onClick={() => setShowTrash(!showTrash)}
+              className="flex items-center gap-2 text-sm text-neutral-600 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100"
+            >
+              <Trash2 size={14} />
+              Trash ({trashedProjects.length})
+            </button>
+
+            {showTrash && (
+              <div className="mt-3 space-y-2">
+                {trashedProjects.map((project) => (
+                  <Card
+                    key={project.id}
+                    className="px-4 py-3 bg-white dark:bg-neutral-800 flex items-center gap-3"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-medium truncate">{project.name}</h3>
+                      {project.deleted_at && (
+                        <p className="text-xs text-neutral-500">Deleted {formatDate(project.deleted_at)}</p>
+                      )}
+                    </div>
+                    <Button variant="secondary" size="sm" onClick={() => handleRestoreProject(project)}>
+                      <RotateCcw size={14} />
+                      Restore
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => openProjectAction(e, "purge", project)}
+                      className="text-red-600 dark:text-red-400"
+                    >
+                      Delete forever
+                    </Button>
+                  </Card>
+                ))}
+              </div>
+            )}
           </div>
         )}
       </div>
+
+      <Modal isOpen={projectAction !== null} onClose={closeProjectAction} className="w-full p-6">
+        {projectAction && (
+          <form onSubmit={handleProjectAction} className="space-y-4">
+            <h3 className="text-lg font-semibold">
+              {projectAction.type === "edit" && "Edit Project"}
+              {projectAction.type === "duplicate" && "Duplicate Project"}
+              {projectAction.type === "template" && "Save as Template"}
+              {projectAction.type === "delete" && "Move Project to Trash"}
+              {projectAction.type === "purge" && "Delete Project Forever"}
+            </h3>
+
+            {projectAction.type === "delete" ? (
+              <p className="text-sm text-neutral-600 dark:text-neutral-400">
+                Move <span className="font-semibold">{projectAction.project.name}</span> to the trash? Nobody
+                can open it there, and it's deleted for good once it has been in the trash for a while. You can
+                restore it until then.
+              </p>
+            ) : projectAction.type === "purge" ? (
+              <p className="text-sm text-neutral-600 dark:text-neutral-400">
+                Delete <span className="font-semibold">{projectAction.project.name}</span> forever? All of its
+                files, history and previews will be permanently removed.
+              </p>
+            ) : (
+              <>
+                <div>
+                  <Label
+                    htmlFor={actionNameId}
+                    title={projectAction.type === "template" ? "Template Name" : "Project Name"}
+                  />
+                  <Input
+                    id={actionNameId}
+                    type="text"
+                    initialValue={actionName}
+                    onValueChange={(value) => setActionName(value)}
+                    className="mt-1 w-full"
+                    autoFocus
+                  />
+                </div>
+
+                {projectAction.type === "template" && (
+                  <p className="text-sm text-neutral-600 dark:text-neutral-400">
+                    The project's current files become a template only you can see. Use {"{{projectName}}"},{" "}
+                    {"{{projectSlug}}"} or {"{{projectDescription}}"} in a file to have them filled in for each new
+                    project.
+                  </p>
+                )}
+
+                {(projectAction.type === "edit" || projectAction.type === "template") && (
+                  <div>
+                    <Label htmlFor={actionDescriptionId} title="Description (optional)" />
+                    <Textarea
+                      id={actionDescriptionId}
+                      value={actionDescription}
+                      onChange={(e) => setActionDescription(e.target.value)}
+                      className="mt-1"
+                      rows={3}
+                    />
+                  </div>
+                )}
+
+                {projectAction.type === "edit" && (
+                  <div>
+                    <Label htmlFor={actionTagsId} title="Tags, separated by commas" />
+                    <Input
+                      id={actionTagsId}
+                      type="text"
+                      initialValue={actionTags}
+                      onValueChange={(value) => setActionTags(value)}
+                      placeholder="client, prototype"
+                      className="mt-1 w-full"
+                    />
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className="flex gap-2 justify-end">
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={closeProjectAction}
+                disabled={isSubmittingAction}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant={projectAction.type === "delete" || projectAction.type === "purge" ? "destructive" : "primary"}
+                disabled={isSubmittingAction}
+              >
+                {projectAction.type === "edit" && (isSubmittingAction ? "Saving..." : "Save")}
+                {projectAction.type === "duplicate" && (isSubmittingAction ? "Duplicating..." : "Duplicate")}
+                {projectAction.type === "template" && (isSubmittingAction ? "Saving..." : "Save Template")}
+                {projectAction.type === "delete" && (isSubmittingAction ? "Moving..." : "Move to Trash")}
+                {projectAction.type === "purge" && (isSubmittingAction ? "Deleting..." : "Delete Forever")}
+              </Button>
+            </div>
+          </form>
+        )}
+      </Modal>
     </div>
   );
 }
+
+/**
+ * Zip files picked or dropped from the user's machine so folders upload as one archive
+ */
+async function zipPickedFiles(files: PickedFile[]): Promise<Blob> {
+  async function* entries(): AsyncGenerator<ZipEntry> {
+    for (const { path, file } of files) {
+      yield { path, content: new Uint8Array(await file.arrayBuffer()), modifiedAt: file.lastModified };
+    }
+  }
+
+  return new Response(createZipStream(entries())).blob();
+}
+
+/**
+ * Collect every file under a dropped file or directory entry
+ */
+async function readDroppedEntry(entry: FileSystemEntry, files: PickedFile[]): Promise<void> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    files.push({ path: entry.fullPath.replace(/^\//, ""), file });
+    return;
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // readEntries returns the children in batches until it yields an empty one
+  let batch: FileSystemEntry[];
+  do {
+    batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    for (const child of batch) {
+      await readDroppedEntry(child, files);
+    }
+  } while (batch.length > 0);
+}
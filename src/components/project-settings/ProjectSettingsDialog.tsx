@@ -0,0 +1,219 @@
+import { useEffect, useId, useState } from "react";
+import { Button } from "@/components/button/Button";
+import { Input } from "@/components/input/Input";
+import { Label } from "@/components/label/Label";
+import { Modal } from "@/components/modal/Modal";
+import { Textarea } from "@/components/textarea/Textarea";
+import {
+  parseProjectConfig,
+  PROJECT_CONFIG_PATH,
+  type ProjectConfig,
+  ProjectConfigError,
+  serializeProjectConfig
+} from "@/project-config";
+
+interface ProjectSettingsDialogProps {
+  isOpen: boolean;
+  projectId: string;
+  projectName: string;
+  readOnly: boolean;
+  onClose: () => void;
+  onSaved?: (config: ProjectConfig) => void;
+}
+
+type SettingsForm = Record<keyof ProjectConfig, string>;
+
+const EMPTY_FORM: SettingsForm = {
+  installCommand: "",
+  buildCommand: "",
+  outputDir: "",
+  entryPoints: "",
+  previewRoutes: "",
+  ignore: "",
+  agentInstructions: ""
+};
+
+/**
+ * Edits the project's config file. Lists are entered one item per line; the file is
+ * validated here and again by the ProjectManager when it's saved.
+ */
+export function ProjectSettingsDialog({
+  isOpen,
+  projectId,
+  projectName,
+  readOnly,
+  onClose,
+  onSaved
+}: ProjectSettingsDialogProps) {
+  const [form, setForm] = useState<SettingsForm>(EMPTY_FORM);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const formId = useId();
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: reload whenever the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setErrors([]);
+      loadSettings();
+    }
+  }, [isOpen, projectId]);
+
+  const loadSettings = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/projects/${projectId}/files/${PROJECT_CONFIG_PATH}`, {
+        headers: { "X-DO-ID": projectId }
+      });
+
+      if (response.status === 404) {
+        setForm(EMPTY_FORM);
+        return;
+      }
+      if (!response.ok) throw new Error("Failed to load settings");
+
+      const file = await response.json<{ content?: string }>();
+      const config = parseProjectConfig(file.content ?? "");
+      setForm({
+        installCommand: config.installCommand ?? "",
+        buildCommand: config.buildCommand ?? "",
+        outputDir: config.outputDir ?? "",
+        entryPoints: config.entryPoints?.join("\n") ?? "",
+        previewRoutes: config.previewRoutes?.join("\n") ?? "",
+        ignore: config.ignore?.join("\n") ?? "",
+        agentInstructions: config.agentInstructions ?? ""
+      });
+    } catch (error) {
+      console.error("Failed to load settings:", error);
+      setForm(EMPTY_FORM);
+      setErrors(
+        error instanceof ProjectConfigError
+          ? [`${PROJECT_CONFIG_PATH} is invalid; saving replaces it.`, ...error.issues]
+          : ["Failed to load settings"]
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors([]);
+
+    const lines = (value: string) => value.split("\n").map((line) => line.trim()).filter(Boolean);
+    let content: string;
+    try {
+      content = serializeProjectConfig({
+        installCommand: form.installCommand,
+        buildCommand: form.buildCommand,
+        outputDir: form.outputDir,
+        entryPoints: lines(form.entryPoints),
+        previewRoutes: lines(form.previewRoutes),
+        ignore: lines(form.ignore),
+        agentInstructions: form.agentInstructions
+      });
+    } catch (error) {
+      setErrors(error instanceof ProjectConfigError ? error.issues : ["Invalid settings"]);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const response = await fetch(`/api/projects/${projectId}/raw/${PROJECT_CONFIG_PATH}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", "X-DO-ID": projectId },
+        body: content
+      });
+
+      if (!response.ok) {
+        const data = await response.json<{ error?: string; issues?: string[] }>().catch(() => ({ error: undefined }));
+        setErrors("issues" in data && data.issues ? data.issues : [data.error || "Failed to save settings"]);
+        return;
+      }
+
+      onSaved?.(parseProjectConfig(content));
+      onClose();
+    } catch (error) {
+      console.error("Failed to save settings:", error);
+      setErrors(["Failed to save settings"]);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const field = (key: keyof ProjectConfig, title: string, placeholder: string) => (
+    <div className="space-y-1">
+      <Label htmlFor={`${formId}-${key}`} title={title} />
+      <Input
+        id={`${formId}-${key}`}
+        className="w-full"
+        size="sm"
+        initialValue={form[key]}
+        onValueChange={(value) => setForm((current) => ({ ...current, [key]: value }))}
+        placeholder={placeholder}
+        disabled={readOnly}
+      />
+    </div>
+  );
+
+  const textArea = (key: keyof ProjectConfig, title: string, placeholder: string, rows: number) => (
+    <div className="space-y-1">
+      <Label htmlFor={`${formId}-${key}`} title={title} />
+      <Textarea
+        id={`${formId}-${key}`}
+        rows={rows}
+        value={form[key]}
+        onChange={(e) => setForm((current) => ({ ...current, [key]: e.target.value }))}
+        placeholder={placeholder}
+        disabled={readOnly}
+        className="font-mono text-xs"
+      />
+    </div>
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} className="w-full p-6">
+      <form onSubmit={handleSave} className="space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold">{projectName} settings</h3>
+          <p className="text-xs text-neutral-500">Saved to {PROJECT_CONFIG_PATH} in the project root</p>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-neutral-500 dark:text-neutral-400">Loading settings...</p>
+        ) : (
+          <div className="space-y-3 max-h-[60vh] overflow-y-auto pr-1">
+            <div className="grid grid-cols-2 gap-3">
+              {field("installCommand", "Install command", "npm install")}
+              {field("buildCommand", "Build command", "npm run build")}
+            </div>
+            {field("outputDir", "Output directory", "dist")}
+            {textArea("entryPoints", "Entry points, one per line", "src/main.tsx", 2)}
+            {textArea("previewRoutes", "Preview routes, one per line", "/\n/about", 2)}
+            {textArea("ignore", "Ignored paths, one glob per line", "node_modules\n*.log", 3)}
+            {textArea("agentInstructions", "Instructions for the AI assistant", "Use Tailwind for styling.", 4)}
+          </div>
+        )}
+
+        {errors.length > 0 && (
+          <ul className="text-sm text-red-500 list-disc pl-5">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="secondary" onClick={onClose}>
+            {readOnly ? "Close" : "Cancel"}
+          </Button>
+          {!readOnly && (
+            <Button type="submit" variant="primary" disabled={isLoading || isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          )}
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { DiffEditor } from "@monaco-editor/react";
+import { GitCompare } from "lucide-react";
+import { Button } from "@/components/button/Button";
+import { Modal } from "@/components/modal/Modal";
+import { cn } from "@/lib/utils";
+
+interface SaveConflictDialogProps {
+  isOpen: boolean;
+  fileName: string;
+  language: string;
+  localContent: string;  // The unsaved content in the editor
+  remoteContent: string;  // The content someone else saved meanwhile
+  theme?: "light" | "dark";
+  isSaving?: boolean;
+  onOverwrite: () => void;
+  onReload: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Shown when a save is rejected because the file changed since it was opened
+ */
+export function SaveConflictDialog({
+  isOpen,
+  fileName,
+  language,
+  localContent,
+  remoteContent,
+  theme = "dark",
+  isSaving = false,
+  onOverwrite,
+  onReload,
+  onClose
+}: SaveConflictDialogProps) {
+  const [isComparing, setIsComparing] = useState(false);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      className={cn("w-full p-6", isComparing && "max-w-5xl")}
+    >
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold">File changed</h3>
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">
+          <span className="font-semibold">{fileName}</span> was changed by someone else (or the AI)
+          after you opened it. Saving now would discard those changes.
+        </p>
+
+        {isComparing && (
+          <div className="space-y-1">
+            <div className="flex text-xs text-neutral-500 dark:text-neutral-400">
+              <span className="flex-1">Saved version</span>
+              <span className="flex-1">Your changes</span>
+            </div>
+            <div className="h-[60vh] rounded border border-neutral-200 dark:border-neutral-800 overflow-hidden">
+              <DiffEditor
+                height="100%"
+                language={language}
+                original={remoteContent}
+                modified={localContent}
+                theme={theme === "dark" ? "vs-dark" : "vs-light"}
+                options={{ readOnly: true, automaticLayout: true, renderSideBySide: true }}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2 justify-end">
+          <Button type="button" variant="ghost" onClick={() => setIsComparing(!isComparing)}>
+            <GitCompare size={14} />
+            {isComparing ? "Hide Comparison" : "Compare"}
+          </Button>
+          <Button type="button" variant="secondary" onClick={onReload} disabled={isSaving}>
+            Reload Saved Version
+          </Button>
+          <Button type="button" variant="destructive" onClick={onOverwrite} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Overwrite"}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,201 @@
+import { useEffect, useState } from "react";
+import { CaseSensitive, FileText, Regex, Search, WholeWord, X } from "lucide-react";
+import { Button } from "@/components/button/Button";
+import { Input } from "@/components/input/Input";
+import type { SearchMatch, SearchResult } from "@/search";
+
+interface SearchPanelProps {
+  projectId: string;
+  onOpenMatch: (match: SearchMatch) => void;
+  onClose: () => void;
+}
+
+// Wait this long after the last keystroke before searching
+const SEARCH_DELAY_MS = 300;
+
+/**
+ * Project-wide search with regex, case and whole-word toggles and include/exclude globs.
+ * Results are grouped by file; clicking a line opens the file at the match.
+ */
+export function SearchPanel({ projectId, onOpenMatch, onClose }: SearchPanelProps) {
+  const [query, setQuery] = useState("");
+  const [regex, setRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [include, setInclude] = useState("");
+  const [exclude, setExclude] = useState("");
+  const [result, setResult] = useState<SearchResult | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!query) {
+      setResult(null);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      const params = new URLSearchParams({ q: query });
+      if (regex) params.set("regex", "1");
+      if (caseSensitive) params.set("caseSensitive", "1");
+      if (wholeWord) params.set("wholeWord", "1");
+      if (include.trim()) params.set("include", include);
+      if (exclude.trim()) params.set("exclude", exclude);
+
+      try {
+        setIsSearching(true);
+        const response = await fetch(`/api/projects/${projectId}/search?${params}`, {
+          headers: { "X-DO-ID": projectId },
+          signal: controller.signal
+        });
+
+        if (!response.ok) {
+          const data = await response.json<{ error?: string }>().catch(() => ({ error: undefined }));
+          setError(data.error || "Search failed");
+          setResult(null);
+          return;
+        }
+
+        setResult(await response.json<SearchResult>());
+        setError(null);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("Search failed:", error);
+        setError("Search failed");
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [projectId, query, regex, caseSensitive, wholeWord, include, exclude]);
+
+  // Matches come back sorted by path, so grouping only needs to watch for the path changing
+  const groups: Array<{ path: string; matches: SearchMatch[] }> = [];
+  for (const match of result?.matches ?? []) {
+    const group = groups[groups.length - 1];
+    if (group?.path === match.path) {
+      group.matches.push(match);
+    } else {
+      groups.push({ path: match.path, matches: [match] });
+    }
+  }
+
+  const toggles = [
+    { label: "Match case", icon: CaseSensitive, value: caseSensitive, setValue: setCaseSensitive },
+    { label: "Match whole word", icon: WholeWord, value: wholeWord, setValue: setWholeWord },
+    { label: "Use regular expression", icon: Regex, value: regex, setValue: setRegex }
+  ];
+
+  return (
+    <div className="h-full flex flex-col bg-neutral-50 dark:bg-neutral-900">
+      <div className="px-3 py-2 border-b border-neutral-300 dark:border-neutral-800 flex items-center justify-between">
+        <div className="flex items-center gap-2 min-w-0">
+          <Search size={16} className="text-[#F48120] flex-shrink-0" />
+          <span className="text-sm font-semibold truncate">Search</span>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 hover:bg-neutral-200 dark:hover:bg-neutral-800 rounded"
+          title="Close search"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="p-2 space-y-2 border-b border-neutral-300 dark:border-neutral-800">
+        <div className="flex items-center gap-1">
+          <Input
+            size="sm"
+            className="flex-1 min-w-0"
+            initialValue={query}
+            onValueChange={(value) => setQuery(value)}
+            placeholder="Search"
+            autoFocus
+          />
+          {toggles.map(({ label, icon: Icon, value, setValue }) => (
+            <Button
+              key={label}
+              type="button"
+              variant="ghost"
+              size="sm"
+              shape="square"
+              toggled={value}
+              className={value ? "text-[#F48120]" : undefined}
+              onClick={() => setValue(!value)}
+              tooltip={label}
+            >
+              <Icon size={14} />
+            </Button>
+          ))}
+        </div>
+        <Input
+          size="sm"
+          className="w-full"
+          initialValue={include}
+          onValueChange={(value) => setInclude(value)}
+          placeholder="Files to include (e.g. src/**/*.ts)"
+        />
+        <Input
+          size="sm"
+          className="w-full"
+          initialValue={exclude}
+          onValueChange={(value) => setExclude(value)}
+          placeholder="Files to exclude (e.g. node_modules, *.min.js)"
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {error ? (
+          <div className="p-4 text-sm text-red-500">{error}</div>
+        ) : !result ? (
+          <div className="p-4 text-sm text-neutral-500 text-center">
+            {isSearching ? "Searching..." : "Search the text files of this project."}
+          </div>
+        ) : result.matches.length === 0 ? (
+          <div className="p-4 text-sm text-neutral-500 text-center">No results found.</div>
+        ) : (
+          <>
+            <div className="px-3 py-1.5 text-xs text-neutral-500">
+              {result.matches.length} {result.matches.length === 1 ? "result" : "results"} in {result.filesMatched}{" "}
+              {result.filesMatched === 1 ? "file" : "files"}
+              {result.truncated && " (more not shown; refine your search)"}
+            </div>
+            {groups.map((group) => (
+              <div key={group.path} className="border-b border-neutral-200 dark:border-neutral-800">
+                <div className="px-3 py-1 flex items-center gap-1.5 text-xs font-medium" title={group.path}>
+                  <FileText size={12} className="flex-shrink-0 text-neutral-500" />
+                  <span className="truncate">{group.path}</span>
+                  <span className="ml-auto text-neutral-500">{group.matches.length}</span>
+                </div>
+                {group.matches.map((match) => (
+                  <button
+                    key={`${match.line}:${match.column}`}
+                    type="button"
+                    onClick={() => onOpenMatch(match)}
+                    className="w-full text-left pl-7 pr-3 py-0.5 flex gap-2 text-xs font-mono hover:bg-neutral-200 dark:hover:bg-neutral-800"
+                  >
+                    <span className="text-neutral-500 flex-shrink-0">{match.line}</span>
+                    <span className="truncate whitespace-pre">
+                      {match.text.slice(0, match.highlight[0])}
+                      <mark className="bg-[#F48120]/30 text-inherit">
+                        {match.text.slice(match.highlight[0], match.highlight[1])}
+                      </mark>
+                      {match.text.slice(match.highlight[1])}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
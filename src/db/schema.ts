@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { index, integer, primaryKey, sqliteTable, text } from "drizzle-orm/sqlite-core";
 
 /**
  * Auth tables for better-auth
@@ -54,3 +54,71 @@ export const verification = sqliteTable("verification", {
   createdAt: integer("createdAt", { mode: "timestamp" }),
   updatedAt: integer("updatedAt", { mode: "timestamp" })
 });
+
+/**
+ * Project registry: which projects exist, who can open them and what they store.
+ * Files live in each project's own ProjectManager instance. Timestamps are epoch milliseconds.
+ */
+
+export const projects = sqliteTable(
+  "projects",
+  {
+    id: text("id").primaryKey(),
+    name: text("name").notNull(),
+    description: text("description"),
+    user_id: text("user_id").notNull(),  // The user who created the project, whose storage it counts against
+    created_at: integer("created_at").notNull(),
+    updated_at: integer("updated_at").notNull(),
+    deleted_at: integer("deleted_at")  // Set while the project is in the trash
+  },
+  (table) => [index("idx_projects_user_id").on(table.user_id), index("idx_projects_deleted_at").on(table.deleted_at)]
+);
+
+export const projectMembers = sqliteTable(
+  "project_members",
+  {
+    project_id: text("project_id").notNull(),
+    user_id: text("user_id").notNull(),
+    role: text("role", { enum: ["owner", "editor", "viewer"] }).notNull(),
+    favorite: integer("favorite", { mode: "boolean" }).notNull().default(false),
+    created_at: integer("created_at").notNull()
+  },
+  (table) => [
+    primaryKey({ columns: [table.project_id, table.user_id] }),
+    index("idx_project_members_user_id").on(table.user_id)
+  ]
+);
+
+export const projectTags = sqliteTable(
+  "project_tags",
+  {
+    project_id: text("project_id").notNull(),
+    tag: text("tag").notNull()
+  },
+  (table) => [primaryKey({ columns: [table.project_id, table.tag] }), index("idx_project_tags_tag").on(table.tag)]
+);
+
+// Reported by the project instances (files) and the BuildRunner (previews)
+export const projectUsage = sqliteTable("project_usage", {
+  project_id: text("project_id").primaryKey(),
+  file_bytes: integer("file_bytes").notNull().default(0),
+  file_count: integer("file_count").notNull().default(0),
+  preview_bytes: integer("preview_bytes").notNull().default(0),
+  updated_at: integer("updated_at").notNull()
+});
+
+// Templates users saved from their projects; the files are a zip archive in R2
+export const templates = sqliteTable(
+  "templates",
+  {
+    id: text("id").primaryKey(),
+    user_id: text("user_id").notNull(),
+    name: text("name").notNull(),
+    description: text("description"),
+    source_project_id: text("source_project_id"),
+    size: integer("size").notNull(),
+    file_count: integer("file_count").notNull(),
+    created_at: integer("created_at").notNull()
+  },
+  (table) => [index("idx_templates_user_id").on(table.user_id)]
+);
@@ -0,0 +1,64 @@
+/**
+ * File type helpers shared by the ProjectManager, BuildRunner and git clone
+ */
+
+const MIME_TYPES: Record<string, string> = {
+  html: "text/html",
+  htm: "text/html",
+  css: "text/css",
+  js: "application/javascript",
+  mjs: "application/javascript",
+  jsx: "text/javascript",
+  ts: "text/typescript",
+  tsx: "text/typescript",
+  json: "application/json",
+  md: "text/markdown",
+  txt: "text/plain",
+  xml: "application/xml",
+  svg: "image/svg+xml",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  bmp: "image/bmp",
+  ico: "image/x-icon",
+  woff: "font/woff",
+  woff2: "font/woff2",
+  ttf: "font/ttf",
+  otf: "font/otf",
+  eot: "application/vnd.ms-fontobject",
+  pdf: "application/pdf",
+  zip: "application/zip",
+  gz: "application/gzip",
+  wasm: "application/wasm",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  mp4: "video/mp4",
+  webm: "video/webm"
+};
+
+/**
+ * MIME type for a path based on its extension, falling back to text/plain
+ */
+export function getMimeType(path: string): string {
+  const ext = path.split(".").pop()?.toLowerCase();
+  return MIME_TYPES[ext || ""] || "text/plain";
+}
+
+/**
+ * Whether raw bytes should be treated as binary rather than UTF-8 text.
+ * NUL bytes or invalid UTF-8 mean binary.
+ */
+export function isBinaryContent(bytes: Uint8Array): boolean {
+  if (bytes.includes(0)) return true;
+
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return false;
+  } catch {
+    return true;
+  }
+}
@@ -3,6 +3,11 @@
  * Uses a worker-based approach to clone repositories from GitHub
  */
 
+import { isBinaryContent } from "./file-types";
+import type { BatchOperation } from "./project-manager";
+import type { ZipEntry } from "./zip";
+import { formatBytes, getStorageLimits, QuotaExceededError } from "./quotas";
+
 export interface GitCloneOptions {
   repoUrl: string;
   branch?: string;
@@ -11,7 +16,7 @@ export interface GitCloneOptions {
 
 export interface GitFile {
   path: string;
-  content: string;
+  content: Uint8Array<ArrayBuffer>;  // Raw bytes, so images and fonts survive the import
   type: "file" | "directory";
 }
 
@@ -75,6 +80,21 @@ export async function cloneGitRepository(
     throw new Error("Repository is too large. Please use a smaller repository or specific branch.");
   }
 
+  // Refuse repositories over the project limits before downloading anything
+  const blobs = data.tree.filter((item) => item.type === "blob");
+  const totalSize = blobs.reduce((total, item) => total + (item.size ?? 0), 0);
+  const limits = getStorageLimits();
+  if (blobs.length > limits.projectFiles) {
+    throw new QuotaExceededError(
+      `Repository has ${blobs.length} files, more than the ${limits.projectFiles} allowed per project`
+    );
+  }
+  if (totalSize > limits.projectBytes) {
+    throw new QuotaExceededError(
+      `Repository is ${formatBytes(totalSize)}, more than the ${formatBytes(limits.projectBytes)} allowed per project`
+    );
+  }
+
   // Download file contents
   const files: GitFile[] = [];
 
@@ -83,7 +103,7 @@ export async function cloneGitRepository(
       // It's a directory
       files.push({
         path: item.path,
-        content: "",
+        content: new Uint8Array(),
         type: "directory"
       });
     } else if (item.type === "blob") {
@@ -106,11 +126,12 @@ export async function cloneGitRepository(
             encoding: string;
           }>();
 
-          // Decode base64 content
-          let content = "";
+          // Decode base64 content into bytes
+          let content = new Uint8Array();
           if (fileData.encoding === "base64") {
             try {
-              content = atob(fileData.content.replace(/\n/g, ""));
+              const decoded = atob(fileData.content.replace(/\n/g, ""));
+              content = Uint8Array.from(decoded, (char) => char.charCodeAt(0));
               console.log(`[Git Clone] Decoded ${item.path}: ${content.length} bytes`);
             } catch (e) {
               console.warn(`Failed to decode ${item.path}, skipping`);
@@ -130,7 +151,7 @@ export async function cloneGitRepository(
           // Still add file with empty content so structure is preserved
           files.push({
             path: item.path,
-            content: "",
+            content: new Uint8Array(),
             type: "file"
           });
         }
@@ -145,57 +166,99 @@ export async function cloneGitRepository(
 }
 
 /**
- * Import cloned files into a project
+ * Turn the entries of an uploaded zip into files ready for importGitFilesIntoProject.
+ * A single top-level folder wrapping everything (as in GitHub downloads) is unwrapped,
+ * and parent directories missing from the archive are added.
+ */
+export function gitFilesFromZip(entries: ZipEntry[]): GitFile[] {
+  const files = entries
+    .map((entry) => ({ ...entry, path: entry.path.replace(/^(\.\/|\/)+/, "").replace(/\/+$/, "") }))
+    .filter((entry) => {
+      const segments = entry.path.split("/");
+      return (
+        entry.path &&
+        !segments.includes("..") &&
+        segments[0] !== "__MACOSX" &&
+        segments[segments.length - 1] !== ".DS_Store"
+      );
+    });
+
+  const roots = new Set(files.map((entry) => entry.path.split("/")[0]));
+  const [root] = roots;
+  const isWrapped =
+    roots.size === 1 && files.some((entry) => entry.path.startsWith(`${root}/`)) &&
+    !files.some((entry) => entry.path === root && entry.content !== null);
+
+  const result = new Map<string, GitFile>();
+  for (const entry of files) {
+    const path = isWrapped ? entry.path.slice(root.length + 1) : entry.path;
+    if (!path) continue;
+
+    const segments = path.split("/");
+    for (let i = 1; i < segments.length; i++) {
+      const directory = segments.slice(0, i).join("/");
+      if (!result.has(directory)) {
+        result.set(directory, { path: directory, content: new Uint8Array(), type: "directory" });
+      }
+    }
+
+    result.set(path, {
+      path,
+      content: entry.content ?? new Uint8Array(),
+      type: entry.content === null ? "directory" : "file"
+    });
+  }
+
+  return [...result.values()].sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Import cloned files into a project in one batch, so a failure leaves no half-imported files
  */
 export async function importGitFilesIntoProject(
   projectId: string,
+  userId: string,
   files: GitFile[],
   stub: DurableObjectStub,
   env: { FILES: R2Bucket }
 ): Promise<void> {
-  // First, create all directories
-  const directories = files.filter((f) => f.type === "directory");
-  for (const dir of directories) {
-    const parentPath = dir.path.split("/").slice(0, -1).join("/") || null;
-    const name = dir.path.split("/").pop() || dir.path;
-
-    await stub.fetch(
-      new Request(`http://internal/projects/${projectId}/files`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          path: dir.path,
-          name,
-          type: "directory",
-          parent_path: parentPath,
-          size: 0
-        })
-      })
-    );
+  // Directories sort before the files inside them; binary content travels as base64
+  const operations: BatchOperation[] = [...files]
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .map((file) => {
+      if (file.type === "directory") {
+        return { op: "create", path: file.path, type: "directory" };
+      }
+      return isBinaryContent(file.content)
+        ? { op: "create", path: file.path, type: "file", content: encodeBase64(file.content), encoding: "base64" }
+        : { op: "create", path: file.path, type: "file", content: new TextDecoder().decode(file.content) };
+    });
+
+  console.log(`[Git Clone] Importing ${operations.length} entries in one batch`);
+
+  const response = await stub.fetch(
+    new Request(`http://internal/projects/${projectId}/files/batch`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-User-Id": userId },
+      body: JSON.stringify({ operations })
+    })
+  );
+
+  if (response.status === 413) {
+    const data = await response.json<{ error: string }>();
+    throw new QuotaExceededError(data.error);
   }
 
-  // Then create all files - send content in the request so DO can upload to R2
-  const regularFiles = files.filter((f) => f.type === "file");
-  for (const file of regularFiles) {
-    const parentPath = file.path.split("/").slice(0, -1).join("/") || null;
-    const name = file.path.split("/").pop() || file.path;
-
-    console.log(`[Git Clone] Creating file with content: ${file.path} (${file.content.length} bytes)`);
-
-    // Create file with content - DO will upload to R2
-    await stub.fetch(
-      new Request(`http://internal/projects/${projectId}/files`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          path: file.path,
-          name,
-          type: "file",
-          parent_path: parentPath,
-          size: file.content.length,
-          content: file.content  // Send content to DO
-        })
-      })
-    );
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to import files: ${errorText}`);
+  }
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
   }
+  return btoa(binary);
 }
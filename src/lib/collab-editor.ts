@@ -0,0 +1,292 @@
+import * as Y from "yjs";
+import * as syncProtocol from "y-protocols/sync";
+import * as awarenessProtocol from "y-protocols/awareness";
+import * as encoding from "lib0/encoding";
+import * as decoding from "lib0/decoding";
+import type { editor, IDisposable } from "monaco-editor";
+import { CLOSE_FILE_DELETED, COLLAB_TEXT, MESSAGE_AWARENESS, MESSAGE_SYNC } from "@/collab";
+
+export interface CollabUser {
+  name: string;
+  image?: string | null;
+}
+
+export interface CollabPeer extends CollabUser {
+  clientId: number;
+  color: string;
+}
+
+interface CollabOptions {
+  projectId: string;
+  path: string;
+  user: CollabUser;
+  editor: editor.IStandaloneCodeEditor;
+  onPeersChange?: (peers: CollabPeer[]) => void;
+}
+
+interface AwarenessState {
+  user?: CollabUser & { color: string };
+  selection?: { anchor: unknown; head: unknown };  // Y.RelativePosition JSON
+}
+
+const PEER_COLORS = ["#F48120", "#3B82F6", "#10B981", "#A855F7", "#EF4444", "#EAB308", "#EC4899", "#14B8A6"];
+
+// Marks document changes made by this binding so they aren't applied back to Monaco
+const LOCAL_ORIGIN = Symbol("monaco");
+const REMOTE_ORIGIN = Symbol("remote");
+
+/**
+ * Bind a Monaco editor to the shared document of a file in the project's Durable Object.
+ * Edits flow both ways, remote cursors and selections are drawn with their user's name,
+ * and the ProjectManager writes the document back to the file periodically.
+ * Returns a function that disconnects.
+ */
+export function connectCollab({ projectId, path, user, editor, onPeersChange }: CollabOptions): () => void {
+  const model = editor.getModel();
+  if (!model) return () => {};
+
+  const doc = new Y.Doc();
+  const text = doc.getText(COLLAB_TEXT);
+  const awareness = new awarenessProtocol.Awareness(doc);
+  const color = PEER_COLORS[doc.clientID % PEER_COLORS.length];
+  awareness.setLocalStateField("user", { ...user, color });
+
+  const styles = document.createElement("style");
+  document.head.appendChild(styles);
+  const decorations = editor.createDecorationsCollection();
+  const disposables: IDisposable[] = [];
+
+  let socket: WebSocket | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+  let applyingRemote = false;
+  let synced = false;  // Until the first full state arrives the editor shows the file as it was opened
+
+  const send = (message: Uint8Array) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(message);
+  };
+
+  // Remote document changes -> Monaco. Delta positions refer to the text before the change,
+  // which is what applyEdits expects for a batch of edits.
+  text.observe((event, transaction) => {
+    if (transaction.origin === LOCAL_ORIGIN || !synced) return;
+
+    const edits: editor.IIdentifiedSingleEditOperation[] = [];
+    let index = 0;
+    for (const op of event.delta) {
+      if (op.retain !== undefined) {
+        index += op.retain;
+      } else if (typeof op.insert === "string") {
+        const position = model.getPositionAt(index);
+        edits.push({
+          range: {
+            startLineNumber: position.lineNumber,
+            startColumn: position.column,
+            endLineNumber: position.lineNumber,
+            endColumn: position.column
+          },
+          text: op.insert
+        });
+      } else if (op.delete !== undefined) {
+        const start = model.getPositionAt(index);
+        const end = model.getPositionAt(index + op.delete);
+        edits.push({
+          range: {
+            startLineNumber: start.lineNumber,
+            startColumn: start.column,
+            endLineNumber: end.lineNumber,
+            endColumn: end.column
+          },
+          text: ""
+        });
+        index += op.delete;
+      }
+    }
+
+    applyingRemote = true;
+    try {
+      model.applyEdits(edits);
+    } finally {
+      applyingRemote = false;
+    }
+    renderPeers();
+  });
+
+  // Monaco changes -> document, last change first so earlier offsets stay valid
+  disposables.push(
+    model.onDidChangeContent((event) => {
+      if (applyingRemote || !synced) return;
+
+      doc.transact(() => {
+        const changes = [...event.changes].sort((a, b) => b.rangeOffset - a.rangeOffset);
+        for (const change of changes) {
+          if (change.rangeLength > 0) text.delete(change.rangeOffset, change.rangeLength);
+          if (change.text) text.insert(change.rangeOffset, change.text);
+        }
+      }, LOCAL_ORIGIN);
+    })
+  );
+
+  // Local document updates -> server
+  doc.on("update", (update: Uint8Array, origin: unknown) => {
+    if (origin === REMOTE_ORIGIN) return;
+
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeUpdate(encoder, update);
+    send(encoding.toUint8Array(encoder));
+  });
+
+  // Cursor and selection -> awareness, as positions relative to the text so they survive edits
+  disposables.push(
+    editor.onDidChangeCursorSelection(({ selection }) => {
+      const anchor = model.getOffsetAt(selection.getStartPosition());
+      const head = model.getOffsetAt(selection.getEndPosition());
+      awareness.setLocalStateField("selection", {
+        anchor: Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(text, anchor)),
+        head: Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(text, head))
+      });
+    })
+  );
+
+  awareness.on(
+    "update",
+    ({ added, updated, removed }: { added: number[]; updated: number[]; removed: number[] }, origin: unknown) => {
+      if (origin === "local") {
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+        encoding.writeVarUint8Array(
+          encoder,
+          awarenessProtocol.encodeAwarenessUpdate(awareness, [...added, ...updated, ...removed])
+        );
+        send(encoding.toUint8Array(encoder));
+      }
+      renderPeers();
+    }
+  );
+
+  /**
+   * Draw every other client's selection and cursor, and report who is here
+   */
+  const renderPeers = () => {
+    const peers: CollabPeer[] = [];
+    const newDecorations: editor.IModelDeltaDecoration[] = [];
+    const rules: string[] = [];
+
+    awareness.getStates().forEach((state: AwarenessState, clientId) => {
+      if (clientId === doc.clientID || !state.user) return;
+      peers.push({ clientId, ...state.user });
+
+      rules.push(
+        `.collab-selection-${clientId} { background-color: ${state.user.color}33; }`,
+        `.collab-cursor-${clientId} { border-left: 2px solid ${state.user.color}; margin-left: -1px; }`,
+        `.collab-cursor-${clientId}::after { content: ${JSON.stringify(state.user.name)}; position: absolute; transform: translateY(-100%); padding: 0 4px; font-size: 11px; line-height: 16px; white-space: nowrap; color: white; background: ${state.user.color}; border-radius: 2px; pointer-events: none; }`
+      );
+
+      if (!state.selection) return;
+      const anchor = Y.createAbsolutePositionFromRelativePosition(
+        Y.createRelativePositionFromJSON(state.selection.anchor),
+        doc
+      );
+      const head = Y.createAbsolutePositionFromRelativePosition(
+        Y.createRelativePositionFromJSON(state.selection.head),
+        doc
+      );
+      if (!anchor || !head) return;
+
+      const start = model.getPositionAt(Math.min(anchor.index, head.index));
+      const end = model.getPositionAt(Math.max(anchor.index, head.index));
+      newDecorations.push({
+        range: {
+          startLineNumber: start.lineNumber,
+          startColumn: start.column,
+          endLineNumber: end.lineNumber,
+          endColumn: end.column
+        },
+        options: {
+          className: `collab-selection-${clientId}`,
+          afterContentClassName: `collab-cursor-${clientId}`,
+          hoverMessage: { value: state.user.name }
+        }
+      });
+    });
+
+    styles.textContent = rules.join("\n");
+    decorations.set(newDecorations);
+    onPeersChange?.(peers);
+  };
+
+  const connect = () => {
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    socket = new WebSocket(
+      `${protocol}//${window.location.host}/api/projects/${projectId}/collab?path=${encodeURIComponent(path)}`
+    );
+    socket.binaryType = "arraybuffer";
+
+    socket.onopen = () => {
+      // Ask for what we're missing, and announce ourselves
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      syncProtocol.writeSyncStep1(encoder, doc);
+      send(encoding.toUint8Array(encoder));
+
+      const awarenessEncoder = encoding.createEncoder();
+      encoding.writeVarUint(awarenessEncoder, MESSAGE_AWARENESS);
+      encoding.writeVarUint8Array(awarenessEncoder, awarenessProtocol.encodeAwarenessUpdate(awareness, [doc.clientID]));
+      send(encoding.toUint8Array(awarenessEncoder));
+    };
+
+    socket.onmessage = (message: MessageEvent<ArrayBuffer>) => {
+      const decoder = decoding.createDecoder(new Uint8Array(message.data));
+      const messageType = decoding.readVarUint(decoder);
+
+      if (messageType === MESSAGE_SYNC) {
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, MESSAGE_SYNC);
+        const syncType = syncProtocol.readSyncMessage(decoder, encoder, doc, REMOTE_ORIGIN);
+        if (encoding.length(encoder) > 1) send(encoding.toUint8Array(encoder));
+
+        // The first full state replaces whatever the editor was opened with
+        if (syncType === syncProtocol.messageYjsSyncStep2 && !synced) {
+          synced = true;
+          if (model.getValue() !== text.toString()) {
+            applyingRemote = true;
+            try {
+              model.setValue(text.toString());
+            } finally {
+              applyingRemote = false;
+            }
+          }
+          renderPeers();
+        }
+      } else if (messageType === MESSAGE_AWARENESS) {
+        awarenessProtocol.applyAwarenessUpdate(awareness, decoding.readVarUint8Array(decoder), REMOTE_ORIGIN);
+      }
+    };
+
+    socket.onclose = (event) => {
+      // Peers can't be seen while disconnected
+      const others = [...awareness.getStates().keys()].filter((clientId) => clientId !== doc.clientID);
+      awarenessProtocol.removeAwarenessStates(awareness, others, REMOTE_ORIGIN);
+
+      if (!closed && event.code !== CLOSE_FILE_DELETED) {
+        retryTimer = setTimeout(connect, 2000);
+      }
+    };
+  };
+
+  connect();
+
+  return () => {
+    closed = true;
+    clearTimeout(retryTimer);
+    // Tell the others our cursor is gone before leaving
+    awarenessProtocol.removeAwarenessStates(awareness, [doc.clientID], "local");
+    socket?.close();
+    for (const disposable of disposables) disposable.dispose();
+    decorations.clear();
+    styles.remove();
+    awareness.destroy();
+    doc.destroy();
+  };
+}
@@ -0,0 +1,48 @@
+import type { ContentEntry, ContentHeader } from "@/project-manager";
+
+/**
+ * Read a bulk content stream from /projects/:id/content into its header and entries
+ */
+export async function readProjectContent(
+  response: Response
+): Promise<{ header: ContentHeader; entries: ContentEntry[] }> {
+  if (!response.body) {
+    throw new Error("Empty content stream");
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  const lines: string[] = [];
+  let buffered = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffered += value;
+    const complete = buffered.split("\n");
+    buffered = complete.pop() ?? "";
+    lines.push(...complete.filter(Boolean));
+  }
+  if (buffered) lines.push(buffered);
+
+  const [header, ...entries] = lines.map((line) => JSON.parse(line));
+  if (!header) {
+    throw new Error("Content stream has no header");
+  }
+  return { header: header as ContentHeader, entries: entries as ContentEntry[] };
+}
+
+/**
+ * Content of a streamed file as the WebContainer takes it: text, or bytes for binary files
+ */
+export function decodeEntryContent(entry: Extract<ContentEntry, { content: string | null }>): string | Uint8Array | null {
+  if (entry.content === null) return null;
+  if (entry.encoding === "utf-8") return entry.content;
+
+  const binary = atob(entry.content);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,69 @@
+import { drizzle } from "drizzle-orm/d1";
+import { and, eq, inArray } from "drizzle-orm";
+import * as schema from "../db/schema";
+
+export interface UserProfile {
+  id: string;
+  name: string;
+  email: string;
+  image: string | null;
+}
+
+const profileColumns = {
+  id: schema.user.id,
+  name: schema.user.name,
+  email: schema.user.email,
+  image: schema.user.image
+};
+
+/**
+ * Look up the profiles of the given users. Unknown ids are left out.
+ */
+export async function getUserProfiles(db: D1Database, userIds: string[]): Promise<UserProfile[]> {
+  if (userIds.length === 0) return [];
+
+  return drizzle(db, { schema })
+    .select(profileColumns)
+    .from(schema.user)
+    .where(inArray(schema.user.id, userIds));
+}
+
+/**
+ * Find a user who has signed in before by email address or GitHub username.
+ * Profiles only keep the GitHub display name, so usernames are resolved to the
+ * GitHub account id that sign-in stored.
+ */
+export async function findUser(db: D1Database, identifier: string): Promise<UserProfile | null> {
+  const database = drizzle(db, { schema });
+  const value = identifier.trim().replace(/^@/, "");
+
+  if (value.includes("@")) {
+    const [profile] = await database
+      .select(profileColumns)
+      .from(schema.user)
+      .where(eq(schema.user.email, value.toLowerCase()));
+    return profile ?? null;
+  }
+
+  const headers: Record<string, string> = {
+    Accept: "application/vnd.github.v3+json",
+    "User-Agent": "CloudflareAIEditor"
+  };
+  if (process.env.GITHUB_TOKEN) {
+    headers.Authorization = `Bearer ${process.env.GITHUB_TOKEN}`;
+  }
+
+  const response = await fetch(`https://api.github.com/users/${encodeURIComponent(value)}`, { headers });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+  }
+
+  const githubUser = await response.json<{ id: number }>();
+  const [profile] = await database
+    .select(profileColumns)
+    .from(schema.account)
+    .innerJoin(schema.user, eq(schema.account.userId, schema.user.id))
+    .where(and(eq(schema.account.providerId, "github"), eq(schema.account.accountId, String(githubUser.id))));
+  return profile ?? null;
+}
@@ -23,7 +23,7 @@ export async function getWebContainer(): Promise<WebContainer> {
 
 export async function mountProjectFiles(
   projectId: string,
-  files: Array<{ path: string; content: string; type: 'file' | 'directory' }>
+  files: Array<{ path: string; content: string | Uint8Array; type: 'file' | 'directory' }>
 ): Promise<void> {
   const container = await getWebContainer();
 
@@ -60,6 +60,31 @@ export async function mountProjectFiles(
   await container.mount(fileTree);
 }
 
+export async function writeContainerFile(path: string, content: string | Uint8Array): Promise<void> {
+  const container = await getWebContainer();
+
+  const parentPath = path.split('/').slice(0, -1).join('/');
+  if (parentPath) {
+    await container.fs.mkdir(parentPath, { recursive: true });
+  }
+  await container.fs.writeFile(path, content);
+}
+
+export async function createContainerDirectory(path: string): Promise<void> {
+  const container = await getWebContainer();
+  await container.fs.mkdir(path, { recursive: true });
+}
+
+export async function removeContainerPath(path: string): Promise<void> {
+  const container = await getWebContainer();
+  await container.fs.rm(path, { recursive: true, force: true });
+}
+
+export async function renameContainerPath(fromPath: string, toPath: string): Promise<void> {
+  const container = await getWebContainer();
+  await container.fs.rename(fromPath, toPath);
+}
+
 export async function runCommand(
   command: string,
   args: string[] = [],
@@ -0,0 +1,65 @@
+/**
+ * Versioned schema migrations for Durable Objects backed by SQLite.
+ * Each Durable Object class keeps an ordered list of migrations; the versions applied
+ * to an object are recorded in its `_migrations` table, so each migration runs once
+ * per object, in the same transaction as its record.
+ */
+
+export interface Migration {
+  version: number;  // Positive, increasing through the list; never reused or reordered once deployed
+  name: string;
+  up: (sql: SqlStorage) => void;
+}
+
+/**
+ * Apply the migrations this object hasn't run yet, in order. Call it from the constructor,
+ * before anything reads the tables. Returns the versions applied by this call.
+ */
+export function runMigrations(storage: DurableObjectStorage, migrations: Migration[]): number[] {
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version <= migrations[i - 1].version) {
+      throw new Error(`Migration ${migrations[i].name} must have a version above ${migrations[i - 1].version}`);
+    }
+  }
+
+  const { sql } = storage;
+  sql.exec(`
+    CREATE TABLE IF NOT EXISTS _migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )
+  `);
+
+  const applied = new Set(
+    sql.exec<{ version: number }>("SELECT version FROM _migrations").toArray().map(({ version }) => version)
+  );
+  const pending = migrations.filter((migration) => !applied.has(migration.version));
+
+  for (const migration of pending) {
+    storage.transactionSync(() => {
+      migration.up(sql);
+      sql.exec(
+        "INSERT INTO _migrations (version, name, applied_at) VALUES (?, ?, ?)",
+        migration.version,
+        migration.name,
+        Date.now()
+      );
+    });
+    console.log(`[Migrations] Applied ${migration.version} ${migration.name}`);
+  }
+
+  return pending.map((migration) => migration.version);
+}
+
+/**
+ * Add a column unless the table has it already. Objects created before migrations were
+ * tracked may have some of the columns a migration adds, so migrations that replay older
+ * schema changes use this instead of a bare ALTER TABLE.
+ */
+export function addColumn(sql: SqlStorage, table: string, column: string, definition: string): void {
+  const columns = sql.exec<{ name: string }>(`PRAGMA table_info(${table})`).toArray();
+  if (!columns.some(({ name }) => name === column)) {
+    sql.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Project path rules shared by the ProjectManager routes and the AI tools.
+ * A project path is relative to the project root and uses "/" between segments;
+ * it has no leading, trailing or repeated slashes and no "." or ".." segments.
+ */
+
+export const MAX_PATH_LENGTH = 1024;
+export const MAX_NAME_LENGTH = 255;
+
+/**
+ * Thrown for a path that can't name anything inside a project
+ */
+export class InvalidPathError extends Error {
+  toResponse(): Response {
+    return Response.json({ error: this.message, code: "invalid_path" }, { status: 400 });
+  }
+}
+
+/**
+ * Bring a path into its stored form: backslashes become slashes, and leading, trailing
+ * and repeated slashes and "." segments are dropped. Throws an InvalidPathError for
+ * paths that are empty, climb out with "..", contain control characters or are too long.
+ */
+export function normalizePath(path: unknown): string {
+  if (typeof path !== "string" || !path.trim()) {
+    throw new InvalidPathError("path is required");
+  }
+
+  const segments = path
+    .replace(/\\/g, "/")
+    .split("/")
+    .filter((segment) => segment !== "" && segment !== ".");
+
+  for (const segment of segments) {
+    validateName(segment, path);
+  }
+
+  const normalized = segments.join("/");
+  if (!normalized) {
+    throw new InvalidPathError(`"${path}" doesn't name a file or directory`);
+  }
+  if (normalized.length > MAX_PATH_LENGTH) {
+    throw new InvalidPathError(`Path is longer than ${MAX_PATH_LENGTH} characters`);
+  }
+
+  return normalized;
+}
+
+/**
+ * Check a single file or directory name, as given to a rename
+ */
+export function validateName(name: unknown, path: unknown = name): string {
+  if (typeof name !== "string" || !name.trim()) {
+    throw new InvalidPathError("Name cannot be empty");
+  }
+  if (name === "." || name === "..") {
+    throw new InvalidPathError(`"${path}" can't contain "${name}" segments`);
+  }
+  if (name.includes("/") || name.includes("\\")) {
+    throw new InvalidPathError(`"${name}" can't contain slashes`);
+  }
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: control characters are what's being rejected
+  if (/[\u0000-\u001f\u007f]/.test(name)) {
+    throw new InvalidPathError(`"${path}" contains control characters`);
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new InvalidPathError(`"${name.slice(0, 40)}…" is longer than ${MAX_NAME_LENGTH} characters`);
+  }
+  return name;
+}
+
+/**
+ * Decode a path taken from a URL (like /projects/:id/files/<path>) and normalize it
+ */
+export function decodePath(encoded: string): string {
+  try {
+    return normalizePath(decodeURIComponent(encoded));
+  } catch (error) {
+    if (error instanceof URIError) {
+      throw new InvalidPathError(`"${encoded}" is not a valid URL-encoded path`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Encode a path for use in a URL, keeping the slashes between segments
+ */
+export function encodePath(path: string): string {
+  return path.split("/").map(encodeURIComponent).join("/");
+}
+
+export function getParentPath(path: string): string | null {
+  return path.split("/").slice(0, -1).join("/") || null;
+}
+
+export function getFileName(path: string): string {
+  return path.split("/").pop() || path;
+}
+
+/**
+ * Every directory above a path, outermost first: "a/b/c.ts" gives ["a", "a/b"]
+ */
+export function getAncestorPaths(path: string): string[] {
+  const segments = path.split("/");
+  return segments.slice(1).map((_, index) => segments.slice(0, index + 1).join("/"));
+}
+
+/**
+ * Whether `path` is `root` itself or somewhere below it
+ */
+export function isWithinPath(path: string, root: string): boolean {
+  return path === root || path.startsWith(`${root}/`);
+}
@@ -0,0 +1,172 @@
+/**
+ * Per-project settings kept in a `.aieditor.json` file at the project root. The
+ * BuildRunner, the Chat agent and the IDE read it; the ProjectManager refuses writes
+ * that would leave it invalid. Every setting is optional.
+ */
+import { normalizePath } from "./paths";
+
+export const PROJECT_CONFIG_PATH = ".aieditor.json";
+
+const MAX_COMMAND_LENGTH = 500;
+const MAX_INSTRUCTIONS_LENGTH = 4000;
+
+export interface ProjectConfig {
+  installCommand?: string;  // Installs dependencies, like "npm ci"
+  buildCommand?: string;  // Builds the project, like "npm run build"
+  outputDir?: string;  // Built files to deploy as the preview, like "dist"
+  entryPoints?: string[];  // Scripts the preview starts from, tried in order
+  previewRoutes?: string[];  // Pages the preview offers, like "/" and "/about"
+  ignore?: string[];  // Globs the agent and builds skip, like "node_modules" or "*.log"
+  agentInstructions?: string;  // Added to the agent's system prompt
+}
+
+/**
+ * Thrown for a config file that isn't valid JSON or doesn't match the schema
+ */
+export class ProjectConfigError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`${PROJECT_CONFIG_PATH} is invalid: ${issues.join("; ")}`);
+  }
+
+  toResponse(): Response {
+    return Response.json({ error: this.message, code: "invalid_config", issues: this.issues }, { status: 400 });
+  }
+}
+
+/**
+ * Parse the text of a config file. An empty file is an empty config.
+ */
+export function parseProjectConfig(text: string): ProjectConfig {
+  if (!text.trim()) return {};
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new ProjectConfigError([error instanceof Error ? error.message : "not valid JSON"]);
+  }
+  return validateProjectConfig(value);
+}
+
+/**
+ * Check a parsed config against the schema, collecting every problem rather than the
+ * first. Paths come back normalized and blank strings are dropped.
+ */
+export function validateProjectConfig(value: unknown): ProjectConfig {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new ProjectConfigError(["the file must hold a JSON object"]);
+  }
+
+  const issues: string[] = [];
+  const config: ProjectConfig = {};
+  const input = value as Record<string, unknown>;
+
+  const text = (key: keyof ProjectConfig, maxLength: number, singleLine: boolean): string | undefined => {
+    const setting = input[key];
+    if (setting === undefined) return undefined;
+    if (typeof setting !== "string") {
+      issues.push(`"${key}" must be a string`);
+      return undefined;
+    }
+    if (setting.length > maxLength) {
+      issues.push(`"${key}" is longer than ${maxLength} characters`);
+    } else if (singleLine && /[\r\n]/.test(setting)) {
+      issues.push(`"${key}" must be a single line`);
+    }
+    return setting.trim() || undefined;
+  };
+
+  const list = (key: keyof ProjectConfig, check: (item: string) => string): string[] | undefined => {
+    const setting = input[key];
+    if (setting === undefined) return undefined;
+    if (!Array.isArray(setting) || setting.some((item) => typeof item !== "string")) {
+      issues.push(`"${key}" must be a list of strings`);
+      return undefined;
+    }
+
+    const items: string[] = [];
+    for (const item of setting as string[]) {
+      if (!item.trim()) continue;
+      try {
+        items.push(check(item.trim()));
+      } catch (error) {
+        issues.push(`"${key}": ${error instanceof Error ? error.message : item}`);
+      }
+    }
+    return items;
+  };
+
+  const route = (item: string): string => {
+    if (!item.startsWith("/") || /\s/.test(item)) {
+      throw new Error(`"${item}" must start with "/" and contain no spaces`);
+    }
+    return item;
+  };
+
+  config.installCommand = text("installCommand", MAX_COMMAND_LENGTH, true);
+  config.buildCommand = text("buildCommand", MAX_COMMAND_LENGTH, true);
+  const outputDir = text("outputDir", MAX_COMMAND_LENGTH, true);
+  if (outputDir) {
+    try {
+      config.outputDir = normalizePath(outputDir);
+    } catch (error) {
+      issues.push(`"outputDir": ${error instanceof Error ? error.message : outputDir}`);
+    }
+  }
+  config.entryPoints = list("entryPoints", normalizePath);
+  config.previewRoutes = list("previewRoutes", route);
+  config.ignore = list("ignore", (item) => item);
+  config.agentInstructions = text("agentInstructions", MAX_INSTRUCTIONS_LENGTH, false);
+
+  const known: string[] = [
+    "installCommand",
+    "buildCommand",
+    "outputDir",
+    "entryPoints",
+    "previewRoutes",
+    "ignore",
+    "agentInstructions"
+  ] satisfies (keyof ProjectConfig)[];
+  for (const key of Object.keys(input)) {
+    if (!known.includes(key)) {
+      issues.push(`unknown setting "${key}"`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ProjectConfigError(issues);
+  }
+
+  // Leave out what isn't set, so the file only lists the settings in use
+  return Object.fromEntries(
+    Object.entries(config).filter(([, setting]) => setting !== undefined && !(Array.isArray(setting) && setting.length === 0))
+  ) as ProjectConfig;
+}
+
+/**
+ * The text to store for a config, formatted for people to read and edit
+ */
+export function serializeProjectConfig(config: ProjectConfig): string {
+  return `${JSON.stringify(validateProjectConfig(config), null, 2)}\n`;
+}
+
+/**
+ * Read a project's config as `userId`. A project without the file has an empty config;
+ * an invalid file throws a ProjectConfigError.
+ */
+export async function loadProjectConfig(env: Env, projectId: string, userId: string): Promise<ProjectConfig> {
+  const stub = env.ProjectManager.get(env.ProjectManager.idFromName(projectId));
+  const response = await stub.fetch(
+    new Request(`https://dummy/projects/${projectId}/files/${PROJECT_CONFIG_PATH}`, {
+      headers: { "X-User-Id": userId }
+    })
+  );
+
+  if (response.status === 404) return {};
+  if (!response.ok) {
+    throw new Error(`Failed to read ${PROJECT_CONFIG_PATH}`);
+  }
+
+  const file = await response.json<{ content?: string }>();
+  return parseProjectConfig(file.content ?? "");
+}
@@ -1,15 +1,107 @@
 import { DurableObject } from "cloudflare:workers";
+import * as Y from "yjs";
+import * as syncProtocol from "y-protocols/sync";
+import * as encoding from "lib0/encoding";
+import * as decoding from "lib0/decoding";
+import { CLOSE_FILE_DELETED, COLLAB_TEXT, MESSAGE_AWARENESS, MESSAGE_SYNC, replaceText } from "./collab";
+import { getMimeType, isBinaryContent } from "./file-types";
+import { createZipStream, type ZipEntry } from "./zip";
+import { accessForMethod, AuthorizationError, getProjectRole, requireAccess } from "./authorization";
+import { checkUserQuota, formatBytes, getStorageLimits, QuotaExceededError, type StorageUsage, type UsageReport } from "./quotas";
+import { addColumn, type Migration, runMigrations } from "./migrations";
+import { parseProjectConfig, PROJECT_CONFIG_PATH, ProjectConfigError } from "./project-config";
+import { type LegacyRegistry, reportUsage, trashRetentionMs } from "./registry";
+import {
+  decodePath,
+  encodePath,
+  getAncestorPaths,
+  getFileName,
+  getParentPath,
+  InvalidPathError,
+  normalizePath,
+  validateName
+} from "./paths";
+import {
+  createMatcher,
+  DEFAULT_MAX_RESULTS,
+  findMatches,
+  MAX_RESULTS_LIMIT,
+  matchesGlobs,
+  type SearchMatch,
+  type SearchOptions,
+  type SearchResult
+} from "./search";
 
 export interface Project {
   id: string;
   name: string;
   description?: string;
-  user_id: string;
+  user_id: string;  // The user who created the project
   created_at: number;
   updated_at: number;
+  role?: ProjectRole;  // The requesting user's role, in project lists
+  file_bytes?: number;  // Storage usage, in project lists
+  file_count?: number;
+  preview_bytes?: number;
+  deleted_at?: number | null;  // Set while the project is in the trash
+  tags?: string[];  // In project lists
+  favorite?: boolean;  // Whether the requesting user starred it, in project lists
+}
+
+export type ProjectSort = "name" | "updated" | "created";
+
+/**
+ * A page of the user's projects, with every tag on their projects for filtering
+ */
+export interface ProjectList {
+  projects: Project[];
+  total: number;  // Projects matching the filters, across all pages
+  tags: string[];
+}
+
+/**
+ * Owners manage the project and its members, editors change files, viewers only read
+ */
+export type ProjectRole = "owner" | "editor" | "viewer";
+
+/**
+ * A deleted file or directory, with everything that was inside it, waiting in the trash
+ */
+export interface TrashItem {
+  id: string;
+  project_id: string;
+  path: string;
+  type: "file" | "directory";
+  author: "user" | "ai";  // Who deleted it
+  deleted_at: number;
+  expires_at: number;  // When it's purged for good
+  entry_count: number;
+  size: number;  // Bytes of file content
 }
 
-export interface FileNode {
+/**
+ * One file or directory of a trashed item, as it was when deleted
+ */
+type TrashEntry = {
+  trash_id: string;
+  path: string;
+  type: "file" | "directory";
+  size: number;
+  content_hash: string | null;
+  is_binary: number;
+};
+
+export type ProjectMember = {
+  project_id: string;
+  user_id: string;
+  role: ProjectRole;
+  created_at: number;
+  name?: string;  // From the user's profile, when listing members
+  email?: string;
+  image?: string | null;
+};
+
+export type FileNode = {
   id: string;
   project_id: string;
   path: string;
@@ -19,63 +111,570 @@ export interface FileNode {
   size: number;
   created_at: number;
   updated_at: number;
+  content_hash?: string | null;  // Blob holding the file's content, null for directories
+  is_binary?: number;  // 1 when the content is raw bytes rather than UTF-8 text
+  mime_type?: string | null;
+  revision?: number;  // Bumped on every content change; writers send it back to detect conflicts
   content?: string;  // Optional content for creating files
+};
+
+export type FileVersion = {
+  id: string;
+  project_id: string;
+  path: string;
+  author: "user" | "ai";
+  tool: string | null;  // Tool name when the AI wrote this version
+  size: number;
+  content_hash: string;  // Blob holding this version's content
+  created_at: number;
+};
+
+export type Checkpoint = {
+  id: string;  // ID of the user chat message that started the AI turn
+  project_id: string;
+  created_at: number;
+  restored_at: number | null;
+  entry_count: number;
+};
+
+export type ActivityAction = "create" | "update" | "delete" | "move" | "restore" | "undo" | "copy";
+
+/**
+ * One entry of a project's append-only activity log
+ */
+export type ActivityEntry = {
+  id: number;
+  project_id: string;
+  actor: "user" | "ai";
+  user_id: string | null;  // The user, or the user the AI acted for; null for merged collaborative edits
+  message_id: string | null;  // AI changes: the user chat message that started the turn
+  tool: string | null;  // AI changes: the tool that made them
+  action: ActivityAction;
+  paths: string[];  // For moves, the old path then the new one
+  created_at: number;
+};
+
+/**
+ * A page of activity, newest first. Pass `nextCursor` back as `before` for the next page.
+ */
+export interface ActivityPage {
+  entries: ActivityEntry[];
+  nextCursor: number | null;
+}
+
+interface ActivityFilters {
+  actor: "user" | "ai" | null;
+  userId: string | null;
+  action: ActivityAction | null;
+  path: string | null;  // The path itself or anything under it
+  messageId: string | null;
+  since: number | null;
+  until: number | null;
+  before: number | null;
+  limit: number;
+}
+
+/**
+ * Change pushed to every client connected to a project's events route
+ */
+export type FileEvent =
+  | { type: "created" | "updated"; file: FileNode; author: "user" | "ai" }
+  | { type: "deleted"; path: string; author: "user" | "ai" }
+  | { type: "moved"; fromPath: string; toPath: string; author: "user" | "ai" };
+
+/**
+ * First line of a bulk content stream. `revision` is passed back as `since` to load only
+ * what changed afterwards; `full` is false when the stream holds just those changes.
+ */
+export interface ContentHeader {
+  revision: number;
+  full: boolean;
+}
+
+/**
+ * One line of a bulk content stream after the header. Content is base64 for binary files,
+ * and null for directories, files over `maxSize` and files whose blob is missing.
+ * Incremental streams also list paths deleted since the given revision.
+ */
+export type ContentEntry =
+  | (Omit<FileNode, "content"> & { content: string | null; encoding: "utf-8" | "base64" })
+  | { path: string; deleted: true };
+
+/**
+ * What to include in a bulk content stream
+ */
+export interface ContentOptions {
+  since?: number;  // Revision from an earlier load; changes after it only
+  include: string[];
+  exclude: string[];
+  maxSize?: number;  // Bytes; larger files are listed without content
+}
+
+/**
+ * What a hibernatable WebSocket is for. Kept in the socket's attachment so it survives hibernation.
+ * Collab sockets also remember the awareness (cursor, user) of the editor clients behind them.
+ */
+type SocketAttachment =
+  | { kind: "events" }
+  | {
+      kind: "collab";
+      projectId: string;
+      path: string;
+      userId: string;
+      role: ProjectRole;
+      clients: Record<string, { clock: number; state: string }>;
+    };
+
+type CollabDocument = {
+  project_id: string;
+  path: string;
+  state: ArrayBuffer;  // Y.encodeStateAsUpdate of the document
+  dirty: number;  // 1 when it holds edits not yet written back to the file
+  updated_at: number;
+};
+
+/**
+ * State of one path before the AI turn first touched it
+ */
+type CheckpointEntry = {
+  checkpoint_id: string;
+  path: string;
+  type: "file" | "directory" | null;
+  existed: number;  // 0 when the turn created the path
+  content_hash: string | null;  // Blob holding the previous content, for files
+};
+
+/**
+ * Who is writing: the user through the IDE, or the AI through one of its tools.
+ * server.ts always marks forwarded browser requests as "user".
+ * AI writes made during a chat turn also carry that turn's checkpoint, which is
+ * named after the chat message that started the turn.
+ */
+interface WriteContext {
+  author: "user" | "ai";
+  userId: string | null;
+  tool: string | null;
+  checkpointId: string | null;
+}
+
+/**
+ * One operation of a batch write. Content is UTF-8 text unless encoding is "base64".
+ */
+export type BatchOperation =
+  | { op: "create"; path: string; type: "file" | "directory"; content?: string; encoding?: "utf-8" | "base64" }
+  | { op: "update"; path: string; content: string; encoding?: "utf-8" | "base64"; expectedRevision?: number }
+  | { op: "delete"; path: string };
+
+/**
+ * Content hashed and uploaded to R2, not yet referenced in SQLite.
+ * `uploaded` is set when this write put the object in R2 rather than finding it referenced there.
+ * `text` is kept for the search index and is null for binary content.
+ */
+type UploadedBlob = {
+  hash: string;
+  size: number;
+  binary: boolean;
+  uploaded: boolean;
+  text: string | null;
+};
+
+/**
+ * Thrown inside a write transaction when the file changed after the writer read it
+ */
+class RevisionConflictError extends Error {
+  constructor(readonly file: FileNode) {
+    super(`${file.path} was changed by someone else (now at revision ${file.revision})`);
+  }
+}
+
+/**
+ * Thrown inside a batch transaction to roll it back and report the failing operation
+ */
+class BatchOperationError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly index: number
+  ) {
+    super(message);
+  }
+}
+
+// Older versions beyond this are pruned whenever a new one is recorded
+const MAX_VERSIONS_PER_FILE = 50;
+
+// Older checkpoints beyond this are pruned whenever a new one is created
+const MAX_CHECKPOINTS = 20;
+
+// Collaborative edits are written back to the file at most this often
+const COLLAB_FLUSH_INTERVAL_MS = 5000;
+
+// A trash purge that failed is retried this often
+const TRASH_PURGE_RETRY_MS = 60 * 1000;
+
+// A shared document that couldn't be written back is retried this often
+const COLLAB_FLUSH_RETRY_MS = 60 * 1000;
+
+// Blobs the bulk content route downloads at once
+const CONTENT_FETCH_CONCURRENCY = 8;
+
+// Activity entries returned per page, unless the request asks for less
+const MAX_ACTIVITY_PAGE_SIZE = 200;
+
+// Larger text files are left out of the search index
+const MAX_INDEXED_FILE_SIZE = 1024 * 1024;
+
+// Transaction origin for content written outside the shared document
+const EXTERNAL_WRITE = Symbol("external-write");
+
+// Project instances remember roles looked up in the registry this long,
+// so a removed member keeps access for at most this
+const ROLE_CACHE_MS = 10_000;
+
+// Tables from when the "global" instance kept the project registry, before it moved to D1
+const REGISTRY_TABLES = ["projects", "project_members", "project_tags", "project_usage", "templates"];
+
+/**
+ * Schema of every ProjectManager instance, oldest first. The registry tables are dropped
+ * by the "legacy-registry" migration wherever they're empty; the "global" instance keeps
+ * its own until their rows are copied to D1. Instances created before migrations were
+ * tracked replay all of them, so each one tolerates the tables and columns it creates
+ * already being there.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "projects-and-files",
+    up: (sql) => {
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS projects (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          description TEXT,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        )
+      `);
+      addColumn(sql, "projects", "user_id", "TEXT");
+      // Projects from before accounts belong to nobody in particular
+      sql.exec(`UPDATE projects SET user_id = 'anonymous' WHERE user_id IS NULL`);
+      sql.exec(`CREATE INDEX IF NOT EXISTS idx_projects_user_id ON projects(user_id)`);
+
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS files (
+          id TEXT PRIMARY KEY,
+          project_id TEXT NOT NULL,
+          path TEXT NOT NULL,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL,
+          parent_path TEXT,
+          size INTEGER DEFAULT 0,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          UNIQUE(project_id, path)
+        )
+      `);
+      sql.exec(`CREATE INDEX IF NOT EXISTS idx_files_project_id ON files(project_id)`);
+      sql.exec(`CREATE INDEX IF NOT EXISTS idx_files_parent_path ON files(parent_path)`);
+    }
+  },
+  {
+    version: 2,
+    name: "file-versions",
+    up: (sql) => {
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS file_versions (
+          id TEXT PRIMARY KEY,
+          project_id TEXT NOT NULL,
+          path TEXT NOT NULL,
+          author TEXT NOT NULL,
+          tool TEXT,
+          size INTEGER NOT NULL,
+          content_hash TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        )
+      `);
+      sql.exec(`CREATE INDEX IF NOT EXISTS idx_file_versions_path ON file_versions(project_id, path, created_at)`);
+    }
+  },
+  {
+    version: 3,
+    name: "checkpoints",
+    up: (sql) => {
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS checkpoints (
+          id TEXT PRIMARY KEY,
+          project_id TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          restored_at INTEGER
+        )
+      `);
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS checkpoint_entries (
+          checkpoint_id TEXT NOT NULL,
+          path TEXT NOT NULL,
+          type TEXT,
+          existed INTEGER NOT NULL,
+          content_hash TEXT,
+          PRIMARY KEY (checkpoint_id, path)
+        )
+      `);
+    }
+  },
+  {
+    version: 4,
+    name: "content-blobs",
+    up: (sql) => {
+      // Content-addressed blobs; ref_count counts files, versions, checkpoint and trash entries using each one.
+      // Content written before this stays at its old R2 key until migrateLegacyContent moves it.
+      addColumn(sql, "files", "content_hash", "TEXT");
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS blobs (
+          hash TEXT PRIMARY KEY,
+          size INTEGER NOT NULL,
+          ref_count INTEGER NOT NULL,
+          created_at INTEGER NOT NULL
+        )
+      `);
+    }
+  },
+  {
+    version: 5,
+    name: "binary-files",
+    up: (sql) => {
+      addColumn(sql, "files", "is_binary", "INTEGER DEFAULT 0");
+      addColumn(sql, "files", "mime_type", "TEXT");
+    }
+  },
+  {
+    version: 6,
+    name: "file-revisions",
+    up: (sql) => {
+      addColumn(sql, "files", "revision", "INTEGER NOT NULL DEFAULT 1");
+    }
+  },
+  {
+    version: 7,
+    name: "collab-documents",
+    up: (sql) => {
+      // Shared documents of files being edited together; state survives hibernation here
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS collab_documents (
+          project_id TEXT NOT NULL,
+          path TEXT NOT NULL,
+          state BLOB NOT NULL,
+          dirty INTEGER NOT NULL DEFAULT 0,
+          updated_at INTEGER NOT NULL,
+          PRIMARY KEY (project_id, path)
+        )
+      `);
+    }
+  },
+  {
+    version: 8,
+    name: "project-members",
+    up: (sql) => {
+      // Who can access each project, and how
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS project_members (
+          project_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          role TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          PRIMARY KEY (project_id, user_id)
+        )
+      `);
+      sql.exec(`CREATE INDEX IF NOT EXISTS idx_project_members_user_id ON project_members(user_id)`);
+
+      // Projects created before sharing are owned by their creator
+      sql.exec(`
+        INSERT OR IGNORE INTO project_members (project_id, user_id, role, created_at)
+        SELECT id, user_id, 'owner', created_at FROM projects
+        WHERE id NOT IN (SELECT project_id FROM project_members)
+      `);
+    }
+  },
+  {
+    version: 9,
+    name: "search-index",
+    up: (sql) => {
+      // Search index over the text content of files. The trigram tokenizer lets MATCH find
+      // any substring of three or more characters; search_documents maps each file to its
+      // FTS row, so writes replace a file's entry by rowid instead of scanning the index.
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS search_documents (
+          id INTEGER PRIMARY KEY,
+          file_id TEXT NOT NULL UNIQUE
+        )
+      `);
+      sql.exec(`CREATE VIRTUAL TABLE IF NOT EXISTS file_search USING fts5(content, tokenize = 'trigram')`);
+    }
+  },
+  {
+    version: 10,
+    name: "project-usage",
+    up: (sql) => {
+      // Storage used by each project, reported by the project instances and the BuildRunner
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS project_usage (
+          project_id TEXT PRIMARY KEY,
+          file_bytes INTEGER NOT NULL DEFAULT 0,
+          file_count INTEGER NOT NULL DEFAULT 0,
+          preview_bytes INTEGER NOT NULL DEFAULT 0,
+          updated_at INTEGER NOT NULL
+        )
+      `);
+    }
+  },
+  {
+    version: 11,
+    name: "trash",
+    up: (sql) => {
+      // Set while a project is in the trash
+      addColumn(sql, "projects", "deleted_at", "INTEGER");
+
+      // Deleted files and directories until they're restored or purged. Blobs of trashed
+      // files keep a reference, so their content survives until the item is purged.
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS trash_items (
+          id TEXT PRIMARY KEY,
+          project_id TEXT NOT NULL,
+          path TEXT NOT NULL,
+          type TEXT NOT NULL,
+          author TEXT NOT NULL,
+          deleted_at INTEGER NOT NULL
+        )
+      `);
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS trash_entries (
+          trash_id TEXT NOT NULL,
+          path TEXT NOT NULL,
+          type TEXT NOT NULL,
+          size INTEGER NOT NULL DEFAULT 0,
+          content_hash TEXT,
+          is_binary INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (trash_id, path)
+        )
+      `);
+    }
+  },
+  {
+    version: 12,
+    name: "file-changes",
+    up: (sql) => {
+      // The latest change to each path, so clients can load only what changed since a revision.
+      // Deleted paths keep their row and show up as deletions.
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS file_changes (
+          seq INTEGER PRIMARY KEY AUTOINCREMENT,
+          project_id TEXT NOT NULL,
+          path TEXT NOT NULL
+        )
+      `);
+      sql.exec("CREATE INDEX IF NOT EXISTS idx_file_changes_path ON file_changes(project_id, path)");
+    }
+  },
+  {
+    version: 13,
+    name: "templates",
+    up: (sql) => {
+      // Templates users saved from their projects; the files are a zip archive in R2
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS templates (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          description TEXT,
+          source_project_id TEXT,
+          size INTEGER NOT NULL,
+          file_count INTEGER NOT NULL,
+          created_at INTEGER NOT NULL
+        )
+      `);
+      sql.exec("CREATE INDEX IF NOT EXISTS idx_templates_user_id ON templates(user_id)");
+    }
+  },
+  {
+    version: 14,
+    name: "project-tags",
+    up: (sql) => {
+      // Tags are shared by everyone on the project; favorites are each member's own
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS project_tags (
+          project_id TEXT NOT NULL,
+          tag TEXT NOT NULL,
+          PRIMARY KEY (project_id, tag)
+        )
+      `);
+      sql.exec("CREATE INDEX IF NOT EXISTS idx_project_tags_tag ON project_tags(tag)");
+      addColumn(sql, "project_members", "favorite", "INTEGER NOT NULL DEFAULT 0");
+    }
+  },
+  {
+    version: 15,
+    name: "activity-log",
+    up: (sql) => {
+      // Append-only record of who changed which paths; paths is a JSON array
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS activity_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          project_id TEXT NOT NULL,
+          actor TEXT NOT NULL,
+          user_id TEXT,
+          message_id TEXT,
+          tool TEXT,
+          action TEXT NOT NULL,
+          paths TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        )
+      `);
+      sql.exec("CREATE INDEX IF NOT EXISTS idx_activity_log_project ON activity_log(project_id, id)");
+    }
+  },
+  {
+    version: 16,
+    name: "legacy-registry",
+    up: (sql) => {
+      const empty = REGISTRY_TABLES.every((table) => !sql.exec(`SELECT 1 FROM ${table} LIMIT 1`).toArray()[0]);
+      if (empty) {
+        dropRegistryTables(sql);
+      }
+    }
+  }
+];
+
+function dropRegistryTables(sql: SqlStorage): void {
+  for (const table of REGISTRY_TABLES) {
+    sql.exec(`DROP TABLE IF EXISTS ${table}`);
+  }
+}
+
+/**
+ * R2 key of a content-addressed blob. Blobs are scoped per project because
+ * their reference counts live in the project's own SQLite.
+ */
+export function blobKey(projectId: string, hash: string): string {
+  return `blobs/${projectId}/${hash}`;
 }
 
 export class ProjectManager extends DurableObject<Env> {
   private sql: SqlStorage;
+  private collabDocs = new Map<string, Y.Doc>();  // Loaded shared documents by path
+  private roles = new Map<string, { role: ProjectRole | null; expiresAt: number }>();  // By "projectId:userId"
+  private usageReport: UsageReport | null = null;  // The registry's answer to this project's last usage report
+  private pendingBlobs = new Set<UploadedBlob>();  // Uploaded by writes in progress, not yet registered
 
   constructor(state: DurableObjectState, env: Env) {
     super(state, env);
     this.sql = state.storage.sql;
 
-    // Initialize tables
-    this.sql.exec(`
-      CREATE TABLE IF NOT EXISTS projects (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        description TEXT,
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL
-      )
-    `);
-
-    // Migration: Add user_id column if it doesn't exist
-    try {
-      // Try to add the column
-      this.sql.exec(`ALTER TABLE projects ADD COLUMN user_id TEXT`);
-      console.log('[ProjectManager] Added user_id column to projects table');
-    } catch (error) {
-      // Column already exists or table doesn't exist yet, ignore
-      console.log('[ProjectManager] user_id column already exists or migration not needed');
-    }
-
-    // Update existing projects without user_id to have a default user
-    try {
-      this.sql.exec(`UPDATE projects SET user_id = 'anonymous' WHERE user_id IS NULL`);
-    } catch (error) {
-      console.log('[ProjectManager] No projects to update');
-    }
-
-    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_projects_user_id ON projects(user_id)`);
+    runMigrations(state.storage, MIGRATIONS);
 
-    this.sql.exec(`
-      CREATE TABLE IF NOT EXISTS files (
-        id TEXT PRIMARY KEY,
-        project_id TEXT NOT NULL,
-        path TEXT NOT NULL,
-        name TEXT NOT NULL,
-        type TEXT NOT NULL,
-        parent_path TEXT,
-        size INTEGER DEFAULT 0,
-        created_at INTEGER NOT NULL,
-        updated_at INTEGER NOT NULL,
-        UNIQUE(project_id, path)
-      )
-    `);
+    // Keep idle event sockets alive without waking the object
+    state.setWebSocketAutoResponse(new WebSocketRequestResponsePair("ping", "pong"));
 
-    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_files_project_id ON files(project_id)`);
-    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_files_parent_path ON files(parent_path)`);
+    // Move content written before blobs existed out of the old per-path R2 keys
+    state.blockConcurrencyWhile(() => this.migrateLegacyContent());
   }
 
   async fetch(request: Request): Promise<Response> {
@@ -84,27 +683,65 @@ export class ProjectManager extends DurableObject<Env> {
 
     // Get userId from header (set by auth middleware in server.ts)
     const userId = request.headers.get("X-User-Id");
+    const context: WriteContext = {
+      author: request.headers.get("X-Author") === "ai" ? "ai" : "user",
+      userId,
+      tool: request.headers.get("X-Author-Tool"),
+      checkpointId: request.headers.get("X-Checkpoint-Id")
+    };
 
     try {
-      if (path === "/projects" && request.method === "GET") {
-        if (!userId) {
-          return new Response(JSON.stringify({ error: "Unauthorized" }), {
-            status: 401,
-            headers: { "Content-Type": "application/json" }
-          });
-        }
-        return this.getProjects(userId);
+      // The registry the "global" instance kept before it moved to D1, which the Worker
+      // reads once and then clears. The Worker doesn't forward these routes.
+      if (path === "/registry" && request.method === "GET") {
+        return this.exportRegistry();
       }
 
-      if (path === "/projects" && request.method === "POST") {
-        if (!userId) {
-          return new Response(JSON.stringify({ error: "Unauthorized" }), {
-            status: 401,
-            headers: { "Content-Type": "application/json" }
-          });
-        }
-        const data = await request.json<{ name: string; description?: string }>();
-        return this.createProject(data, userId);
+      if (path === "/registry" && request.method === "DELETE") {
+        return this.clearRegistry();
+      }
+
+      const segments = path.split("/");
+
+      // Every route below works on one project and needs a role in it.
+      // Viewers can open files, history and the live feeds, but can't change anything.
+      if (!path.startsWith("/projects/")) {
+        return new Response("Not found", { status: 404 });
+      }
+
+      if (!userId) {
+        return new Response(JSON.stringify({ error: "Unauthorized" }), {
+          status: 401,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+
+      const isContentDelete = segments.length === 4 && segments[3] === "content" && request.method === "DELETE";
+      const role = requireAccess(
+        await this.resolveRole(segments[2], userId, isContentDelete),
+        accessForMethod(request.method)
+      );
+
+      // Per-project content routes the lifecycle operations call on each project's own instance
+      if (isContentDelete) {
+        requireAccess(role, "manage");
+        return this.deleteProjectContent(segments[2]);
+      }
+
+      // Every file with its content as NDJSON: /projects/:id/content?since=<revision>&include=<globs>&exclude=<globs>&maxSize=<bytes>
+      if (segments.length === 4 && segments[3] === "content" && request.method === "GET") {
+        const since = url.searchParams.get("since");
+        return this.getProjectContent(segments[2], {
+          since: since ? Number(since) : undefined,
+          include: globParam(url, "include"),
+          exclude: globParam(url, "exclude"),
+          maxSize: Number(url.searchParams.get("maxSize")) || undefined
+        });
+      }
+
+      if (path.startsWith("/projects/") && segments.length === 4 && segments[3] === "copy" && request.method === "POST") {
+        const data = await request.json<{ sourceProjectId: string }>();
+        return this.copyProjectContent(segments[2], data.sourceProjectId, userId);
       }
 
       // Check /files routes first (more specific)
@@ -113,42 +750,176 @@ export class ProjectManager extends DurableObject<Env> {
         return this.getFileTree(projectId);
       }
 
-      // Then check individual project route
-      if (path.startsWith("/projects/") && !path.includes("/files") && request.method === "GET") {
-        const projectId = path.split("/")[2];
-        return this.getProject(projectId);
+      // Activity log: /projects/:id/activity?actor=&userId=&action=&path=&messageId=&since=&until=&before=&limit=
+      if (segments.length === 4 && segments[3] === "activity" && request.method === "GET") {
+        return this.listActivity(segments[2], activityFilters(url));
+      }
+
+      // Version history routes: /projects/:id/versions[/:versionId[/restore]]
+      if (path.startsWith("/projects/") && path.split("/")[3] === "versions") {
+        const [, , projectId, , versionId, action] = path.split("/");
+
+        if (!versionId && request.method === "GET") {
+          const filePath = url.searchParams.get("path");
+          if (!filePath) {
+            return Response.json({ error: "path query parameter is required" }, { status: 400 });
+          }
+          return this.listVersions(projectId, normalizePath(filePath));
+        }
+
+        if (versionId && !action && request.method === "GET") {
+          return this.getVersion(projectId, versionId);
+        }
+
+        if (versionId && action === "restore" && request.method === "POST") {
+          return this.restoreVersion(projectId, versionId, context);
+        }
+      }
+
+      // Checkpoint routes: /projects/:id/checkpoints[/:checkpointId/restore]
+      if (path.startsWith("/projects/") && path.split("/")[3] === "checkpoints") {
+        const [, , projectId, , checkpointId, action] = path.split("/");
+
+        if (!checkpointId && request.method === "GET") {
+          return this.listCheckpoints(projectId);
+        }
+
+        if (!checkpointId && request.method === "POST") {
+          const data = await request.json<{ id: string }>();
+          return this.createCheckpoint(projectId, data.id);
+        }
+
+        if (checkpointId && action === "restore" && request.method === "POST") {
+          return this.restoreCheckpoint(projectId, checkpointId, context);
+        }
+      }
+
+      // Raw byte routes for binary-safe download and upload: /projects/:id/raw/<path>
+      if (path.startsWith("/projects/") && path.split("/")[3] === "raw") {
+        const [, , projectId] = segments;
+        const filePath = routePath(segments);
+
+        if (request.method === "GET") {
+          return this.getRawFile(projectId, filePath);
+        }
+
+        if (request.method === "PUT") {
+          return this.putRawFile(projectId, filePath, await request.arrayBuffer(), context);
+        }
+      }
+
+      // Live change feed: /projects/:id/events upgrades to a WebSocket
+      if (path.startsWith("/projects/") && segments.length === 4 && segments[3] === "events") {
+        if (request.headers.get("Upgrade") !== "websocket") {
+          return new Response("Expected a WebSocket upgrade", { status: 426 });
+        }
+        return this.acceptEvents();
+      }
+
+      // Collaborative editing of one file: /projects/:id/collab?path=<path> upgrades to a WebSocket
+      if (path.startsWith("/projects/") && segments.length === 4 && segments[3] === "collab") {
+        if (request.headers.get("Upgrade") !== "websocket") {
+          return new Response("Expected a WebSocket upgrade", { status: 426 });
+        }
+        const filePath = url.searchParams.get("path");
+        if (!filePath) {
+          return Response.json({ error: "path query parameter is required" }, { status: 400 });
+        }
+        return this.acceptCollab(segments[2], normalizePath(filePath), userId, role);
+      }
+
+      // Full-text and regex search: /projects/:id/search?q=<query>&regex=1&caseSensitive=1&wholeWord=1&include=<globs>&exclude=<globs>&maxResults=<n>
+      if (path.startsWith("/projects/") && segments.length === 4 && segments[3] === "search" && request.method === "GET") {
+        const query = url.searchParams.get("q");
+        if (!query) {
+          return Response.json({ error: "q query parameter is required" }, { status: 400 });
+        }
+        return this.searchFiles(segments[2], {
+          query,
+          regex: url.searchParams.get("regex") === "1",
+          caseSensitive: url.searchParams.get("caseSensitive") === "1",
+          wholeWord: url.searchParams.get("wholeWord") === "1",
+          include: globParam(url, "include"),
+          exclude: globParam(url, "exclude"),
+          maxResults: Number(url.searchParams.get("maxResults")) || undefined
+        });
+      }
+
+      // Trash routes: /projects/:id/trash[/:trashId[/restore]]
+      if (path.startsWith("/projects/") && segments[3] === "trash") {
+        const [, , projectId, , trashId, action] = segments;
+
+        if (!trashId && request.method === "GET") {
+          return this.listTrash(projectId);
+        }
+
+        if (!trashId && request.method === "DELETE") {
+          return this.emptyTrash(projectId);
+        }
+
+        if (trashId && action === "restore" && request.method === "POST") {
+          return this.restoreTrashItem(projectId, trashId, context);
+        }
+
+        if (trashId && !action && request.method === "DELETE") {
+          return this.purgeTrashItem(projectId, trashId);
+        }
+      }
+
+      if (path.startsWith("/projects/") && segments.length === 4 && segments[3] === "export" && request.method === "GET") {
+        return this.exportProject(segments[2]);
       }
 
       if (path.startsWith("/projects/") && path.includes("/files/") && request.method === "GET") {
-        const parts = path.split("/files/");
-        const projectId = parts[0].split("/")[2];
-        const filePath = parts[1];
-        return this.getFile(projectId, filePath);
+        return this.getFile(segments[2], routePath(segments));
       }
 
       if (path.startsWith("/projects/") && path.endsWith("/files") && request.method === "POST") {
         const projectId = path.split("/")[2];
         const data = await request.json<FileNode>();
-        return this.createFile(projectId, data);
+        return this.createFile(projectId, data, context);
+      }
+
+      // Batch writes: many creates, updates and deletes applied all-or-nothing
+      if (path.startsWith("/projects/") && path.endsWith("/files/batch") && request.method === "POST") {
+        const projectId = path.split("/")[2];
+        const data = await request.json<{ operations: BatchOperation[] }>();
+        return this.applyBatch(projectId, data.operations, context);
+      }
+
+      // Move and rename apply to a single file or a whole directory subtree
+      if (path.startsWith("/projects/") && path.endsWith("/files/move") && request.method === "POST") {
+        const projectId = path.split("/")[2];
+        const data = await request.json<{ sourcePath: string; destinationPath: string }>();
+        return this.moveFile(projectId, normalizePath(data.sourcePath), normalizePath(data.destinationPath), context);
+      }
+
+      if (path.startsWith("/projects/") && path.endsWith("/files/rename") && request.method === "POST") {
+        const projectId = path.split("/")[2];
+        const data = await request.json<{ filePath: string; newName: string }>();
+        return this.renameFile(projectId, normalizePath(data.filePath), data.newName, context);
       }
 
       if (path.startsWith("/projects/") && path.includes("/files/") && request.method === "PUT") {
-        const parts = path.split("/files/");
-        const projectId = parts[0].split("/")[2];
-        const filePath = parts[1];
-        const data = await request.json<{ content: string }>();
-        return this.updateFile(projectId, filePath, data.content);
+        const data = await request.json<{ content: string; expectedRevision?: number }>();
+        return this.updateFile(segments[2], routePath(segments), data.content, context, data.expectedRevision);
       }
 
       if (path.startsWith("/projects/") && path.includes("/files/") && request.method === "DELETE") {
-        const parts = path.split("/files/");
-        const projectId = parts[0].split("/")[2];
-        const filePath = parts[1];
-        return this.deleteFile(projectId, filePath);
+        return this.deleteFile(segments[2], routePath(segments), context);
       }
 
       return new Response("Not found", { status: 404 });
     } catch (error) {
+      if (
+        error instanceof AuthorizationError ||
+        error instanceof QuotaExceededError ||
+        error instanceof InvalidPathError ||
+        error instanceof ProjectConfigError
+      ) {
+        return error.toResponse();
+      }
+
       console.error("ProjectManager error:", error);
       return new Response(
         JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
@@ -157,127 +928,371 @@ export class ProjectManager extends DurableObject<Env> {
     }
   }
 
-  private async getProjects(userId: string): Promise<Response> {
-    const projects = this.sql.exec<Project>(
-      "SELECT * FROM projects WHERE user_id = ? ORDER BY updated_at DESC",
-      userId
-    );
-    return Response.json(projects.toArray());
+  /**
+   * The user's role in a project. Memberships live in the registry in D1; project
+   * instances look them up there and cache the answer briefly.
+   * Projects in the trash have no members unless `includeTrashed` is set.
+   */
+  private async resolveRole(projectId: string, userId: string, includeTrashed = false): Promise<ProjectRole | null> {
+    const key = `${projectId}:${userId}:${includeTrashed}`;
+    const cached = this.roles.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.role;
+    }
+
+    const role = await getProjectRole(this.env, projectId, userId, includeTrashed);
+    this.roles.set(key, { role, expiresAt: Date.now() + ROLE_CACHE_MS });
+    return role;
   }
 
-  private async createProject(data: { name: string; description?: string }, userId: string): Promise<Response> {
-    const id = crypto.randomUUID();
-    const now = Date.now();
+  /**
+   * Every row of the registry tables. Only the "global" instance has any, and only
+   * until they're cleared; everywhere else the tables are gone.
+   */
+  private exportRegistry(): Response {
+    const rows = <T>(table: string): T[] => {
+      const exists = this.sql.exec("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?", table).toArray()[0];
+      return exists ? this.sql.exec<T & Record<string, SqlStorageValue>>(`SELECT * FROM ${table}`).toArray() : [];
+    };
 
-    this.sql.exec(
-      "INSERT INTO projects (id, name, description, user_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)",
-      id,
-      data.name,
-      data.description || null,
-      userId,
-      now,
-      now
-    );
+    const registry: LegacyRegistry = {
+      projects: rows("projects"),
+      members: rows("project_members"),
+      tags: rows("project_tags"),
+      usage: rows("project_usage"),
+      templates: rows("templates")
+    };
+    return Response.json(registry);
+  }
 
-    const project = this.sql.exec<Project>("SELECT * FROM projects WHERE id = ?", id).toArray()[0];
-    if (!project) {
-      return new Response("Project not found", { status: 404 });
-    }
-    return Response.json(project);
+  private clearRegistry(): Response {
+    this.ctx.storage.transactionSync(() => dropRegistryTables(this.sql));
+
+    console.log("[Registry] Dropped the registry tables after their move to D1");
+
+    return Response.json({ success: true });
   }
 
-  private async getProject(projectId: string): Promise<Response> {
-    const project = this.sql.exec<Project>("SELECT * FROM projects WHERE id = ?", projectId).toArray()[0];
+  private async deleteProjectContent(projectId: string): Promise<Response> {
+    this.ctx.storage.transactionSync(() => {
+      this.sql.exec("DELETE FROM files WHERE project_id = ?", projectId);
+      this.sql.exec("DELETE FROM file_versions WHERE project_id = ?", projectId);
+      this.sql.exec(
+        "DELETE FROM checkpoint_entries WHERE checkpoint_id IN (SELECT id FROM checkpoints WHERE project_id = ?)",
+        projectId
+      );
+      this.sql.exec("DELETE FROM checkpoints WHERE project_id = ?", projectId);
+      this.sql.exec(
+        "DELETE FROM trash_entries WHERE trash_id IN (SELECT id FROM trash_items WHERE project_id = ?)",
+        projectId
+      );
+      this.sql.exec("DELETE FROM trash_items WHERE project_id = ?", projectId);
+      this.sql.exec("DELETE FROM file_changes WHERE project_id = ?", projectId);
+      this.sql.exec("DELETE FROM activity_log WHERE project_id = ?", projectId);
+      // This instance only ever holds blobs and search entries for this project
+      this.sql.exec("DELETE FROM blobs");
+      this.sql.exec("DELETE FROM file_search");
+      this.sql.exec("DELETE FROM search_documents");
+    });
 
-    if (!project) {
-      return new Response("Project not found", { status: 404 });
-    }
+    await this.deletePrefix(`blobs/${projectId}/`);
 
-    return Response.json(project);
+    return Response.json({ success: true });
   }
 
-  private async getFileTree(projectId: string): Promise<Response> {
-    const files = this.sql.exec<FileNode>(
-      "SELECT * FROM files WHERE project_id = ? ORDER BY type DESC, name ASC",
-      projectId
+  /**
+   * Copy every file and directory of another project into this (new) project
+   */
+  private async copyProjectContent(projectId: string, sourceProjectId: string, userId: string): Promise<Response> {
+    if (!sourceProjectId) {
+      return Response.json({ error: "sourceProjectId is required" }, { status: 400 });
+    }
+
+    // Read the source as the user, who needs access to it as well
+    const source = this.env.ProjectManager.get(this.env.ProjectManager.idFromName(sourceProjectId));
+    const headers = { "X-User-Id": userId };
+    const treeResponse = await source.fetch(
+      new Request(`https://dummy/projects/${sourceProjectId}/files`, { headers })
     );
+    if (!treeResponse.ok) {
+      throw new Error("Failed to list source project files");
+    }
 
-    return Response.json(files.toArray());
-  }
+    const tree = await treeResponse.json<FileNode[]>();
+    const context: WriteContext = { author: "user", userId, tool: null, checkpointId: null };
 
-  private async getFile(projectId: string, filePath: string): Promise<Response> {
-    console.log(`[GetFile] projectId: ${projectId}, filePath: ${filePath}`);
+    for (const entry of tree) {
+      if (entry.type === "directory") {
+        await this.insertEntry(projectId, entry.path, "directory", "", context);
+        continue;
+      }
 
-    const file = this.sql.exec<FileNode>(
-      "SELECT * FROM files WHERE project_id = ? AND path = ?",
-      projectId,
-      filePath
-    ).toArray()[0];
+      // Raw bytes keep binary files intact
+      const raw = await source.fetch(
+        new Request(`https://dummy/projects/${sourceProjectId}/raw/${encodePath(entry.path)}`, { headers })
+      );
+      if (!raw.ok) {
+        throw new Error(`Failed to read ${entry.path} from source project`);
+      }
 
-    if (!file) {
-      console.log(`[GetFile] File not found in SQL: ${projectId}/${filePath}`);
-      return new Response("File not found", { status: 404 });
+      await this.insertEntry(projectId, entry.path, "file", await raw.arrayBuffer(), context);
     }
+    this.logActivity(projectId, "copy", tree.map((entry) => entry.path), context);
 
-    console.log(`[GetFile] File found in SQL, fetching from R2...`);
+    return Response.json({ success: true, copied: tree.length });
+  }
 
-    // Get actual content from R2
-    const r2Key = `${projectId}/${filePath}`;
-    console.log(`[GetFile] R2 key: ${r2Key}`);
-    const object = await this.env.FILES.get(r2Key);
+  /**
+   * Stream the project's files as a zip archive
+   */
+  private exportProject(projectId: string): Response {
+    const files = this.sql.exec<FileNode>(
+      "SELECT * FROM files WHERE project_id = ? ORDER BY path ASC",
+      projectId
+    ).toArray();
 
-    if (!object) {
-      console.log(`[GetFile] File content not found in R2: ${r2Key}`);
-      return new Response("File content not found", { status: 404 });
-    }
+    const bucket = this.env.FILES;
+    async function* entries(): AsyncGenerator<ZipEntry> {
+      for (const file of files) {
+        if (file.type === "directory") {
+          yield { path: file.path, content: null, modifiedAt: file.updated_at };
+          continue;
+        }
 
-    const content = await object.text();
-    console.log(`[GetFile] Content loaded from R2: ${content.length} bytes`);
+        const object = file.content_hash ? await bucket.get(blobKey(projectId, file.content_hash)) : null;
+        yield {
+          path: file.path,
+          content: new Uint8Array(object ? await object.arrayBuffer() : new ArrayBuffer(0)),
+          modifiedAt: file.updated_at
+        };
+      }
+    }
 
-    return Response.json({
-      ...file,
-      content
+    return new Response(createZipStream(entries()), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${projectId}.zip"`
+      }
     });
   }
 
-  private async createFile(projectId: string, data: FileNode): Promise<Response> {
-    const id = crypto.randomUUID();
-    const now = Date.now();
+  /**
+   * Stream the project's files with their content as newline-delimited JSON: a ContentHeader,
+   * then one ContentEntry per line. With `since`, only paths changed after that revision are
+   * sent, including deletions; a revision this object doesn't know gets the full snapshot.
+   */
+  private getProjectContent(projectId: string, options: ContentOptions): Response {
+    const revision = this.sql.exec<{ revision: number }>(
+      "SELECT COALESCE(MAX(seq), 0) AS revision FROM file_changes WHERE project_id = ?",
+      projectId
+    ).toArray()[0].revision;
+    const full = options.since === undefined || !Number.isInteger(options.since) || options.since > revision;
 
-    // Insert file metadata
-    this.sql.exec(
-      `INSERT INTO files (id, project_id, path, name, type, parent_path, size, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      id,
-      projectId,
-      data.path,
-      data.name,
-      data.type,
-      data.parent_path || null,
-      data.size || 0,
-      now,
-      now
-    );
+    // Read the rows up front so the snapshot is consistent while content downloads
+    let rows: Array<FileNode | { path: string; deleted: true }>;
+    if (full) {
+      rows = this.sql.exec<FileNode>(
+        "SELECT * FROM files WHERE project_id = ? ORDER BY path ASC",
+        projectId
+      ).toArray();
+    } else {
+      const changed = this.sql.exec<FileNode>(
+        `SELECT * FROM files WHERE project_id = ?1
+         AND path IN (SELECT path FROM file_changes WHERE project_id = ?1 AND seq > ?2)`,
+        projectId,
+        options.since
+      ).toArray();
+      const byPath = new Map(changed.map((file) => [file.path, file]));
 
-    // Create file in R2 with content (only for files, not directories)
-    if (data.type === "file") {
-      const r2Key = `${projectId}/${data.path}`;
-      const content = data.content || "";  // Use provided content or empty string
-      console.log(`[CreateFile] Uploading to R2: ${r2Key} (${content.length} bytes)`);
-      await this.env.FILES.put(r2Key, content);
+      // Paths without a file now were deleted
+      rows = this.sql.exec<{ path: string }>(
+        "SELECT path FROM file_changes WHERE project_id = ? AND seq > ? ORDER BY seq ASC",
+        projectId,
+        options.since
+      ).toArray().map(({ path }) => byPath.get(path) ?? { path, deleted: true as const });
     }
 
-    // Update project's updated_at
-    this.sql.exec("UPDATE projects SET updated_at = ? WHERE id = ?", now, projectId);
+    const entries = rows.filter((row) => matchesGlobs(row.path, options.include, options.exclude));
+    const bucket = this.env.FILES;
 
-    const file = this.sql.exec<FileNode>("SELECT * FROM files WHERE id = ?", id).toArray()[0];
-    if (!file) {
-      return new Response("File not found after creation", { status: 500 });
+    const toEntry = async (row: FileNode | { path: string; deleted: true }): Promise<ContentEntry> => {
+      if ("deleted" in row) return row;
+
+      const { content: _, ...file } = row;
+      const encoding = file.is_binary ? "base64" : "utf-8";
+      if (file.type === "directory" || !file.content_hash || (options.maxSize && file.size > options.maxSize)) {
+        return { ...file, content: null, encoding };
+      }
+
+      const object = await bucket.get(blobKey(projectId, file.content_hash));
+      if (!object) {
+        return { ...file, content: null, encoding };
+      }
+      return {
+        ...file,
+        content: file.is_binary ? encodeBase64(new Uint8Array(await object.arrayBuffer())) : await object.text(),
+        encoding
+      };
+    };
+
+    // Blobs download a few at a time, in order
+    async function* lines(): AsyncGenerator<string> {
+      yield `${JSON.stringify({ revision, full } satisfies ContentHeader)}\n`;
+      for (let i = 0; i < entries.length; i += CONTENT_FETCH_CONCURRENCY) {
+        const batch = await Promise.all(entries.slice(i, i + CONTENT_FETCH_CONCURRENCY).map(toEntry));
+        yield batch.map((entry) => `${JSON.stringify(entry)}\n`).join("");
+      }
     }
-    return Response.json(file);
-  }
 
-  private async updateFile(projectId: string, filePath: string, content: string): Promise<Response> {
+    const chunks = lines();
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(value));
+        }
+      },
+      async cancel() {
+        await chunks.return(undefined);
+      }
+    });
+
+    return new Response(stream, {
+      headers: { "Content-Type": "application/x-ndjson" }
+    });
+  }
+
+  /**
+   * Accept a client onto the project's change feed. Sockets use the hibernation API,
+   * so idle watchers don't keep the object in memory.
+   */
+  private acceptEvents(): Response {
+    const pair = new WebSocketPair();
+    this.ctx.acceptWebSocket(pair[1]);
+    pair[1].serializeAttachment({ kind: "events" } satisfies SocketAttachment);
+
+    return new Response(null, { status: 101, webSocket: pair[0] });
+  }
+
+  /**
+   * Send a change to every client on the change feed
+   */
+  private broadcast(event: FileEvent): void {
+    const message = JSON.stringify(event);
+    for (const socket of this.ctx.getWebSockets()) {
+      if (getAttachment(socket)?.kind !== "events") continue;
+      try {
+        socket.send(message);
+      } catch {
+        // The client disconnected; webSocketClose cleans up
+      }
+    }
+  }
+
+  /**
+   * Announce a committed change and keep shared documents in step with it
+   */
+  private async publish(projectId: string, event: FileEvent): Promise<void> {
+    this.broadcast(event);
+
+    if (event.type === "updated") {
+      await this.syncCollabDocument(projectId, event.file);
+    } else if (event.type === "deleted") {
+      this.closeCollabDocuments(projectId, event.path, CLOSE_FILE_DELETED, "File deleted");
+    } else if (event.type === "moved") {
+      // Editors reconnect under the new path and pick up the renamed document
+      const prefix = `${event.fromPath}/`;
+      this.sql.exec(
+        `UPDATE collab_documents SET path = ? || substr(path, ?)
+         WHERE project_id = ? AND (path = ? OR substr(path, 1, ?) = ?)`,
+        event.toPath,
+        event.fromPath.length + 1,
+        projectId,
+        event.fromPath,
+        prefix.length,
+        prefix
+      );
+      this.closeCollabDocuments(projectId, event.fromPath, 4000, "File moved");
+    }
+  }
+
+  async webSocketMessage(socket: WebSocket, message: string | ArrayBuffer): Promise<void> {
+    // The change feed is one-way and pings are answered by the auto-response
+    const attachment = getAttachment(socket);
+    if (attachment?.kind !== "collab" || typeof message === "string") return;
+
+    const doc = await this.getCollabDocument(attachment.projectId, attachment.path);
+    const decoder = decoding.createDecoder(new Uint8Array(message));
+    const messageType = decoding.readVarUint(decoder);
+
+    if (messageType === MESSAGE_SYNC) {
+      // Viewers follow along, but anything they send besides the handshake is dropped
+      if (attachment.role === "viewer" && decoding.peekVarUint(decoder) !== syncProtocol.messageYjsSyncStep1) {
+        return;
+      }
+
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      const syncType = syncProtocol.readSyncMessage(decoder, encoder, doc, socket);
+
+      if (encoding.length(encoder) > 1) {
+        socket.send(encoding.toUint8Array(encoder));
+      }
+      if (syncType !== syncProtocol.messageYjsSyncStep1) {
+        await this.scheduleCollabFlush();
+      }
+      return;
+    }
+
+    if (messageType === MESSAGE_AWARENESS) {
+      trackAwareness(attachment, decoding.readVarUint8Array(decoder));
+      socket.serializeAttachment(attachment);
+
+      for (const other of this.getCollabSockets(attachment.path)) {
+        if (other !== socket) other.send(message);
+      }
+    }
+  }
+
+  async webSocketClose(socket: WebSocket, code: number, reason: string): Promise<void> {
+    const attachment = getAttachment(socket);
+
+    // Remove the editor's cursor for everyone else
+    if (attachment?.kind === "collab" && Object.keys(attachment.clients).length > 0) {
+      const removed = Object.fromEntries(
+        Object.entries(attachment.clients).map(([clientId, { clock }]) => [clientId, { clock: clock + 1, state: "null" }])
+      );
+      const update = encodeAwareness(removed);
+      for (const other of this.getCollabSockets(attachment.path)) {
+        if (other !== socket) other.send(update);
+      }
+    }
+
+    try {
+      socket.close(code, reason);
+    } catch {
+      // Already closed, or the client went away with a code that can't be echoed (1005/1006)
+    }
+  }
+
+  async alarm(): Promise<void> {
+    await this.flushCollabDocuments();
+    await this.purgeExpiredTrash();
+    await this.scheduleTrashPurge();
+  }
+
+  /**
+   * Join an editor to the shared document of a text file
+   */
+  private async acceptCollab(
+    projectId: string,
+    filePath: string,
+    userId: string,
+    role: ProjectRole
+  ): Promise<Response> {
     const file = this.sql.exec<FileNode>(
       "SELECT * FROM files WHERE project_id = ? AND path = ?",
       projectId,
@@ -288,52 +1303,1970 @@ export class ProjectManager extends DurableObject<Env> {
       return new Response("File not found", { status: 404 });
     }
 
-    // Store content in R2
-    const r2Key = `${projectId}/${filePath}`;
-    await this.env.FILES.put(r2Key, content);
+    if (file.type === "directory" || file.is_binary) {
+      return Response.json({ error: `${filePath} can't be edited as text` }, { status: 400 });
+    }
 
-    // Update metadata
-    const now = Date.now();
-    const size = new TextEncoder().encode(content).length;
+    const doc = await this.getCollabDocument(projectId, filePath);
+
+    const pair = new WebSocketPair();
+    const socket = pair[1];
+    this.ctx.acceptWebSocket(socket);
+    socket.serializeAttachment({
+      kind: "collab",
+      projectId,
+      path: filePath,
+      userId,
+      role,
+      clients: {}
+    } satisfies SocketAttachment);
+
+    // Start the sync handshake and show the newcomer who else is here
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, MESSAGE_SYNC);
+    syncProtocol.writeSyncStep1(encoder, doc);
+    socket.send(encoding.toUint8Array(encoder));
+
+    const present: Record<string, { clock: number; state: string }> = {};
+    for (const other of this.getCollabSockets(filePath)) {
+      const attachment = getAttachment(other);
+      if (attachment?.kind === "collab") Object.assign(present, attachment.clients);
+    }
+    if (Object.keys(present).length > 0) {
+      socket.send(encodeAwareness(present));
+    }
+
+    return new Response(null, { status: 101, webSocket: pair[0] });
+  }
+
+  private getCollabSockets(filePath: string): WebSocket[] {
+    return this.ctx.getWebSockets().filter((socket) => {
+      const attachment = getAttachment(socket);
+      return attachment?.kind === "collab" && attachment.path === filePath;
+    });
+  }
+
+  /**
+   * The shared document of a file, loaded from SQLite or started from the file's content
+   */
+  private async getCollabDocument(projectId: string, filePath: string): Promise<Y.Doc> {
+    const loaded = this.collabDocs.get(filePath);
+    if (loaded) return loaded;
+
+    const doc = new Y.Doc();
+    const stored = this.sql.exec<CollabDocument>(
+      "SELECT * FROM collab_documents WHERE project_id = ? AND path = ?",
+      projectId,
+      filePath
+    ).toArray()[0];
+
+    if (stored) {
+      Y.applyUpdate(doc, new Uint8Array(stored.state));
+    } else {
+      const file = this.sql.exec<FileNode>(
+        "SELECT * FROM files WHERE project_id = ? AND path = ?",
+        projectId,
+        filePath
+      ).toArray()[0];
+      const object = file?.content_hash ? await this.env.FILES.get(blobKey(projectId, file.content_hash)) : null;
+      doc.getText(COLLAB_TEXT).insert(0, object ? await object.text() : "");
+    }
+
+    // Another message may have loaded it while we waited on R2
+    const raced = this.collabDocs.get(filePath);
+    if (raced) return raced;
+
+    doc.on("update", (update: Uint8Array, origin: unknown) => {
+      this.saveCollabDocument(projectId, filePath, doc, origin !== EXTERNAL_WRITE);
+
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      syncProtocol.writeUpdate(encoder, update);
+      const message = encoding.toUint8Array(encoder);
+
+      for (const socket of this.getCollabSockets(filePath)) {
+        if (socket !== origin) socket.send(message);
+      }
+    });
+
+    this.collabDocs.set(filePath, doc);
+    if (!stored) {
+      this.saveCollabDocument(projectId, filePath, doc, false);
+    }
+
+    return doc;
+  }
 
+  private saveCollabDocument(projectId: string, filePath: string, doc: Y.Doc, dirty: boolean): void {
+    const state = Y.encodeStateAsUpdate(doc);
     this.sql.exec(
-      "UPDATE files SET size = ?, updated_at = ? WHERE id = ?",
-      size,
-      now,
-      file.id
+      `INSERT INTO collab_documents (project_id, path, state, dirty, updated_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(project_id, path) DO UPDATE SET
+         state = excluded.state, dirty = MAX(dirty, excluded.dirty), updated_at = excluded.updated_at`,
+      projectId,
+      filePath,
+      state.buffer.slice(state.byteOffset, state.byteOffset + state.byteLength),
+      dirty ? 1 : 0,
+      Date.now()
+    );
+  }
+
+  private async scheduleCollabFlush(): Promise<void> {
+    await this.scheduleAlarm(Date.now() + COLLAB_FLUSH_INTERVAL_MS);
+  }
+
+  /**
+   * Make sure the alarm goes off by `time`. One alarm serves both collab flushes and trash purges.
+   */
+  private async scheduleAlarm(time: number): Promise<void> {
+    const alarm = await this.ctx.storage.getAlarm();
+    if (alarm === null || alarm > time) {
+      await this.ctx.storage.setAlarm(time);
+    }
+  }
+
+  /**
+   * Write edited shared documents back to their files, which stores the content
+   * in R2 and records a version like any other save. A document that fails to save
+   * stays dirty and is retried later; the others are saved regardless.
+   */
+  private async flushCollabDocuments(): Promise<void> {
+    const dirty = this.sql.exec<CollabDocument>("SELECT * FROM collab_documents WHERE dirty = 1").toArray();
+    // Several people may have edited a shared document, so the save isn't credited to one
+    const context: WriteContext = { author: "user", userId: null, tool: null, checkpointId: null };
+    let failed = 0;
+
+    for (const { project_id: projectId, path } of dirty) {
+      const file = this.sql.exec<FileNode>(
+        "SELECT * FROM files WHERE project_id = ? AND path = ?",
+        projectId,
+        path
+      ).toArray()[0];
+
+      if (!file || file.is_binary) {
+        this.sql.exec("DELETE FROM collab_documents WHERE project_id = ? AND path = ?", projectId, path);
+        continue;
+      }
+
+      try {
+        const doc = await this.getCollabDocument(projectId, path);
+        const content = doc.getText(COLLAB_TEXT).toString();
+        await this.writeContent(projectId, file, content, context);
+
+        // Edits that arrived during the write leave it dirty for the next flush
+        if (doc.getText(COLLAB_TEXT).toString() === content) {
+          this.sql.exec("UPDATE collab_documents SET dirty = 0 WHERE project_id = ? AND path = ?", projectId, path);
+        }
+        this.logActivity(projectId, "update", [path], context);
+      } catch (error) {
+        failed++;
+        console.error(`[CollabFlush] Failed to save ${path}:`, error);
+      }
+    }
+
+    if (failed > 0) {
+      await this.scheduleAlarm(Date.now() + COLLAB_FLUSH_RETRY_MS);
+    }
+    if (dirty.length > failed) {
+      console.log(`[CollabFlush] Saved ${dirty.length - failed} shared documents`);
+    }
+  }
+
+  /**
+   * Bring a shared document in line with content written outside of it (AI tools,
+   * uploads, restores), so everyone editing the file sees the change live
+   */
+  private async syncCollabDocument(projectId: string, file: FileNode): Promise<void> {
+    const stored = this.sql.exec(
+      "SELECT 1 FROM collab_documents WHERE project_id = ? AND path = ?",
+      projectId,
+      file.path
+    ).toArray()[0];
+
+    if (!stored) return;
+
+    if (file.is_binary || !file.content_hash) {
+      this.closeCollabDocuments(projectId, file.path, CLOSE_FILE_DELETED, "File is no longer text");
+      return;
+    }
+
+    const object = await this.env.FILES.get(blobKey(projectId, file.content_hash));
+    if (!object) return;
+
+    const content = await object.text();
+    const doc = await this.getCollabDocument(projectId, file.path);
+    const text = doc.getText(COLLAB_TEXT);
+
+    if (text.toString() !== content) {
+      doc.transact(() => replaceText(text, content), EXTERNAL_WRITE);
+    }
+  }
+
+  /**
+   * Drop the shared documents at or under a path and disconnect their editors
+   */
+  private closeCollabDocuments(projectId: string, path: string, code: number, reason: string): void {
+    const isUnder = (candidate: string) => candidate === path || candidate.startsWith(`${path}/`);
+
+    if (code === CLOSE_FILE_DELETED) {
+      const prefix = `${path}/`;
+      this.sql.exec(
+        "DELETE FROM collab_documents WHERE project_id = ? AND (path = ? OR substr(path, 1, ?) = ?)",
+        projectId,
+        path,
+        prefix.length,
+        prefix
+      );
+    }
+
+    for (const docPath of [...this.collabDocs.keys()]) {
+      if (isUnder(docPath)) this.collabDocs.delete(docPath);
+    }
+
+    for (const socket of this.ctx.getWebSockets()) {
+      const attachment = getAttachment(socket);
+      if (attachment?.kind === "collab" && isUnder(attachment.path)) {
+        socket.close(code, reason);
+      }
+    }
+  }
+
+  private async getFileTree(projectId: string): Promise<Response> {
+    const files = this.sql.exec<FileNode>(
+      "SELECT * FROM files WHERE project_id = ? ORDER BY type DESC, name ASC",
+      projectId
     );
 
-    this.sql.exec("UPDATE projects SET updated_at = ? WHERE id = ?", now, projectId);
+    return Response.json(files.toArray());
+  }
+
+  /**
+   * Search the text files of a project. Literal queries of three or more characters
+   * use the trigram index to find candidate files; regex and shorter queries scan
+   * all indexed content. Lines are then matched with the options applied.
+   * Binary files and files over MAX_INDEXED_FILE_SIZE aren't searched.
+   */
+  private async searchFiles(projectId: string, options: SearchOptions): Promise<Response> {
+    let matcher: RegExp;
+    try {
+      matcher = createMatcher(options);
+    } catch (error) {
+      return Response.json(
+        { error: `Invalid regular expression: ${error instanceof Error ? error.message : options.query}` },
+        { status: 400 }
+      );
+    }
+
+    await this.ensureSearchIndex(projectId);
+
+    const limit = Math.min(options.maxResults ?? DEFAULT_MAX_RESULTS, MAX_RESULTS_LIMIT);
+    const select = `SELECT files.path, file_search.content FROM file_search
+       JOIN search_documents ON search_documents.id = file_search.rowid
+       JOIN files ON files.id = search_documents.file_id`;
+    const rows = !options.regex && options.query.length >= 3
+      ? this.sql.exec<{ path: string; content: string }>(
+          `${select} WHERE file_search MATCH ? AND files.project_id = ? ORDER BY files.path`,
+          `"${options.query.replaceAll('"', '""')}"`,
+          projectId
+        )
+      : this.sql.exec<{ path: string; content: string }>(
+          `${select} WHERE files.project_id = ? ORDER BY files.path`,
+          projectId
+        );
+
+    // Look for one match past the limit to know whether results were cut off
+    const matches: SearchMatch[] = [];
+    let filesMatched = 0;
+    for (const row of rows) {
+      if (!matchesGlobs(row.path, options.include, options.exclude)) continue;
+
+      const found = findMatches(row.path, row.content, matcher, limit + 1 - matches.length);
+      if (found.length > 0) filesMatched++;
+      matches.push(...found);
+      if (matches.length > limit) break;
+    }
+
+    const result: SearchResult = {
+      matches: matches.slice(0, limit),
+      filesMatched,
+      truncated: matches.length > limit
+    };
+    return Response.json(result);
+  }
+
+  /**
+   * Index text files that aren't in the search index yet: files from before the index
+   * existed or from the legacy content migration. Runs before each search and only
+   * downloads content the first time.
+   */
+  private async ensureSearchIndex(projectId: string): Promise<void> {
+    const missing = this.sql.exec<FileNode>(
+      `SELECT files.* FROM files
+       LEFT JOIN search_documents ON search_documents.file_id = files.id
+       WHERE files.project_id = ? AND files.type = 'file' AND files.is_binary = 0
+         AND files.content_hash IS NOT NULL AND files.size <= ? AND search_documents.id IS NULL`,
+      projectId,
+      MAX_INDEXED_FILE_SIZE
+    ).toArray();
+
+    for (const file of missing) {
+      const object = file.content_hash ? await this.env.FILES.get(blobKey(projectId, file.content_hash)) : null;
+      if (!object) continue;
+
+      const text = await object.text();
+      // Skip files whose content changed while downloading; that write indexed them already
+      this.ctx.storage.transactionSync(() => {
+        const current = this.sql.exec<FileNode>("SELECT * FROM files WHERE id = ?", file.id).toArray()[0];
+        if (current?.content_hash === file.content_hash) {
+          this.indexText(file.id, text);
+        }
+      });
+    }
+
+    if (missing.length > 0) {
+      console.log(`[Search] Indexed ${missing.length} files for ${projectId}`);
+    }
+  }
+
+  private async getFile(projectId: string, filePath: string): Promise<Response> {
+    console.log(`[GetFile] projectId: ${projectId}, filePath: ${filePath}`);
+
+    const file = this.sql.exec<FileNode>(
+      "SELECT * FROM files WHERE project_id = ? AND path = ?",
+      projectId,
+      filePath
+    ).toArray()[0];
+
+    if (!file) {
+      console.log(`[GetFile] File not found in SQL: ${projectId}/${filePath}`);
+      return new Response("File not found", { status: 404 });
+    }
+
+    // Binary content can't travel as a JSON string; clients fetch it from the raw route
+    if (file.is_binary) {
+      return Response.json(file);
+    }
+
+    console.log(`[GetFile] File found in SQL, fetching from R2...`);
+
+    // Get actual content from R2
+    const object = file.content_hash ? await this.env.FILES.get(blobKey(projectId, file.content_hash)) : null;
 
-    const updatedFile = this.sql.exec<FileNode>("SELECT * FROM files WHERE id = ?", file.id).toArray()[0];
+    if (!object) {
+      console.log(`[GetFile] File content not found in R2: ${file.content_hash}`);
+      return new Response("File content not found", { status: 404 });
+    }
+
+    const content = await object.text();
+    console.log(`[GetFile] Content loaded from R2: ${content.length} bytes`);
 
     return Response.json({
-      ...updatedFile,
+      ...file,
       content
     });
   }
 
-  private async deleteFile(projectId: string, filePath: string): Promise<Response> {
+  private async getRawFile(projectId: string, filePath: string): Promise<Response> {
     const file = this.sql.exec<FileNode>(
       "SELECT * FROM files WHERE project_id = ? AND path = ?",
       projectId,
       filePath
     ).toArray()[0];
 
-    if (!file) {
+    if (!file || file.type !== "file") {
       return new Response("File not found", { status: 404 });
     }
 
-    // Delete from R2
-    const r2Key = `${projectId}/${filePath}`;
-    await this.env.FILES.delete(r2Key);
+    const object = file.content_hash ? await this.env.FILES.get(blobKey(projectId, file.content_hash)) : null;
+    if (!object) {
+      return new Response("File content not found", { status: 404 });
+    }
+
+    return new Response(object.body, {
+      headers: {
+        "Content-Type": file.mime_type || getMimeType(file.path),
+        "Content-Length": String(object.size)
+      }
+    });
+  }
+
+  /**
+   * Create or replace a file with the raw request body
+   */
+  private async putRawFile(
+    projectId: string,
+    filePath: string,
+    content: ArrayBuffer,
+    context: WriteContext
+  ): Promise<Response> {
+    const file = this.sql.exec<FileNode>(
+      "SELECT * FROM files WHERE project_id = ? AND path = ?",
+      projectId,
+      filePath
+    ).toArray()[0];
 
-    // Delete metadata
-    this.sql.exec("DELETE FROM files WHERE id = ?", file.id);
+    if (file?.type === "directory") {
+      return Response.json({ error: `${filePath} is a directory` }, { status: 400 });
+    }
 
-    // Update project
-    this.sql.exec("UPDATE projects SET updated_at = ? WHERE id = ?", Date.now(), projectId);
+    this.captureCheckpoint(projectId, context, [filePath]);
 
-    return Response.json({ success: true });
+    const savedFile = file
+      ? await this.writeContent(projectId, file, content, context)
+      : await this.insertEntry(projectId, filePath, "file", content, context);
+    this.logActivity(projectId, file ? "update" : "create", [filePath], context);
+
+    return Response.json(savedFile);
+  }
+
+  private async createFile(projectId: string, data: FileNode, context: WriteContext): Promise<Response> {
+    const path = normalizePath(data.path);
+    this.captureCheckpoint(projectId, context, [path]);
+
+    const file = await this.insertEntry(projectId, path, data.type, data.content || "", context);
+    if (!file) {
+      return new Response("File not found after creation", { status: 500 });
+    }
+    this.logActivity(projectId, "create", [path], context);
+    return Response.json(file);
+  }
+
+  /**
+   * Insert a new file or directory row, storing content as a blob and recording a version for files.
+   * Missing parent directories are created along with it.
+   */
+  private async insertEntry(
+    projectId: string,
+    path: string,
+    type: "file" | "directory",
+    content: string | ArrayBuffer,
+    context: WriteContext
+  ): Promise<FileNode> {
+    if (type === "file") {
+      await this.checkQuota(projectId, contentSize(content), 1);
+    }
+
+    // Store content as a blob (only for files, not directories)
+    const blob = type === "file" ? await this.uploadBlob(projectId, content) : null;
+
+    // Drop the uploaded object again if the path is taken
+    let created: FileNode[];
+    try {
+      created = this.ctx.storage.transactionSync(() => [
+        ...this.createParentDirectories(projectId, path, context),
+        this.insertRow(projectId, path, type, blob, context)
+      ]);
+    } catch (error) {
+      await this.discardUploads(projectId, blob ? [blob] : []);
+      throw error;
+    }
+
+    await this.recordUsage(projectId);
+
+    for (const file of created) {
+      await this.publish(projectId, { type: "created", file, author: context.author });
+    }
+    return created[created.length - 1];
+  }
+
+  /**
+   * Insert the row for a new entry whose content is already in R2, taking a reference to its blob
+   */
+  private insertRow(
+    projectId: string,
+    path: string,
+    type: "file" | "directory",
+    blob: UploadedBlob | null,
+    context: WriteContext
+  ): FileNode {
+    this.checkProjectConfig(path, blob);
+
+    const id = crypto.randomUUID();
+    const now = Date.now();
+
+    this.sql.exec(
+      `INSERT INTO files (id, project_id, path, name, type, parent_path, size, content_hash, is_binary, mime_type, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      id,
+      projectId,
+      path,
+      getFileName(path),
+      type,
+      getParentPath(path),
+      blob?.size ?? 0,
+      blob?.hash ?? null,
+      blob?.binary ? 1 : 0,
+      blob ? getMimeType(path) : null,
+      now,
+      now
+    );
+
+    if (blob) {
+      this.registerBlob(blob);
+      this.recordVersion(projectId, path, blob, context);
+      this.indexFile(id, blob);
+    }
+    this.recordChange(projectId, path);
+
+    return this.sql.exec<FileNode>("SELECT * FROM files WHERE id = ?", id).toArray()[0];
+  }
+
+  /**
+   * Insert rows for the directories above `path` that don't exist yet, outermost first.
+   * Throws an InvalidPathError if one of them is a file.
+   */
+  private createParentDirectories(projectId: string, path: string, context: WriteContext): FileNode[] {
+    const created: FileNode[] = [];
+
+    for (const ancestor of getAncestorPaths(path)) {
+      const existing = this.sql.exec<FileNode>(
+        "SELECT * FROM files WHERE project_id = ? AND path = ?",
+        projectId,
+        ancestor
+      ).toArray()[0];
+
+      if (existing?.type === "file") {
+        throw new InvalidPathError(`${ancestor} is a file, not a directory`);
+      }
+      if (!existing) {
+        this.captureCheckpoint(projectId, context, [ancestor]);
+        created.push(this.insertRow(projectId, ancestor, "directory", null, context));
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Replace a file's content. With `expectedRevision`, the write only goes through
+   * if nobody changed the file since the caller read that revision; otherwise 409
+   * with the current file, so the caller can compare, overwrite or reload.
+   */
+  private async updateFile(
+    projectId: string,
+    filePath: string,
+    content: string,
+    context: WriteContext,
+    expectedRevision?: number
+  ): Promise<Response> {
+    const file = this.sql.exec<FileNode>(
+      "SELECT * FROM files WHERE project_id = ? AND path = ?",
+      projectId,
+      filePath
+    ).toArray()[0];
+
+    if (!file) {
+      return new Response("File not found", { status: 404 });
+    }
+
+    let updatedFile: FileNode;
+    try {
+      updatedFile = await this.writeContent(projectId, file, content, context, expectedRevision);
+    } catch (error) {
+      if (!(error instanceof RevisionConflictError)) throw error;
+
+      const current = await this.getFile(projectId, filePath);
+      return Response.json(
+        { error: error.message, file: current.ok ? await current.json() : error.file },
+        { status: 409 }
+      );
+    }
+    this.logActivity(projectId, "update", [filePath], context);
+
+    return Response.json({
+      ...updatedFile,
+      content
+    });
   }
+
+  /**
+   * Store new content for an existing file, update its metadata and record a version.
+   * The row is read again after the upload, so a write that landed meanwhile is seen:
+   * it fails the `expectedRevision` check, or its blob reference is released correctly.
+   */
+  private async writeContent(
+    projectId: string,
+    file: FileNode,
+    content: string | ArrayBuffer,
+    context: WriteContext,
+    expectedRevision?: number
+  ): Promise<FileNode> {
+    await this.checkQuota(projectId, contentSize(content), 0);
+    const blob = await this.uploadBlob(projectId, content);
+
+    let updatedFile: FileNode;
+    try {
+      updatedFile = this.ctx.storage.transactionSync(() => {
+        const current = this.sql.exec<FileNode>("SELECT * FROM files WHERE id = ?", file.id).toArray()[0];
+        if (!current) {
+          throw new Error(`${file.path} was deleted`);
+        }
+        if (expectedRevision !== undefined && current.revision !== expectedRevision) {
+          throw new RevisionConflictError(current);
+        }
+
+        this.captureCheckpoint(projectId, context, [current.path]);
+        return this.updateRow(projectId, current, blob, context);
+      });
+    } catch (error) {
+      await this.discardUploads(projectId, [blob]);
+      throw error;
+    }
+
+    await this.collectGarbage(projectId);
+    await this.recordUsage(projectId);
+
+    await this.publish(projectId, { type: "updated", file: updatedFile, author: context.author });
+    return updatedFile;
+  }
+
+  /**
+   * Point an existing file at content already in R2, moving its blob reference and recording a version
+   */
+  private updateRow(projectId: string, file: FileNode, blob: UploadedBlob, context: WriteContext): FileNode {
+    this.checkProjectConfig(file.path, blob);
+
+    const now = Date.now();
+
+    this.sql.exec(
+      "UPDATE files SET size = ?, content_hash = ?, is_binary = ?, revision = revision + 1, updated_at = ? WHERE id = ?",
+      blob.size,
+      blob.hash,
+      blob.binary ? 1 : 0,
+      now,
+      file.id
+    );
+    this.registerBlob(blob);
+    this.releaseBlob(file.content_hash);
+    this.indexFile(file.id, blob);
+    this.recordChange(projectId, file.path);
+
+    this.recordVersion(projectId, file.path, blob, context);
+
+    return this.sql.exec<FileNode>("SELECT * FROM files WHERE id = ?", file.id).toArray()[0];
+  }
+
+  private async deleteFile(projectId: string, filePath: string, context: WriteContext): Promise<Response> {
+    // Match by prefix as well so children left behind by an earlier
+    // non-recursive delete can still be cleaned up through their old parent
+    const entries = this.getSubtree(projectId, filePath);
+
+    if (entries.length === 0) {
+      return new Response("File not found", { status: 404 });
+    }
+
+    const trashId = this.ctx.storage.transactionSync(() => {
+      this.captureCheckpoint(projectId, context, entries.map((entry) => entry.path));
+      return this.trashRows(projectId, filePath, entries, context);
+    });
+
+    await this.scheduleTrashPurge();
+    await this.recordUsage(projectId);
+
+    console.log(`[DeleteFile] Moved ${entries.length} entries under ${filePath} to the trash`);
+    this.logActivity(projectId, "delete", [filePath], context);
+
+    await this.publish(projectId, { type: "deleted", path: filePath, author: context.author });
+
+    return Response.json({ success: true, deleted: entries.length, trashId });
+  }
+
+  /**
+   * Delete file rows, dropping their blob references
+   */
+  private deleteRows(projectId: string, entries: FileNode[]): void {
+    for (const entry of entries) {
+      this.sql.exec("DELETE FROM files WHERE id = ?", entry.id);
+      this.releaseBlob(entry.content_hash);
+      this.unindexFile(entry.id);
+      this.recordChange(projectId, entry.path);
+    }
+  }
+
+  /**
+   * Refuse content that would leave the project's config file invalid. Restored content
+   * arrives without its text and was checked when it was first written.
+   */
+  private checkProjectConfig(path: string, blob: UploadedBlob | null): void {
+    if (path !== PROJECT_CONFIG_PATH || !blob) return;
+    if (blob.binary) {
+      throw new ProjectConfigError(["the file must be UTF-8 JSON text"]);
+    }
+    if (blob.text !== null) {
+      parseProjectConfig(blob.text);
+    }
+  }
+
+  /**
+   * Note that a path was created, changed or deleted, for incremental content loads
+   */
+  private recordChange(projectId: string, path: string): void {
+    this.sql.exec("DELETE FROM file_changes WHERE project_id = ? AND path = ?", projectId, path);
+    this.sql.exec("INSERT INTO file_changes (project_id, path) VALUES (?, ?)", projectId, path);
+  }
+
+  /**
+   * Delete file rows into the trash as one item. Trashed files keep a reference to their
+   * blob, so the content survives until the item is restored or purged.
+   */
+  private trashRows(projectId: string, path: string, entries: FileNode[], context: WriteContext): string {
+    const id = crypto.randomUUID();
+    const root = entries.find((entry) => entry.path === path);
+
+    this.sql.exec(
+      "INSERT INTO trash_items (id, project_id, path, type, author, deleted_at) VALUES (?, ?, ?, ?, ?, ?)",
+      id,
+      projectId,
+      path,
+      root?.type ?? "directory",
+      context.author,
+      Date.now()
+    );
+
+    for (const entry of entries) {
+      this.sql.exec(
+        "INSERT INTO trash_entries (trash_id, path, type, size, content_hash, is_binary) VALUES (?, ?, ?, ?, ?, ?)",
+        id,
+        entry.path,
+        entry.type,
+        entry.size,
+        entry.content_hash ?? null,
+        entry.is_binary ?? 0
+      );
+      this.retainBlob(entry.content_hash);
+    }
+
+    this.deleteRows(projectId, entries);
+    return id;
+  }
+
+  private async listTrash(projectId: string): Promise<Response> {
+    const retention = trashRetentionMs();
+    const items = this.sql.exec<Omit<TrashItem, "expires_at">>(
+      `SELECT trash_items.*, COUNT(trash_entries.path) AS entry_count, COALESCE(SUM(trash_entries.size), 0) AS size
+       FROM trash_items
+       LEFT JOIN trash_entries ON trash_entries.trash_id = trash_items.id
+       WHERE trash_items.project_id = ?
+       GROUP BY trash_items.id
+       ORDER BY trash_items.deleted_at DESC`,
+      projectId
+    ).toArray();
+
+    return Response.json(items.map((item) => ({ ...item, expires_at: item.deleted_at + retention })));
+  }
+
+  /**
+   * Put a trashed item back where it was, recreating parent directories deleted since.
+   * Fails with 409 if something else has taken one of its paths in the meantime.
+   */
+  private async restoreTrashItem(projectId: string, trashId: string, context: WriteContext): Promise<Response> {
+    const item = this.sql.exec<Pick<TrashItem, "id" | "path">>(
+      "SELECT id, path FROM trash_items WHERE id = ? AND project_id = ?",
+      trashId,
+      projectId
+    ).toArray()[0];
+
+    if (!item) {
+      return new Response("Trash item not found", { status: 404 });
+    }
+
+    const entries = this.sql.exec<TrashEntry>(
+      "SELECT * FROM trash_entries WHERE trash_id = ? ORDER BY path ASC",
+      trashId
+    ).toArray();
+
+    const taken = entries.find(
+      (entry) =>
+        this.sql.exec("SELECT 1 FROM files WHERE project_id = ? AND path = ?", projectId, entry.path).toArray()[0]
+    );
+    if (taken) {
+      return Response.json({ error: `${taken.path} already exists` }, { status: 409 });
+    }
+
+    await this.checkQuota(projectId, 0, entries.filter((entry) => entry.type === "file").length);
+
+    const restored = this.ctx.storage.transactionSync(() => {
+      const files = this.createParentDirectories(projectId, item.path, context);
+      this.captureCheckpoint(projectId, context, entries.map((entry) => entry.path));
+
+      for (const entry of entries) {
+        // The content is still in R2; the search index picks it up again on the next search
+        const blob: UploadedBlob | null =
+          entry.type === "file" && entry.content_hash
+            ? { hash: entry.content_hash, size: entry.size, binary: entry.is_binary === 1, uploaded: false, text: null }
+            : null;
+        files.push(this.insertRow(projectId, entry.path, entry.type, blob, context));
+      }
+
+      this.deleteTrashRows(trashId);
+      return files;
+    });
+
+    await this.recordUsage(projectId);
+
+    console.log(`[RestoreTrash] Restored ${entries.length} entries under ${item.path}`);
+    this.logActivity(projectId, "restore", [item.path], context);
+
+    for (const file of restored) {
+      await this.publish(projectId, { type: "created", file, author: context.author });
+    }
+
+    return Response.json({ success: true, path: item.path, restored: restored.length });
+  }
+
+  private async purgeTrashItem(projectId: string, trashId: string): Promise<Response> {
+    const item = this.sql.exec(
+      "SELECT 1 FROM trash_items WHERE id = ? AND project_id = ?",
+      trashId,
+      projectId
+    ).toArray()[0];
+
+    if (!item) {
+      return new Response("Trash item not found", { status: 404 });
+    }
+
+    this.ctx.storage.transactionSync(() => this.deleteTrashRows(trashId));
+
+    await this.collectGarbage(projectId);
+    await this.recordUsage(projectId);
+
+    return Response.json({ success: true, id: trashId });
+  }
+
+  private async emptyTrash(projectId: string): Promise<Response> {
+    const items = this.sql.exec<{ id: string }>("SELECT id FROM trash_items WHERE project_id = ?", projectId).toArray();
+
+    this.ctx.storage.transactionSync(() => {
+      for (const { id } of items) {
+        this.deleteTrashRows(id);
+      }
+    });
+
+    await this.collectGarbage(projectId);
+    await this.recordUsage(projectId);
+
+    console.log(`[EmptyTrash] Purged ${items.length} items from ${projectId}`);
+
+    return Response.json({ success: true, purged: items.length });
+  }
+
+  /**
+   * Take paths out of trash items deleted at or after `since`, because they exist again.
+   * Items left with no entries are removed; older items keep their earlier content.
+   */
+  private dropTrashedSince(projectId: string, paths: string[], since: number): void {
+    for (const path of paths) {
+      const trashed = this.sql.exec<Pick<TrashEntry, "trash_id" | "content_hash">>(
+        `SELECT e.trash_id, e.content_hash FROM trash_entries e
+         JOIN trash_items i ON i.id = e.trash_id
+         WHERE i.project_id = ? AND e.path = ? AND i.deleted_at >= ?`,
+        projectId,
+        path,
+        since
+      ).toArray();
+
+      for (const entry of trashed) {
+        this.releaseBlob(entry.content_hash);
+        this.sql.exec("DELETE FROM trash_entries WHERE trash_id = ? AND path = ?", entry.trash_id, path);
+        if (!this.sql.exec("SELECT 1 FROM trash_entries WHERE trash_id = ?", entry.trash_id).toArray()[0]) {
+          this.sql.exec("DELETE FROM trash_items WHERE id = ?", entry.trash_id);
+        }
+      }
+    }
+  }
+
+  /**
+   * Remove a trash item, dropping the blob references it held
+   */
+  private deleteTrashRows(trashId: string): void {
+    const entries = this.sql.exec<Pick<TrashEntry, "content_hash">>(
+      "SELECT content_hash FROM trash_entries WHERE trash_id = ?",
+      trashId
+    ).toArray();
+
+    for (const entry of entries) {
+      this.releaseBlob(entry.content_hash);
+    }
+
+    this.sql.exec("DELETE FROM trash_entries WHERE trash_id = ?", trashId);
+    this.sql.exec("DELETE FROM trash_items WHERE id = ?", trashId);
+  }
+
+  /**
+   * Purge trash items past the retention period
+   */
+  private async purgeExpiredTrash(): Promise<void> {
+    const expired = this.sql.exec<Pick<TrashItem, "id" | "project_id">>(
+      "SELECT id, project_id FROM trash_items WHERE deleted_at <= ?",
+      Date.now() - trashRetentionMs()
+    ).toArray();
+
+    if (expired.length === 0) return;
+
+    this.ctx.storage.transactionSync(() => {
+      for (const { id } of expired) {
+        this.deleteTrashRows(id);
+      }
+    });
+
+    for (const projectId of new Set(expired.map((item) => item.project_id))) {
+      await this.collectGarbage(projectId);
+      await this.recordUsage(projectId);
+    }
+
+    console.log(`[TrashPurge] Purged ${expired.length} expired trash items`);
+  }
+
+  /**
+   * Set the alarm for when the oldest item in the trash expires
+   */
+  private async scheduleTrashPurge(): Promise<void> {
+    const oldest = this.sql.exec<{ deleted_at: number | null }>(
+      "SELECT MIN(deleted_at) AS deleted_at FROM trash_items"
+    ).one().deleted_at;
+
+    if (oldest === null) return;
+
+    // A purge that keeps failing is retried at this pace rather than in a tight loop
+    await this.scheduleAlarm(Math.max(oldest + trashRetentionMs(), Date.now() + TRASH_PURGE_RETRY_MS));
+  }
+
+  /**
+   * Apply many create, update and delete operations all-or-nothing.
+   * New content is uploaded to R2 first; rows, versions and blob references then
+   * change in one transaction, so a failing operation leaves the project untouched.
+   */
+  private async applyBatch(
+    projectId: string,
+    requested: BatchOperation[],
+    context: WriteContext
+  ): Promise<Response> {
+    if (!Array.isArray(requested) || requested.length === 0) {
+      return Response.json({ error: "operations must be a non-empty array" }, { status: 400 });
+    }
+
+    // Every path is checked before anything is uploaded
+    const operations: BatchOperation[] = [];
+    for (const [index, operation] of requested.entries()) {
+      try {
+        operations.push({ ...operation, path: normalizePath(operation.path) });
+      } catch (error) {
+        if (!(error instanceof InvalidPathError)) throw error;
+        return Response.json({ error: error.message, index }, { status: 400 });
+      }
+    }
+
+    const writes = operations.flatMap((operation) =>
+      operation.op === "update" || (operation.op === "create" && operation.type === "file") ? [operation] : []
+    );
+    await this.checkQuota(
+      projectId,
+      writes.reduce((total, operation) => total + contentSize(operation.content ?? "", operation.encoding), 0),
+      writes.filter((operation) => operation.op === "create").length
+    );
+
+    const blobs = new Map<number, UploadedBlob>();
+    try {
+      for (const [index, operation] of operations.entries()) {
+        if (operation.op === "delete" || (operation.op === "create" && operation.type === "directory")) continue;
+
+        const content = operation.content ?? "";
+        blobs.set(
+          index,
+          await this.uploadBlob(projectId, operation.encoding === "base64" ? decodeBase64(content) : content)
+        );
+      }
+
+      const results = this.ctx.storage.transactionSync(() =>
+        operations.map((operation, index) =>
+          this.applyOperation(projectId, operation, index, blobs.get(index) ?? null, context)
+        )
+      );
+
+      await this.collectGarbage(projectId);
+      await this.scheduleTrashPurge();
+      await this.recordUsage(projectId);
+
+      console.log(`[ApplyBatch] Applied ${operations.length} operations to ${projectId}`);
+      for (const action of ["create", "update", "delete"] as const) {
+        const paths = operations.filter((operation) => operation.op === action).map((operation) => operation.path);
+        if (paths.length > 0) {
+          this.logActivity(projectId, action, paths, context);
+        }
+      }
+
+      for (const result of results) {
+        for (const file of result.parents ?? []) {
+          await this.publish(projectId, { type: "created", file, author: context.author });
+        }
+        await this.publish(
+          projectId,
+          result.file
+            ? { type: result.op === "create" ? "created" : "updated", file: result.file, author: context.author }
+            : { type: "deleted", path: result.path, author: context.author }
+        );
+      }
+
+      return Response.json({ success: true, results });
+    } catch (error) {
+      await this.discardUploads(projectId, [...blobs.values()]);
+
+      if (error instanceof BatchOperationError) {
+        return Response.json({ error: error.message, index: error.index }, { status: error.status });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Apply one batch operation against the rows as earlier operations left them.
+   * Paths are captured into the checkpoint just before they change, so a path
+   * created earlier in the batch is remembered as not having existed.
+   */
+  private applyOperation(
+    projectId: string,
+    operation: BatchOperation,
+    index: number,
+    blob: UploadedBlob | null,
+    context: WriteContext
+  ): { op: BatchOperation["op"]; path: string; file?: FileNode; parents?: FileNode[]; deleted?: number } {
+    const existing = this.sql.exec<FileNode>(
+      "SELECT * FROM files WHERE project_id = ? AND path = ?",
+      projectId,
+      operation.path
+    ).toArray()[0];
+
+    switch (operation.op) {
+      case "create": {
+        if (existing) {
+          throw new BatchOperationError(`${operation.path} already exists`, 409, index);
+        }
+
+        let parents: FileNode[];
+        try {
+          parents = this.createParentDirectories(projectId, operation.path, context);
+        } catch (error) {
+          if (!(error instanceof InvalidPathError)) throw error;
+          throw new BatchOperationError(error.message, 400, index);
+        }
+
+        this.captureCheckpoint(projectId, context, [operation.path]);
+        const file = this.insertRow(
+          projectId,
+          operation.path,
+          operation.type === "directory" ? "directory" : "file",
+          blob,
+          context
+        );
+        return { op: operation.op, path: operation.path, file, parents };
+      }
+
+      case "update": {
+        if (!existing) {
+          throw new BatchOperationError(`${operation.path} not found`, 404, index);
+        }
+        if (existing.type === "directory" || !blob) {
+          throw new BatchOperationError(`${operation.path} is a directory`, 400, index);
+        }
+        if (operation.expectedRevision !== undefined && existing.revision !== operation.expectedRevision) {
+          throw new BatchOperationError(new RevisionConflictError(existing).message, 409, index);
+        }
+        this.captureCheckpoint(projectId, context, [operation.path]);
+        const file = this.updateRow(projectId, existing, blob, context);
+        return { op: operation.op, path: operation.path, file };
+      }
+
+      case "delete": {
+        const entries = this.getSubtree(projectId, operation.path);
+        if (entries.length === 0) {
+          throw new BatchOperationError(`${operation.path} not found`, 404, index);
+        }
+        this.captureCheckpoint(projectId, context, entries.map((entry) => entry.path));
+        this.trashRows(projectId, operation.path, entries, context);
+        return { op: operation.op, path: operation.path, deleted: entries.length };
+      }
+
+      default:
+        throw new BatchOperationError(`Unknown operation: ${(operation as { op: string }).op}`, 400, index);
+    }
+  }
+
+  private async moveFile(
+    projectId: string,
+    sourcePath: string,
+    destinationPath: string,
+    context: WriteContext
+  ): Promise<Response> {
+    if (sourcePath === destinationPath) {
+      return Response.json({ error: "Source and destination are the same" }, { status: 400 });
+    }
+
+    const source = this.sql.exec<FileNode>(
+      "SELECT * FROM files WHERE project_id = ? AND path = ?",
+      projectId,
+      sourcePath
+    ).toArray()[0];
+
+    if (!source) {
+      return new Response("File not found", { status: 404 });
+    }
+
+    if (source.type === "directory" && destinationPath.startsWith(`${sourcePath}/`)) {
+      return Response.json({ error: "Cannot move a directory into itself" }, { status: 400 });
+    }
+
+    const existing = this.sql.exec<FileNode>(
+      "SELECT * FROM files WHERE project_id = ? AND path = ?",
+      projectId,
+      destinationPath
+    ).toArray()[0];
+
+    if (existing) {
+      return Response.json({ error: `${destinationPath} already exists` }, { status: 409 });
+    }
+
+    const entries = this.getSubtree(projectId, sourcePath);
+    const moves = entries.map((entry) => ({
+      entry,
+      newPath: destinationPath + entry.path.slice(sourcePath.length)
+    }));
+
+    this.captureCheckpoint(projectId, context, [
+      ...moves.map(({ entry }) => entry.path),
+      ...moves.map(({ newPath }) => newPath)
+    ]);
+
+    // Content is addressed by hash, so moving only rewrites paths
+    const now = Date.now();
+    const parents = this.ctx.storage.transactionSync(() => {
+      const created = this.createParentDirectories(projectId, destinationPath, context);
+
+      for (const { entry, newPath } of moves) {
+        this.sql.exec(
+          "UPDATE files SET path = ?, name = ?, parent_path = ?, mime_type = ?, updated_at = ? WHERE id = ?",
+          newPath,
+          getFileName(newPath),
+          getParentPath(newPath),
+          entry.type === "file" ? getMimeType(newPath) : null,
+          now,
+          entry.id
+        );
+        // History follows the file to its new path
+        this.sql.exec(
+          "UPDATE file_versions SET path = ? WHERE project_id = ? AND path = ?",
+          newPath,
+          projectId,
+          entry.path
+        );
+        this.recordChange(projectId, entry.path);
+        this.recordChange(projectId, newPath);
+      }
+      return created;
+    });
+
+    console.log(`[MoveFile] Moved ${moves.length} entries: ${sourcePath} -> ${destinationPath}`);
+    this.logActivity(projectId, "move", [sourcePath, destinationPath], context);
+
+    for (const file of parents) {
+      await this.publish(projectId, { type: "created", file, author: context.author });
+    }
+    await this.publish(projectId, {
+      type: "moved",
+      fromPath: sourcePath,
+      toPath: destinationPath,
+      author: context.author
+    });
+
+    return Response.json({
+      success: true,
+      sourcePath,
+      destinationPath,
+      moved: moves.length
+    });
+  }
+
+  private async renameFile(
+    projectId: string,
+    filePath: string,
+    newName: string,
+    context: WriteContext
+  ): Promise<Response> {
+    validateName(newName);
+
+    const parentPath = getParentPath(filePath);
+    const newPath = parentPath ? `${parentPath}/${newName}` : newName;
+
+    return this.moveFile(projectId, filePath, newPath, context);
+  }
+
+  private async listVersions(projectId: string, filePath: string): Promise<Response> {
+    const versions = this.sql.exec<FileVersion>(
+      "SELECT * FROM file_versions WHERE project_id = ? AND path = ? ORDER BY created_at DESC",
+      projectId,
+      filePath
+    );
+
+    return Response.json(versions.toArray());
+  }
+
+  private async getVersion(projectId: string, versionId: string): Promise<Response> {
+    const version = this.sql.exec<FileVersion>(
+      "SELECT * FROM file_versions WHERE project_id = ? AND id = ?",
+      projectId,
+      versionId
+    ).toArray()[0];
+
+    if (!version) {
+      return new Response("Version not found", { status: 404 });
+    }
+
+    const object = await this.env.FILES.get(blobKey(projectId, version.content_hash));
+    if (!object) {
+      return new Response("Version content not found", { status: 404 });
+    }
+
+    const bytes = new Uint8Array(await object.arrayBuffer());
+    const binary = isBinaryContent(bytes);
+
+    return Response.json({
+      ...version,
+      is_binary: binary ? 1 : 0,
+      content: binary ? null : new TextDecoder().decode(bytes)
+    });
+  }
+
+  /**
+   * Write a previous version back as the file's current content.
+   * The restore itself is recorded as a new version, so it can be undone too.
+   * Restoring a version of a deleted file recreates the file.
+   */
+  private async restoreVersion(projectId: string, versionId: string, context: WriteContext): Promise<Response> {
+    const version = this.sql.exec<FileVersion>(
+      "SELECT * FROM file_versions WHERE project_id = ? AND id = ?",
+      projectId,
+      versionId
+    ).toArray()[0];
+
+    if (!version) {
+      return new Response("Version not found", { status: 404 });
+    }
+
+    const object = await this.env.FILES.get(blobKey(projectId, version.content_hash));
+    if (!object) {
+      return new Response("Version content not found", { status: 404 });
+    }
+
+    const content = await object.arrayBuffer();
+
+    const file = this.sql.exec<FileNode>(
+      "SELECT * FROM files WHERE project_id = ? AND path = ?",
+      projectId,
+      version.path
+    ).toArray()[0];
+
+    this.captureCheckpoint(projectId, context, [version.path]);
+
+    const restoredFile = file
+      ? await this.writeContent(projectId, file, content, context)
+      : await this.insertEntry(projectId, version.path, "file", content, context);
+    this.logActivity(projectId, "restore", [version.path], context);
+
+    return Response.json({
+      ...restoredFile,
+      content: restoredFile.is_binary ? undefined : new TextDecoder().decode(content)
+    });
+  }
+
+  private recordVersion(
+    projectId: string,
+    filePath: string,
+    blob: { hash: string; size: number },
+    context: WriteContext
+  ): void {
+    this.sql.exec(
+      `INSERT INTO file_versions (id, project_id, path, author, tool, size, content_hash, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      crypto.randomUUID(),
+      projectId,
+      filePath,
+      context.author,
+      context.tool,
+      blob.size,
+      blob.hash,
+      Date.now()
+    );
+    this.retainBlob(blob.hash);
+
+    const pruned = this.sql.exec<FileVersion>(
+      `SELECT * FROM file_versions WHERE project_id = ? AND path = ?
+       ORDER BY created_at DESC LIMIT -1 OFFSET ?`,
+      projectId,
+      filePath,
+      MAX_VERSIONS_PER_FILE
+    ).toArray();
+
+    for (const version of pruned) {
+      this.sql.exec("DELETE FROM file_versions WHERE id = ?", version.id);
+      this.releaseBlob(version.content_hash);
+    }
+  }
+
+  /**
+   * Append an entry to the activity log. AI entries keep the chat message of their
+   * turn, so the IDE can link them back to the conversation.
+   */
+  private logActivity(projectId: string, action: ActivityAction, paths: string[], context: WriteContext): void {
+    this.sql.exec(
+      `INSERT INTO activity_log (project_id, actor, user_id, message_id, tool, action, paths, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      projectId,
+      context.author,
+      context.userId,
+      context.author === "ai" || action === "undo" ? context.checkpointId : null,
+      context.author === "ai" ? context.tool : null,
+      action,
+      JSON.stringify(paths),
+      Date.now()
+    );
+  }
+
+  private listActivity(projectId: string, filters: ActivityFilters): Response {
+    const conditions = ["project_id = ?"];
+    const params: SqlStorageValue[] = [projectId];
+
+    const equal = { actor: filters.actor, user_id: filters.userId, action: filters.action, message_id: filters.messageId };
+    for (const [column, value] of Object.entries(equal)) {
+      if (value !== null) {
+        conditions.push(`${column} = ?`);
+        params.push(value);
+      }
+    }
+    if (filters.path) {
+      conditions.push(
+        "EXISTS (SELECT 1 FROM json_each(activity_log.paths) WHERE value = ? OR substr(value, 1, ?) = ?)"
+      );
+      params.push(filters.path, filters.path.length + 1, `${filters.path}/`);
+    }
+    if (filters.since !== null) {
+      conditions.push("created_at >= ?");
+      params.push(filters.since);
+    }
+    if (filters.until !== null) {
+      conditions.push("created_at < ?");
+      params.push(filters.until);
+    }
+    if (filters.before !== null) {
+      conditions.push("id < ?");
+      params.push(filters.before);
+    }
+
+    // One extra row tells whether there's another page
+    const rows = this.sql.exec<Omit<ActivityEntry, "paths"> & { paths: string }>(
+      `SELECT * FROM activity_log WHERE ${conditions.join(" AND ")} ORDER BY id DESC LIMIT ?`,
+      ...params,
+      filters.limit + 1
+    ).toArray();
+
+    const entries = rows.slice(0, filters.limit).map((row) => ({ ...row, paths: JSON.parse(row.paths) as string[] }));
+    const page: ActivityPage = {
+      entries,
+      nextCursor: rows.length > filters.limit ? entries[entries.length - 1].id : null
+    };
+    return Response.json(page);
+  }
+
+  private async listCheckpoints(projectId: string): Promise<Response> {
+    const checkpoints = this.sql.exec<Checkpoint>(
+      `SELECT c.*, COUNT(e.path) AS entry_count
+       FROM checkpoints c LEFT JOIN checkpoint_entries e ON e.checkpoint_id = c.id
+       WHERE c.project_id = ?
+       GROUP BY c.id
+       ORDER BY c.created_at DESC`,
+      projectId
+    );
+
+    return Response.json(checkpoints.toArray());
+  }
+
+  /**
+   * Open a checkpoint for an AI turn. Creating the same checkpoint twice keeps
+   * the first one, so a resumed turn still rolls back to the original state.
+   */
+  private async createCheckpoint(projectId: string, checkpointId: string): Promise<Response> {
+    if (!checkpointId) {
+      return Response.json({ error: "id is required" }, { status: 400 });
+    }
+
+    this.sql.exec(
+      "INSERT OR IGNORE INTO checkpoints (id, project_id, created_at) VALUES (?, ?, ?)",
+      checkpointId,
+      projectId,
+      Date.now()
+    );
+
+    const stale = this.sql.exec<{ id: string }>(
+      "SELECT id FROM checkpoints WHERE project_id = ? ORDER BY created_at DESC LIMIT -1 OFFSET ?",
+      projectId,
+      MAX_CHECKPOINTS
+    ).toArray();
+
+    for (const { id } of stale) {
+      const hashes = this.sql.exec<{ content_hash: string | null }>(
+        "SELECT content_hash FROM checkpoint_entries WHERE checkpoint_id = ?",
+        id
+      ).toArray();
+
+      for (const { content_hash } of hashes) {
+        this.releaseBlob(content_hash);
+      }
+      this.sql.exec("DELETE FROM checkpoint_entries WHERE checkpoint_id = ?", id);
+      this.sql.exec("DELETE FROM checkpoints WHERE id = ?", id);
+    }
+
+    await this.collectGarbage(projectId);
+    await this.recordUsage(projectId);
+
+    return Response.json({ success: true, id: checkpointId });
+  }
+
+  /**
+   * Remember the current state of each path the first time the AI turn touches it
+   */
+  private captureCheckpoint(projectId: string, context: WriteContext, paths: string[]): void {
+    if (!context.checkpointId) return;
+
+    const checkpoint = this.sql.exec<{ id: string }>(
+      "SELECT id FROM checkpoints WHERE id = ? AND project_id = ? AND restored_at IS NULL",
+      context.checkpointId,
+      projectId
+    ).toArray()[0];
+
+    if (!checkpoint) return;
+
+    for (const path of paths) {
+      const captured = this.sql.exec(
+        "SELECT 1 FROM checkpoint_entries WHERE checkpoint_id = ? AND path = ?",
+        checkpoint.id,
+        path
+      ).toArray()[0];
+
+      if (captured) continue;
+
+      const file = this.sql.exec<FileNode>(
+        "SELECT * FROM files WHERE project_id = ? AND path = ?",
+        projectId,
+        path
+      ).toArray()[0];
+
+      // The entry keeps the file's current blob alive, no copy needed
+      const contentHash = file?.content_hash ?? null;
+
+      this.sql.exec(
+        "INSERT INTO checkpoint_entries (checkpoint_id, path, type, existed, content_hash) VALUES (?, ?, ?, ?, ?)",
+        checkpoint.id,
+        path,
+        file?.type ?? null,
+        file ? 1 : 0,
+        contentHash
+      );
+      this.retainBlob(contentHash);
+    }
+  }
+
+  /**
+   * Put every path touched by the AI turn back the way it was before the turn.
+   * The earlier content is resolved first; rows then change and the checkpoint is
+   * marked restored in one transaction, so a failure leaves the turn in place to retry.
+   */
+  private async restoreCheckpoint(projectId: string, checkpointId: string, context: WriteContext): Promise<Response> {
+    const checkpoint = this.sql.exec<Checkpoint>(
+      "SELECT *, 0 AS entry_count FROM checkpoints WHERE id = ? AND project_id = ?",
+      checkpointId,
+      projectId
+    ).toArray()[0];
+
+    if (!checkpoint) {
+      return new Response("Checkpoint not found", { status: 404 });
+    }
+
+    if (checkpoint.restored_at) {
+      return Response.json({ error: "This turn has already been undone" }, { status: 409 });
+    }
+
+    const entries = this.sql.exec<CheckpointEntry>(
+      "SELECT * FROM checkpoint_entries WHERE checkpoint_id = ?",
+      checkpointId
+    ).toArray();
+
+    // Remove what the turn created, deepest paths first so directories are empty by the time we reach them
+    const created = entries
+      .filter((entry) => !entry.existed)
+      .sort((a, b) => b.path.length - a.path.length);
+
+    // Bring back what existed before, parents first
+    const existed = entries
+      .filter((entry) => entry.existed)
+      .sort((a, b) => a.path.length - b.path.length);
+
+    // The checkpoint still references the earlier content, so only files that are gone count as new
+    await this.checkQuota(
+      projectId,
+      0,
+      existed.filter(
+        (entry) =>
+          entry.type === "file" &&
+          !this.sql.exec("SELECT 1 FROM files WHERE project_id = ? AND path = ?", projectId, entry.path).toArray()[0]
+      ).length
+    );
+
+    const blobs = new Map<string, UploadedBlob>();
+    const events: FileEvent[] = [];
+    try {
+      for (const entry of existed) {
+        if (entry.type === "directory") continue;
+
+        const object = entry.content_hash ? await this.env.FILES.get(blobKey(projectId, entry.content_hash)) : null;
+        blobs.set(entry.path, await this.uploadBlob(projectId, object ? await object.arrayBuffer() : ""));
+      }
+
+      this.ctx.storage.transactionSync(() => {
+        for (const entry of created) {
+          const subtree = this.getSubtree(projectId, entry.path);
+          const current = subtree.find((file) => file.path === entry.path);
+          // Keep directories that now also hold files created outside this turn
+          if (!current || subtree.length > 1) continue;
+
+          this.deleteRows(projectId, [current]);
+          events.push({ type: "deleted", path: current.path, author: context.author });
+        }
+
+        for (const entry of existed) {
+          const current = this.sql.exec<FileNode>(
+            "SELECT * FROM files WHERE project_id = ? AND path = ?",
+            projectId,
+            entry.path
+          ).toArray()[0];
+          const blob = blobs.get(entry.path);
+
+          if (current && blob) {
+            this.captureCheckpoint(projectId, context, [current.path]);
+            const file = this.updateRow(projectId, current, blob, context);
+            events.push({ type: "updated", file, author: context.author });
+          } else if (!current) {
+            const recreated = [
+              ...this.createParentDirectories(projectId, entry.path, context),
+              this.insertRow(projectId, entry.path, blob ? "file" : "directory", blob ?? null, context)
+            ];
+            for (const file of recreated) {
+              events.push({ type: "created", file, author: context.author });
+            }
+            this.dropTrashedSince(projectId, recreated.map((file) => file.path), checkpoint.created_at);
+          }
+        }
+
+        this.sql.exec("UPDATE checkpoints SET restored_at = ? WHERE id = ?", Date.now(), checkpointId);
+      });
+    } catch (error) {
+      await this.discardUploads(projectId, [...blobs.values()]);
+      throw error;
+    }
+
+    await this.collectGarbage(projectId);
+    await this.recordUsage(projectId);
+
+    console.log(`[RestoreCheckpoint] Restored ${entries.length} paths for checkpoint ${checkpointId}`);
+    // Credited to the turn being undone, so its entries and the undo share a message
+    this.logActivity(
+      projectId,
+      "undo",
+      entries.map((entry) => entry.path),
+      { ...context, checkpointId }
+    );
+
+    for (const event of events) {
+      await this.publish(projectId, event);
+    }
+
+    return Response.json({ success: true, restored: entries.length });
+  }
+
+  /**
+   * What this project stores: blob bytes (current content plus history) and files.
+   * Preview bytes are the BuildRunner's figure from the last report.
+   */
+  private getUsage(projectId: string): StorageUsage {
+    const { fileBytes } = this.sql.exec<{ fileBytes: number }>(
+      "SELECT COALESCE(SUM(size), 0) AS fileBytes FROM blobs"
+    ).toArray()[0];
+    const { fileCount } = this.sql.exec<{ fileCount: number }>(
+      "SELECT COUNT(*) AS fileCount FROM files WHERE project_id = ? AND type = 'file'",
+      projectId
+    ).toArray()[0];
+
+    return { fileBytes, fileCount, previewBytes: this.usageReport?.project.previewBytes ?? 0 };
+  }
+
+  /**
+   * Refuse a write of `bytes` of new content adding `files` files when it would take the
+   * project, or the user it counts against, over a limit. Runs before anything is uploaded.
+   */
+  private async checkQuota(projectId: string, bytes: number, files: number): Promise<void> {
+    const limits = getStorageLimits();
+    const usage = this.getUsage(projectId);
+
+    if (files > 0 && usage.fileCount + files > limits.projectFiles) {
+      throw new QuotaExceededError(
+        `This project has reached its limit of ${limits.projectFiles} files (${usage.fileCount} stored)`
+      );
+    }
+    if (usage.fileBytes + bytes > limits.projectBytes) {
+      throw new QuotaExceededError(
+        `This project is out of storage (${formatBytes(usage.fileBytes)} of ${formatBytes(limits.projectBytes)} used)`
+      );
+    }
+
+    this.usageReport ??= await reportUsage(this.env, projectId, { fileBytes: usage.fileBytes, fileCount: usage.fileCount });
+    checkUserQuota(this.usageReport, usage, bytes);
+  }
+
+  /**
+   * Report this project's file usage to the registry after a write. Failures are only
+   * logged, since the write itself has already gone through.
+   */
+  private async recordUsage(projectId: string): Promise<void> {
+    const { fileBytes, fileCount } = this.getUsage(projectId);
+    try {
+      this.usageReport = await reportUsage(this.env, projectId, { fileBytes, fileCount });
+    } catch (error) {
+      console.error("[RecordUsage] Failed to report storage usage:", error);
+    }
+  }
+
+  /**
+   * Store content under its SHA-256 hash and take a reference to it for the caller
+   */
+  private async storeBlob(projectId: string, content: string | ArrayBuffer): Promise<UploadedBlob> {
+    const blob = await this.uploadBlob(projectId, content);
+    this.registerBlob(blob);
+    return blob;
+  }
+
+  /**
+   * Put content in R2 under its SHA-256 hash without referencing it yet.
+   * Identical content is uploaded once per project. Strings are always text;
+   * raw bytes are binary unless they decode as UTF-8.
+   */
+  private async uploadBlob(projectId: string, content: string | ArrayBuffer): Promise<UploadedBlob> {
+    const bytes = typeof content === "string" ? new TextEncoder().encode(content) : new Uint8Array(content);
+    const hash = await hashContent(bytes);
+
+    // A row nothing refers to anymore is garbage whose object may be deleted at any time
+    const existing = this.sql.exec(
+      "SELECT 1 FROM blobs WHERE hash = ? AND ref_count > 0",
+      hash
+    ).toArray()[0];
+
+    const binary = typeof content !== "string" && isBinaryContent(bytes);
+    const blob: UploadedBlob = {
+      hash,
+      size: bytes.length,
+      binary,
+      uploaded: !existing,
+      text: binary ? null : typeof content === "string" ? content : new TextDecoder().decode(bytes)
+    };
+
+    // Held back from garbage collection until registerBlob or discardUploads
+    this.pendingBlobs.add(blob);
+    if (!existing) {
+      console.log(`[StoreBlob] Uploading to R2: ${hash} (${bytes.length} bytes)`);
+      try {
+        await this.env.FILES.put(blobKey(projectId, hash), bytes);
+      } catch (error) {
+        this.pendingBlobs.delete(blob);
+        throw error;
+      }
+    }
+
+    return blob;
+  }
+
+  /**
+   * Take a reference to uploaded content, creating its blob row the first time
+   */
+  private registerBlob(blob: UploadedBlob): void {
+    this.pendingBlobs.delete(blob);
+    this.sql.exec(
+      `INSERT INTO blobs (hash, size, ref_count, created_at) VALUES (?, ?, 1, ?)
+       ON CONFLICT(hash) DO UPDATE SET ref_count = ref_count + 1`,
+      blob.hash,
+      blob.size,
+      Date.now()
+    );
+  }
+
+  /**
+   * Put a file's new content in the search index, or take it out if it's binary or too large
+   */
+  private indexFile(fileId: string, blob: UploadedBlob): void {
+    if (blob.text === null || blob.size > MAX_INDEXED_FILE_SIZE) {
+      this.unindexFile(fileId);
+      return;
+    }
+    this.indexText(fileId, blob.text);
+  }
+
+  private indexText(fileId: string, text: string): void {
+    this.sql.exec("INSERT INTO search_documents (file_id) VALUES (?) ON CONFLICT(file_id) DO NOTHING", fileId);
+    const document = this.sql.exec<{ id: number }>("SELECT id FROM search_documents WHERE file_id = ?", fileId).toArray()[0];
+
+    this.sql.exec("DELETE FROM file_search WHERE rowid = ?", document.id);
+    this.sql.exec("INSERT INTO file_search (rowid, content) VALUES (?, ?)", document.id, text);
+  }
+
+  private unindexFile(fileId: string): void {
+    const document = this.sql.exec<{ id: number }>("SELECT id FROM search_documents WHERE file_id = ?", fileId).toArray()[0];
+    if (!document) return;
+
+    this.sql.exec("DELETE FROM file_search WHERE rowid = ?", document.id);
+    this.sql.exec("DELETE FROM search_documents WHERE id = ?", document.id);
+  }
+
+  /**
+   * Delete objects a failed write uploaded, unless another write has referenced them
+   * since or is still on its way to
+   */
+  private async discardUploads(projectId: string, blobs: UploadedBlob[]): Promise<void> {
+    await this.ctx.blockConcurrencyWhile(async () => {
+      for (const blob of blobs) {
+        this.pendingBlobs.delete(blob);
+      }
+      const orphaned = blobs.filter(
+        (blob) =>
+          blob.uploaded &&
+          !this.isPending(blob.hash) &&
+          !this.sql.exec("SELECT 1 FROM blobs WHERE hash = ?", blob.hash).toArray()[0]
+      );
+      await this.deleteContent(orphaned.map((blob) => blobKey(projectId, blob.hash)));
+    });
+  }
+
+  private retainBlob(hash: string | null | undefined): void {
+    if (!hash) return;
+    this.sql.exec("UPDATE blobs SET ref_count = ref_count + 1 WHERE hash = ?", hash);
+  }
+
+  private releaseBlob(hash: string | null | undefined): void {
+    if (!hash) return;
+    this.sql.exec("UPDATE blobs SET ref_count = ref_count - 1 WHERE hash = ?", hash);
+  }
+
+  private isPending(hash: string): boolean {
+    for (const blob of this.pendingBlobs) {
+      if (blob.hash === hash) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Delete blobs nothing refers to anymore, except content a write in progress has
+   * uploaded and not yet registered. Runs with other requests held back, so none of
+   * them can take a reference between the check and the delete.
+   */
+  private async collectGarbage(projectId: string): Promise<void> {
+    await this.ctx.blockConcurrencyWhile(async () => {
+      const unreferenced = this.sql.exec<{ hash: string }>(
+        "SELECT hash FROM blobs WHERE ref_count <= 0"
+      ).toArray().filter(({ hash }) => !this.isPending(hash));
+
+      if (unreferenced.length === 0) return;
+
+      await this.deleteContent(unreferenced.map(({ hash }) => blobKey(projectId, hash)));
+      for (const { hash } of unreferenced) {
+        this.sql.exec("DELETE FROM blobs WHERE hash = ?", hash);
+      }
+
+      console.log(`[CollectGarbage] Deleted ${unreferenced.length} unreferenced blobs`);
+    });
+  }
+
+  /**
+   * Files written before blobs existed kept their content at `${projectId}/${path}`.
+   * Store each one as a blob and drop the old key.
+   */
+  private async migrateLegacyContent(): Promise<void> {
+    const legacy = this.sql.exec<FileNode>(
+      "SELECT * FROM files WHERE type = 'file' AND content_hash IS NULL"
+    ).toArray();
+
+    for (const file of legacy) {
+      const legacyKey = `${file.project_id}/${file.path}`;
+      const object = await this.env.FILES.get(legacyKey);
+      const blob = await this.storeBlob(file.project_id, object ? await object.arrayBuffer() : "");
+
+      this.sql.exec(
+        "UPDATE files SET content_hash = ?, size = ?, is_binary = ?, mime_type = ? WHERE id = ?",
+        blob.hash,
+        blob.size,
+        blob.binary ? 1 : 0,
+        getMimeType(file.path),
+        file.id
+      );
+      await this.env.FILES.delete(legacyKey);
+    }
+
+    if (legacy.length > 0) {
+      console.log(`[ProjectManager] Migrated ${legacy.length} files to blob storage`);
+    }
+  }
+
+  /**
+   * Delete R2 objects in batches (R2 accepts at most 1000 keys per call)
+   */
+  private async deleteContent(keys: string[]): Promise<void> {
+    for (let i = 0; i < keys.length; i += 1000) {
+      await this.env.FILES.delete(keys.slice(i, i + 1000));
+    }
+  }
+
+  /**
+   * Delete every R2 object under a key prefix
+   */
+  private async deletePrefix(prefix: string): Promise<void> {
+    let cursor: string | undefined;
+    do {
+      const list = await this.env.FILES.list({ prefix, cursor });
+      await this.deleteContent(list.objects.map((object) => object.key));
+      cursor = list.truncated ? list.cursor : undefined;
+    } while (cursor);
+  }
+
+  /**
+   * Returns the entry at `path` followed by every entry nested below it
+   */
+  private getSubtree(projectId: string, path: string): FileNode[] {
+    const prefix = `${path}/`;
+    return this.sql.exec<FileNode>(
+      "SELECT * FROM files WHERE project_id = ? AND (path = ? OR substr(path, 1, ?) = ?) ORDER BY path ASC",
+      projectId,
+      path,
+      prefix.length,
+      prefix
+    ).toArray();
+  }
+}
+
+function getAttachment(socket: WebSocket): SocketAttachment | null {
+  return socket.deserializeAttachment() as SocketAttachment | null;
+}
+
+/**
+ * Record the clock and state of each awareness client in an update, as sent by y-protocols
+ */
+function trackAwareness(attachment: Extract<SocketAttachment, { kind: "collab" }>, update: Uint8Array): void {
+  const decoder = decoding.createDecoder(update);
+  const count = decoding.readVarUint(decoder);
+
+  for (let i = 0; i < count; i++) {
+    const clientId = decoding.readVarUint(decoder);
+    const clock = decoding.readVarUint(decoder);
+    const state = decoding.readVarString(decoder);
+
+    if (state === "null") {
+      delete attachment.clients[clientId];
+    } else {
+      attachment.clients[clientId] = { clock, state };
+    }
+  }
+}
+
+/**
+ * Encode awareness client states as a complete awareness message
+ */
+function encodeAwareness(clients: Record<string, { clock: number; state: string }>): Uint8Array {
+  const update = encoding.createEncoder();
+  const entries = Object.entries(clients);
+  encoding.writeVarUint(update, entries.length);
+  for (const [clientId, { clock, state }] of entries) {
+    encoding.writeVarUint(update, Number(clientId));
+    encoding.writeVarUint(update, clock);
+    encoding.writeVarString(update, state);
+  }
+
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+  encoding.writeVarUint8Array(encoder, encoding.toUint8Array(update));
+  return encoding.toUint8Array(encoder);
+}
+
+/**
+ * The file path after /projects/:id/<route>/ in a request path, decoded and normalized
+ */
+function routePath(segments: string[]): string {
+  return decodePath(segments.slice(4).join("/"));
+}
+
+/**
+ * Filters and page of an activity request. Unknown actors and actions are ignored.
+ */
+function activityFilters(url: URL): ActivityFilters {
+  const params = url.searchParams;
+  const actions: ActivityAction[] = ["create", "update", "delete", "move", "restore", "undo", "copy"];
+  const actor = params.get("actor");
+  const action = params.get("action") as ActivityAction | null;
+  const path = params.get("path")?.trim();
+  const number = (name: string): number | null => {
+    const value = Number.parseInt(params.get(name) ?? "", 10);
+    return Number.isFinite(value) ? value : null;
+  };
+  const limit = number("limit");
+
+  return {
+    actor: actor === "user" || actor === "ai" ? actor : null,
+    userId: params.get("userId") || null,
+    action: action && actions.includes(action) ? action : null,
+    path: path ? normalizePath(path) : null,
+    messageId: params.get("messageId") || null,
+    since: number("since"),
+    until: number("until"),
+    before: number("before"),
+    limit: limit && limit > 0 ? Math.min(limit, MAX_ACTIVITY_PAGE_SIZE) : MAX_ACTIVITY_PAGE_SIZE
+  };
+}
+
+/**
+ * Comma-separated globs from a query parameter
+ */
+function globParam(url: URL, name: string): string[] {
+  return url.searchParams.get(name)?.split(",").map((glob) => glob.trim()).filter(Boolean) ?? [];
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function decodeBase64(content: string): ArrayBuffer {
+  const binary = atob(content);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+/**
+ * Size in bytes of content as it will be stored; base64 is estimated from its length
+ */
+function contentSize(content: string | ArrayBuffer, encoding?: "utf-8" | "base64"): number {
+  if (typeof content !== "string") return content.byteLength;
+  if (encoding === "base64") return Math.floor((content.length * 3) / 4);
+  return new TextEncoder().encode(content).length;
+}
+
+async function hashContent(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes as BufferSource);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
 }
@@ -0,0 +1,86 @@
+/**
+ * Storage quotas shared by the ProjectManager, the BuildRunner and git clone.
+ * Usage of each project is recorded in the project registry in D1 and counted against
+ * the user who created the project: files (including version history) and previews.
+ */
+
+export type StorageUsage = {
+  fileBytes: number;  // Content in R2, including versions and checkpoints
+  fileCount: number;
+  previewBytes: number;
+};
+
+export interface StorageLimits {
+  projectBytes: number;  // File content per project
+  projectFiles: number;  // Files (not directories) per project
+  previewBytes: number;  // Deployed previews per project
+  userBytes: number;  // Files and previews across all projects a user created
+}
+
+/**
+ * A project's usage with the totals of the user it counts against, as the registry last saw them
+ */
+export interface UsageReport {
+  project: StorageUsage;
+  owner: StorageUsage;
+  limits: StorageLimits;
+}
+
+const MB = 1024 * 1024;
+
+const DEFAULT_LIMITS: StorageLimits = {
+  projectBytes: 200 * MB,
+  projectFiles: 10_000,
+  previewBytes: 100 * MB,
+  userBytes: 1024 * MB
+};
+
+/**
+ * Limits from the environment (MAX_PROJECT_BYTES, MAX_PROJECT_FILES, MAX_PREVIEW_BYTES
+ * and MAX_USER_BYTES), falling back to the defaults above
+ */
+export function getStorageLimits(): StorageLimits {
+  const read = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+
+  return {
+    projectBytes: read("MAX_PROJECT_BYTES", DEFAULT_LIMITS.projectBytes),
+    projectFiles: read("MAX_PROJECT_FILES", DEFAULT_LIMITS.projectFiles),
+    previewBytes: read("MAX_PREVIEW_BYTES", DEFAULT_LIMITS.previewBytes),
+    userBytes: read("MAX_USER_BYTES", DEFAULT_LIMITS.userBytes)
+  };
+}
+
+/**
+ * Thrown when a write would take a project or user over a limit
+ */
+export class QuotaExceededError extends Error {
+  toResponse(): Response {
+    return Response.json({ error: this.message, code: "quota_exceeded" }, { status: 413 });
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * MB) return `${(bytes / MB).toFixed(1)} MB`;
+  return `${(bytes / (1024 * MB)).toFixed(2)} GB`;
+}
+
+/**
+ * Check that the owner of a project can store `bytes` more, given their totals in `report`
+ * and this project's current usage (which may be newer than the report)
+ */
+export function checkUserQuota(report: UsageReport, current: StorageUsage, bytes: number): void {
+  const otherProjects =
+    report.owner.fileBytes + report.owner.previewBytes - report.project.fileBytes - report.project.previewBytes;
+  const total = otherProjects + current.fileBytes + current.previewBytes + bytes;
+
+  if (total > report.limits.userBytes) {
+    throw new QuotaExceededError(
+      `The project owner's storage is full (${formatBytes(total - bytes)} of ${formatBytes(report.limits.userBytes)} used)`
+    );
+  }
+}
@@ -0,0 +1,1041 @@
+/**
+ * The project registry: which projects exist, who can open them, what they store and the
+ * templates users saved. It lives in D1 and the Worker serves its routes; every project's
+ * files live in that project's own ProjectManager instance. Before the move to D1 the
+ * registry was kept by a ProjectManager instance named "global", which hands it over once.
+ */
+import { drizzle } from "drizzle-orm/d1";
+import { and, asc, count, desc, eq, exists, inArray, isNotNull, isNull, lte, or, type SQL, sql, type SQLWrapper } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import * as schema from "./db/schema";
+import { AuthorizationError, getProjectRole, requireAccess } from "./authorization";
+import { findUser, getUserProfiles } from "./lib/users";
+import { formatBytes, getStorageLimits, QuotaExceededError, type StorageUsage, type UsageReport } from "./quotas";
+import { findSavedTemplate, listBuiltinTemplates, type ProjectTemplate, templateKey } from "./templates";
+import { readZip } from "./zip";
+import type { Project, ProjectList, ProjectMember, ProjectRole, ProjectSort } from "./project-manager";
+
+interface ProjectListOptions {
+  trashed: boolean;
+  search: string;  // Matches names, descriptions and tags
+  tag: string | null;
+  favorites: boolean;
+  sort: ProjectSort;
+  order: "asc" | "desc";
+  limit: number;
+  offset: number;
+}
+
+/**
+ * What the "global" ProjectManager still holds of the registry it kept before D1
+ */
+export interface LegacyRegistry {
+  projects: (typeof schema.projects.$inferSelect)[];
+  members: (Omit<typeof schema.projectMembers.$inferSelect, "favorite"> & { favorite: number })[];
+  tags: (typeof schema.projectTags.$inferSelect)[];
+  usage: (typeof schema.projectUsage.$inferSelect)[];
+  templates: (typeof schema.templates.$inferSelect)[];
+}
+
+// Tags a project can have, and how long each can be
+const MAX_PROJECT_TAGS = 10;
+const MAX_TAG_LENGTH = 32;
+
+// Page size of project lists, unless the request asks for less
+const MAX_PROJECT_PAGE_SIZE = 100;
+
+// Each user can save this many templates of up to this size
+const MAX_TEMPLATES_PER_USER = 20;
+const MAX_TEMPLATE_BYTES = 20 * 1024 * 1024;
+
+// Deleted files and projects stay in the trash this many days, unless TRASH_RETENTION_DAYS says otherwise
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// D1 binds at most this many values in one statement, and runs at most this many statements in one batch
+const MAX_BOUND_PARAMETERS = 100;
+const MAX_BATCH_STATEMENTS = 50;
+
+const PROJECT_ROLES: ProjectRole[] = ["owner", "editor", "viewer"];
+
+// Routes under /projects/:id the registry serves; the project's own instance serves the rest
+const PROJECT_ROUTES = ["duplicate", "favorite", "members", "restore", "role"];
+
+let legacyImport: Promise<void> | null = null;
+
+/**
+ * Serve a registry route, or return null for routes the ProjectManager instances serve.
+ * `path` is the API path without the /api prefix:
+ * /projects, /projects/:id[/duplicate|/restore|/favorite|/role|/members[/:userId]],
+ * /usage and /templates[/:templateId].
+ */
+export async function handleRegistryRequest(
+  request: Request,
+  env: Env,
+  path: string,
+  userId: string | null
+): Promise<Response | null> {
+  const segments = path.split("/");
+  const [, collection, , route] = segments;
+
+  const isRegistryRoute =
+    (collection === "usage" && segments.length === 2) ||
+    (collection === "templates" && segments.length <= 3) ||
+    (collection === "projects" && (segments.length <= 3 || PROJECT_ROUTES.includes(route)));
+  if (!isRegistryRoute) return null;
+
+  if (!userId) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+
+  try {
+    return await serveRegistryRoute(request, env, path, userId);
+  } catch (error) {
+    if (error instanceof AuthorizationError || error instanceof QuotaExceededError) {
+      return error.toResponse();
+    }
+
+    console.error("Registry error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
+
+/**
+ * Route a registry request of a signed-in user
+ */
+async function serveRegistryRoute(request: Request, env: Env, path: string, userId: string): Promise<Response> {
+  const url = new URL(request.url);
+  const segments = path.split("/");
+  const [, collection, projectId, route, memberId] = segments;
+
+  if (path === "/projects" && request.method === "GET") {
+    return Response.json(await listProjects(env, userId, projectListOptions(url)));
+  }
+
+  if (path === "/projects" && request.method === "POST") {
+    const data = await request.json<{ name: string; description?: string }>();
+    return Response.json(await createProject(env, userId, data));
+  }
+
+  // Storage used by the user's own projects, with the limits
+  if (path === "/usage" && request.method === "GET") {
+    return Response.json({ usage: await getUserUsage(env, userId), limits: getStorageLimits() });
+  }
+
+  // Template routes: /templates[/:templateId]
+  if (collection === "templates") {
+    const templateId = projectId;
+
+    if (!templateId && request.method === "GET") {
+      return listTemplates(env, userId);
+    }
+
+    if (!templateId && request.method === "POST") {
+      const data = await request.json<{ projectId: string; name: string; description?: string }>();
+      return saveTemplate(env, data, userId);
+    }
+
+    if (templateId && request.method === "GET") {
+      const template = await findSavedTemplate(env, templateId, userId);
+      return template ? Response.json(template) : new Response("Template not found", { status: 404 });
+    }
+
+    if (templateId && request.method === "DELETE") {
+      return deleteTemplate(env, templateId, userId);
+    }
+
+    return new Response("Not found", { status: 404 });
+  }
+
+  if (!projectId) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  // Role lookups for the IDE. Projects in the trash can't be opened.
+  if (route === "role" && segments.length === 4 && request.method === "GET") {
+    const role = await getProjectRole(env, projectId, userId, url.searchParams.get("trashed") === "1");
+    return role ? Response.json({ role }) : new Response("Project not found", { status: 404 });
+  }
+
+  // Membership routes: /projects/:id/members[/:userId]
+  if (route === "members" && segments.length <= 5) {
+    if (!memberId && request.method === "GET") {
+      return listMembers(env, projectId, userId);
+    }
+
+    if (!memberId && request.method === "POST") {
+      const data = await request.json<{ identifier: string; role: ProjectRole }>();
+      return inviteMember(env, projectId, data.identifier, data.role, userId);
+    }
+
+    if (memberId && request.method === "PATCH") {
+      const data = await request.json<{ role: ProjectRole }>();
+      return updateMember(env, projectId, memberId, data.role, userId);
+    }
+
+    if (memberId && request.method === "DELETE") {
+      return removeMember(env, projectId, memberId, userId);
+    }
+
+    return new Response("Not found", { status: 404 });
+  }
+
+  if (!route && request.method === "GET") {
+    requireAccess(await getProjectRole(env, projectId, userId), "read");
+    return getProject(env, projectId);
+  }
+
+  const isLifecycleRoute =
+    (!route && (request.method === "PATCH" || request.method === "DELETE")) ||
+    ((route === "duplicate" || route === "restore") && request.method === "POST") ||
+    (route === "favorite" && (request.method === "PUT" || request.method === "DELETE"));
+  if (!isLifecycleRoute || segments.length > 4) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  // A project in the trash can only be restored or deleted
+  if ((await isTrashed(env, projectId)) && route !== "restore" && request.method !== "DELETE") {
+    return new Response("Project not found", { status: 404 });
+  }
+
+  if (route === "duplicate") {
+    const data = await request.json<{ name?: string }>();
+    return duplicateProject(env, projectId, data.name, userId);
+  }
+
+  if (route === "restore") {
+    return restoreProject(env, projectId, userId);
+  }
+
+  // PUT stars the project for the user, DELETE unstars it
+  if (route === "favorite") {
+    return setFavorite(env, projectId, userId, request.method === "PUT");
+  }
+
+  if (request.method === "PATCH") {
+    const data = await request.json<{ name?: string; description?: string; tags?: string[] }>();
+    return updateProject(env, projectId, data, userId);
+  }
+
+  // Projects go to the trash first; ?permanent=1 deletes them right away
+  return deleteProject(env, projectId, userId, url.searchParams.get("permanent") === "1");
+}
+
+/**
+ * Create a project owned by the user. Its files are added through the project's own instance.
+ */
+export async function createProject(
+  env: Env,
+  userId: string,
+  data: { name: string; description?: string }
+): Promise<Project> {
+  const db = drizzle(env.DB, { schema });
+  const now = Date.now();
+  const project = {
+    id: crypto.randomUUID(),
+    name: data.name,
+    description: data.description || null,
+    user_id: userId,
+    created_at: now,
+    updated_at: now,
+    deleted_at: null
+  };
+
+  await db.batch([
+    db.insert(schema.projects).values(project),
+    db.insert(schema.projectMembers).values({ project_id: project.id, user_id: userId, role: "owner", created_at: now })
+  ]);
+
+  return toProject(project);
+}
+
+/**
+ * Delete a project with all of its files, history and previews.
+ * `userId` must be an owner; the content route of the project's instance checks it again.
+ */
+export async function purgeProject(env: Env, projectId: string, userId: string): Promise<void> {
+  // Files and blobs live in the project's own instance
+  const stub = env.ProjectManager.get(env.ProjectManager.idFromName(projectId));
+  const response = await stub.fetch(
+    new Request(`https://dummy/projects/${projectId}/content`, {
+      method: "DELETE",
+      headers: { "X-User-Id": userId }
+    })
+  );
+
+  if (!response.ok) {
+    throw new Error("Failed to delete project files");
+  }
+
+  await deletePrefix(env.FILES, `previews/${projectId}/`);
+  await deleteProjectRows(env, projectId);
+
+  console.log(`[DeleteProject] Deleted project ${projectId}`);
+}
+
+/**
+ * Delete projects that have been in the trash past the retention period, each as one
+ * of its owners. Run on a schedule by the Worker.
+ */
+export async function purgeExpiredProjects(env: Env): Promise<void> {
+  const expired = await drizzle(env.DB, { schema })
+    .select({ id: schema.projects.id, owner: sql<string>`MIN(${schema.projectMembers.user_id})` })
+    .from(schema.projects)
+    .innerJoin(
+      schema.projectMembers,
+      and(eq(schema.projectMembers.project_id, schema.projects.id), eq(schema.projectMembers.role, "owner"))
+    )
+    .where(lte(schema.projects.deleted_at, Date.now() - trashRetentionMs()))
+    .groupBy(schema.projects.id);
+
+  for (const { id, owner } of expired) {
+    try {
+      await purgeProject(env, id, owner);
+    } catch (error) {
+      console.error(`[TrashPurge] Failed to delete project ${id}:`, error);
+    }
+  }
+}
+
+/**
+ * Totals over the projects a user created, which is who their storage counts against
+ */
+export async function getUserUsage(env: Env, userId: string): Promise<StorageUsage> {
+  const [usage] = await drizzle(env.DB, { schema })
+    .select({
+      fileBytes: sql<number>`COALESCE(SUM(${schema.projectUsage.file_bytes}), 0)`,
+      fileCount: sql<number>`COALESCE(SUM(${schema.projectUsage.file_count}), 0)`,
+      previewBytes: sql<number>`COALESCE(SUM(${schema.projectUsage.preview_bytes}), 0)`
+    })
+    .from(schema.projectUsage)
+    .innerJoin(schema.projects, eq(schema.projects.id, schema.projectUsage.project_id))
+    .where(eq(schema.projects.user_id, userId));
+  return usage;
+}
+
+/**
+ * A project's usage and its owner's totals from the registry
+ */
+export async function getUsage(env: Env, projectId: string): Promise<UsageReport> {
+  const [row] = await drizzle(env.DB, { schema })
+    .select({
+      ownerId: schema.projects.user_id,
+      fileBytes: schema.projectUsage.file_bytes,
+      fileCount: schema.projectUsage.file_count,
+      previewBytes: schema.projectUsage.preview_bytes
+    })
+    .from(schema.projects)
+    .leftJoin(schema.projectUsage, eq(schema.projectUsage.project_id, schema.projects.id))
+    .where(eq(schema.projects.id, projectId));
+
+  const project: StorageUsage = {
+    fileBytes: row?.fileBytes ?? 0,
+    fileCount: row?.fileCount ?? 0,
+    previewBytes: row?.previewBytes ?? 0
+  };
+
+  return {
+    project,
+    owner: row ? await getUserUsage(env, row.ownerId) : project,
+    limits: getStorageLimits()
+  };
+}
+
+/**
+ * Record new usage figures for a project and get back the owner's totals. Only the fields
+ * given are changed. Reports arriving after the project was deleted are ignored.
+ */
+export async function reportUsage(env: Env, projectId: string, usage: Partial<StorageUsage>): Promise<UsageReport> {
+  const db = drizzle(env.DB, { schema });
+  const [project] = await db
+    .select({ id: schema.projects.id })
+    .from(schema.projects)
+    .where(eq(schema.projects.id, projectId));
+
+  if (project) {
+    const now = Date.now();
+    const figures = {
+      ...(usage.fileBytes !== undefined && { file_bytes: usage.fileBytes }),
+      ...(usage.fileCount !== undefined && { file_count: usage.fileCount }),
+      ...(usage.previewBytes !== undefined && { preview_bytes: usage.previewBytes })
+    };
+    await db
+      .insert(schema.projectUsage)
+      .values({ project_id: projectId, ...figures, updated_at: now })
+      .onConflictDoUpdate({ target: schema.projectUsage.project_id, set: { ...figures, updated_at: now } });
+  }
+
+  return getUsage(env, projectId);
+}
+
+export function trashRetentionMs(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return (Number.isFinite(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS) * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Copy the registry the "global" ProjectManager kept into D1, then clear it there. Runs
+ * once per isolate, before anything reads the registry. Rows already in D1 are kept, so
+ * isolates racing through it right after the deploy can't overwrite newer changes; later
+ * runs find the old registry empty and stop after that one request.
+ */
+export function importLegacyRegistry(env: Env): Promise<void> {
+  legacyImport ??= copyLegacyRegistry(env).catch((error) => {
+    legacyImport = null;
+    throw error;
+  });
+  return legacyImport;
+}
+
+async function copyLegacyRegistry(env: Env): Promise<void> {
+  const registry = env.ProjectManager.get(env.ProjectManager.idFromName("global"));
+  const response = await registry.fetch(new Request("https://dummy/registry"));
+  if (!response.ok) {
+    throw new Error("Failed to read the project registry of the global ProjectManager");
+  }
+
+  const legacy = await response.json<LegacyRegistry>();
+  if (Object.values(legacy).every((rows) => rows.length === 0)) return;
+
+  const db = drizzle(env.DB, { schema });
+  const statements: BatchItem<"sqlite">[] = [
+    ...chunk(legacy.projects, 7).map((rows) => db.insert(schema.projects).values(rows).onConflictDoNothing()),
+    ...chunk(legacy.members, 5).map((rows) =>
+      db
+        .insert(schema.projectMembers)
+        .values(rows.map((member) => ({ ...member, favorite: member.favorite === 1 })))
+        .onConflictDoNothing()
+    ),
+    ...chunk(legacy.tags, 2).map((rows) => db.insert(schema.projectTags).values(rows).onConflictDoNothing()),
+    ...chunk(legacy.usage, 5).map((rows) => db.insert(schema.projectUsage).values(rows).onConflictDoNothing()),
+    ...chunk(legacy.templates, 8).map((rows) => db.insert(schema.templates).values(rows).onConflictDoNothing())
+  ];
+
+  for (let i = 0; i < statements.length; i += MAX_BATCH_STATEMENTS) {
+    const [first, ...rest] = statements.slice(i, i + MAX_BATCH_STATEMENTS);
+    await db.batch([first, ...rest]);
+  }
+
+  const clearResponse = await registry.fetch(new Request("https://dummy/registry", { method: "DELETE" }));
+  if (!clearResponse.ok) {
+    throw new Error("Failed to clear the project registry of the global ProjectManager");
+  }
+
+  console.log(
+    `[Registry] Imported ${legacy.projects.length} projects and ${legacy.templates.length} templates from the global ProjectManager`
+  );
+}
+
+/**
+ * Rows in groups small enough to insert `columns` values each in one statement
+ */
+function chunk<T>(rows: T[], columns: number): T[][] {
+  const size = Math.floor(MAX_BOUND_PARAMETERS / columns);
+  const chunks: T[][] = [];
+  for (let i = 0; i < rows.length; i += size) {
+    chunks.push(rows.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * A page of the projects the user owns or was invited to, with their role in each.
+ * Favorites come first, then the requested sort. With `trashed`, the projects in the
+ * trash the user can restore (owners only).
+ */
+async function listProjects(env: Env, userId: string, options: ProjectListOptions): Promise<ProjectList> {
+  const db = drizzle(env.DB, { schema });
+  const { projects, projectMembers, projectTags, projectUsage } = schema;
+
+  const conditions: (SQL | undefined)[] = [eq(projectMembers.user_id, userId)];
+  if (options.trashed) {
+    conditions.push(isNotNull(projects.deleted_at), eq(projectMembers.role, "owner"));
+  } else {
+    conditions.push(isNull(projects.deleted_at));
+  }
+
+  const hasTag = (condition: SQL) =>
+    exists(
+      db
+        .select({ tag: projectTags.tag })
+        .from(projectTags)
+        .where(and(eq(projectTags.project_id, projects.id), condition))
+    );
+
+  if (options.search) {
+    const pattern = `%${options.search.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+    const like = (column: SQLWrapper) => sql`${column} LIKE ${pattern} ESCAPE '\\'`;
+    conditions.push(or(like(projects.name), like(projects.description), hasTag(like(projectTags.tag))));
+  }
+  if (options.tag) {
+    conditions.push(hasTag(eq(projectTags.tag, options.tag)));
+  }
+  if (options.favorites) {
+    conditions.push(eq(projectMembers.favorite, true));
+  }
+
+  const where = and(...conditions);
+  const sortColumn = {
+    name: sql`${projects.name} COLLATE NOCASE`,
+    updated: projects.updated_at,
+    created: projects.created_at
+  }[options.sort];
+  const direction = options.order === "asc" ? asc : desc;
+
+  const [rows, [{ total }], tags] = await db.batch([
+    db
+      .select({
+        project: projects,
+        role: projectMembers.role,
+        favorite: projectMembers.favorite,
+        file_bytes: projectUsage.file_bytes,
+        file_count: projectUsage.file_count,
+        preview_bytes: projectUsage.preview_bytes
+      })
+      .from(projects)
+      .innerJoin(projectMembers, eq(projectMembers.project_id, projects.id))
+      .leftJoin(projectUsage, eq(projectUsage.project_id, projects.id))
+      .where(where)
+      .orderBy(desc(projectMembers.favorite), direction(sortColumn), projects.id)
+      .limit(options.limit)
+      .offset(options.offset),
+    db
+      .select({ total: count() })
+      .from(projects)
+      .innerJoin(projectMembers, eq(projectMembers.project_id, projects.id))
+      .where(where),
+    db
+      .selectDistinct({ tag: projectTags.tag })
+      .from(projectTags)
+      .innerJoin(projectMembers, eq(projectMembers.project_id, projectTags.project_id))
+      .innerJoin(projects, eq(projects.id, projectTags.project_id))
+      .where(and(eq(projectMembers.user_id, userId), isNull(projects.deleted_at)))
+      .orderBy(projectTags.tag)
+  ]);
+
+  const tagsByProject = new Map<string, string[]>();
+  if (rows.length > 0) {
+    const tagRows = await db
+      .select()
+      .from(projectTags)
+      .where(inArray(projectTags.project_id, rows.map((row) => row.project.id)))
+      .orderBy(projectTags.tag);
+    for (const { project_id, tag } of tagRows) {
+      tagsByProject.set(project_id, [...(tagsByProject.get(project_id) ?? []), tag]);
+    }
+  }
+
+  return {
+    projects: rows.map((row) => ({
+      ...toProject(row.project),
+      role: row.role,
+      favorite: row.favorite,
+      file_bytes: row.file_bytes ?? undefined,
+      file_count: row.file_count ?? undefined,
+      preview_bytes: row.preview_bytes ?? undefined,
+      tags: tagsByProject.get(row.project.id) ?? []
+    })),
+    total,
+    tags: tags.map((row) => row.tag)
+  };
+}
+
+async function getProject(env: Env, projectId: string): Promise<Response> {
+  const db = drizzle(env.DB, { schema });
+  const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, projectId));
+
+  if (!project) {
+    return new Response("Project not found", { status: 404 });
+  }
+
+  return Response.json({ ...toProject(project), tags: await getProjectTags(env, projectId) });
+}
+
+async function getProjectTags(env: Env, projectId: string): Promise<string[]> {
+  const rows = await drizzle(env.DB, { schema })
+    .select({ tag: schema.projectTags.tag })
+    .from(schema.projectTags)
+    .where(eq(schema.projectTags.project_id, projectId))
+    .orderBy(schema.projectTags.tag);
+  return rows.map((row) => row.tag);
+}
+
+/**
+ * The user's role in a project whether or not it's in the trash
+ */
+function getMemberRole(env: Env, projectId: string, userId: string): Promise<ProjectRole | null> {
+  return getProjectRole(env, projectId, userId, true);
+}
+
+async function isTrashed(env: Env, projectId: string): Promise<boolean> {
+  const [project] = await drizzle(env.DB, { schema })
+    .select({ deleted_at: schema.projects.deleted_at })
+    .from(schema.projects)
+    .where(eq(schema.projects.id, projectId));
+  return project?.deleted_at != null;
+}
+
+/**
+ * Star or unstar a project for one member. Favorites are listed first.
+ */
+async function setFavorite(env: Env, projectId: string, userId: string, favorite: boolean): Promise<Response> {
+  requireAccess(await getMemberRole(env, projectId, userId), "read");
+
+  await drizzle(env.DB, { schema })
+    .update(schema.projectMembers)
+    .set({ favorite })
+    .where(and(eq(schema.projectMembers.project_id, projectId), eq(schema.projectMembers.user_id, userId)));
+
+  return Response.json({ success: true, id: projectId, favorite });
+}
+
+async function updateProject(
+  env: Env,
+  projectId: string,
+  data: { name?: string; description?: string; tags?: string[] },
+  userId: string
+): Promise<Response> {
+  requireAccess(await getMemberRole(env, projectId, userId), "manage");
+  const db = drizzle(env.DB, { schema });
+  const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, projectId));
+
+  const name = data.name !== undefined ? data.name.trim() : project.name;
+  if (!name) {
+    return Response.json({ error: "Project name cannot be empty" }, { status: 400 });
+  }
+
+  const description = data.description !== undefined ? data.description.trim() || null : project.description;
+
+  const update = db
+    .update(schema.projects)
+    .set({ name, description, updated_at: Date.now() })
+    .where(eq(schema.projects.id, projectId));
+
+  if (data.tags !== undefined) {
+    const tags = normalizeTags(data.tags);
+    if (typeof tags === "string") {
+      return Response.json({ error: tags }, { status: 400 });
+    }
+    const replaceTags = db.delete(schema.projectTags).where(eq(schema.projectTags.project_id, projectId));
+    await (tags.length > 0
+      ? db.batch([
+          replaceTags,
+          db.insert(schema.projectTags).values(tags.map((tag) => ({ project_id: projectId, tag }))),
+          update
+        ])
+      : db.batch([replaceTags, update]));
+  } else {
+    await update;
+  }
+
+  return getProject(env, projectId);
+}
+
+/**
+ * Move a project to the trash, or delete it right away with `permanent`.
+ * Trashed projects are hidden from everyone until the owner restores them, and purged
+ * on the Worker's schedule once the retention period is over.
+ */
+async function deleteProject(env: Env, projectId: string, userId: string, permanent: boolean): Promise<Response> {
+  requireAccess(await getMemberRole(env, projectId, userId), "manage");
+
+  if (permanent) {
+    await purgeProject(env, projectId, userId);
+    return Response.json({ success: true, id: projectId });
+  }
+
+  await drizzle(env.DB, { schema })
+    .update(schema.projects)
+    .set({ deleted_at: Date.now() })
+    .where(and(eq(schema.projects.id, projectId), isNull(schema.projects.deleted_at)));
+
+  console.log(`[DeleteProject] Moved project ${projectId} to the trash`);
+
+  return Response.json({ success: true, id: projectId, trashed: true });
+}
+
+/**
+ * Take a project back out of the trash
+ */
+async function restoreProject(env: Env, projectId: string, userId: string): Promise<Response> {
+  requireAccess(await getMemberRole(env, projectId, userId), "manage");
+
+  if (!(await isTrashed(env, projectId))) {
+    return Response.json({ error: "Project is not in the trash" }, { status: 409 });
+  }
+
+  await drizzle(env.DB, { schema })
+    .update(schema.projects)
+    .set({ deleted_at: null, updated_at: Date.now() })
+    .where(eq(schema.projects.id, projectId));
+
+  console.log(`[RestoreProject] Restored project ${projectId} from the trash`);
+
+  return getProject(env, projectId);
+}
+
+/**
+ * Create a new project owned by the user with a copy of every file.
+ * Any member can duplicate a project, viewers included.
+ */
+async function duplicateProject(
+  env: Env,
+  projectId: string,
+  name: string | undefined,
+  userId: string
+): Promise<Response> {
+  requireAccess(await getMemberRole(env, projectId, userId), "read");
+  const db = drizzle(env.DB, { schema });
+  const [source] = await db.select().from(schema.projects).where(eq(schema.projects.id, projectId));
+
+  const project = await createProject(env, userId, {
+    name: name?.trim() || `${source.name} (copy)`,
+    description: source.description ?? undefined
+  });
+
+  const stub = env.ProjectManager.get(env.ProjectManager.idFromName(project.id));
+  const copyResponse = await stub.fetch(
+    new Request(`https://dummy/projects/${project.id}/copy`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-User-Id": userId },
+      body: JSON.stringify({ sourceProjectId: projectId })
+    })
+  );
+
+  // Don't leave a half-copied project behind
+  if (!copyResponse.ok) {
+    await stub.fetch(
+      new Request(`https://dummy/projects/${project.id}/content`, {
+        method: "DELETE",
+        headers: { "X-User-Id": userId }
+      })
+    );
+    await deleteProjectRows(env, project.id);
+    throw new Error("Failed to copy project files");
+  }
+
+  const tags = await getProjectTags(env, projectId);
+  if (tags.length > 0) {
+    await db.insert(schema.projectTags).values(tags.map((tag) => ({ project_id: project.id, tag })));
+  }
+
+  console.log(`[DuplicateProject] Duplicated ${projectId} as ${project.id}`);
+
+  return getProject(env, project.id);
+}
+
+async function deleteProjectRows(env: Env, projectId: string): Promise<void> {
+  const db = drizzle(env.DB, { schema });
+  await db.batch([
+    db.delete(schema.projects).where(eq(schema.projects.id, projectId)),
+    db.delete(schema.projectMembers).where(eq(schema.projectMembers.project_id, projectId)),
+    db.delete(schema.projectUsage).where(eq(schema.projectUsage.project_id, projectId)),
+    db.delete(schema.projectTags).where(eq(schema.projectTags.project_id, projectId))
+  ]);
+}
+
+/**
+ * The built-in templates followed by the ones the user saved, newest first
+ */
+async function listTemplates(env: Env, userId: string): Promise<Response> {
+  const saved = await drizzle(env.DB, { schema })
+    .select()
+    .from(schema.templates)
+    .where(eq(schema.templates.user_id, userId))
+    .orderBy(desc(schema.templates.created_at));
+
+  return Response.json([
+    ...listBuiltinTemplates(),
+    ...saved.map((template): ProjectTemplate => ({ ...template, description: template.description ?? "", builtin: false }))
+  ]);
+}
+
+/**
+ * Save a project's current files as a template only the user sees. The project's
+ * zip export is stored as it is, so binary files come along unchanged.
+ */
+async function saveTemplate(
+  env: Env,
+  data: { projectId: string; name: string; description?: string },
+  userId: string
+): Promise<Response> {
+  requireAccess(await getProjectRole(env, data.projectId, userId), "read");
+
+  const name = data.name?.trim();
+  if (!name) {
+    return Response.json({ error: "Template name is required" }, { status: 400 });
+  }
+
+  const db = drizzle(env.DB, { schema });
+  const [{ saved }] = await db
+    .select({ saved: count() })
+    .from(schema.templates)
+    .where(eq(schema.templates.user_id, userId));
+  if (saved >= MAX_TEMPLATES_PER_USER) {
+    return Response.json(
+      { error: `You can save up to ${MAX_TEMPLATES_PER_USER} templates; delete one to save another` },
+      { status: 409 }
+    );
+  }
+
+  const stub = env.ProjectManager.get(env.ProjectManager.idFromName(data.projectId));
+  const exportResponse = await stub.fetch(
+    new Request(`https://dummy/projects/${data.projectId}/export`, { headers: { "X-User-Id": userId } })
+  );
+  if (!exportResponse.ok) {
+    throw new Error("Failed to export project files");
+  }
+
+  const archive = await exportResponse.arrayBuffer();
+  if (archive.byteLength > MAX_TEMPLATE_BYTES) {
+    throw new QuotaExceededError(
+      `The project is ${formatBytes(archive.byteLength)}, over the ${formatBytes(MAX_TEMPLATE_BYTES)} template limit`
+    );
+  }
+
+  const fileCount = (await readZip(archive)).filter((entry) => entry.content !== null).length;
+  if (fileCount === 0) {
+    return Response.json({ error: "The project doesn't have any files" }, { status: 400 });
+  }
+
+  const id = crypto.randomUUID();
+  await env.FILES.put(templateKey(userId, id), archive, {
+    httpMetadata: { contentType: "application/zip" }
+  });
+
+  await db.insert(schema.templates).values({
+    id,
+    user_id: userId,
+    name,
+    description: data.description?.trim() || null,
+    source_project_id: data.projectId,
+    size: archive.byteLength,
+    file_count: fileCount,
+    created_at: Date.now()
+  });
+
+  console.log(`[SaveTemplate] Saved ${data.projectId} as template ${id} (${fileCount} files)`);
+
+  return Response.json(await findSavedTemplate(env, id, userId));
+}
+
+async function deleteTemplate(env: Env, templateId: string, userId: string): Promise<Response> {
+  if (!(await findSavedTemplate(env, templateId, userId))) {
+    return new Response("Template not found", { status: 404 });
+  }
+
+  await drizzle(env.DB, { schema }).delete(schema.templates).where(eq(schema.templates.id, templateId));
+  await env.FILES.delete(templateKey(userId, templateId));
+
+  return Response.json({ success: true });
+}
+
+async function listMembers(env: Env, projectId: string, userId: string): Promise<Response> {
+  requireAccess(await getMemberRole(env, projectId, userId), "read");
+
+  const members = await drizzle(env.DB, { schema })
+    .select({
+      project_id: schema.projectMembers.project_id,
+      user_id: schema.projectMembers.user_id,
+      role: schema.projectMembers.role,
+      created_at: schema.projectMembers.created_at
+    })
+    .from(schema.projectMembers)
+    .where(eq(schema.projectMembers.project_id, projectId))
+    .orderBy(asc(schema.projectMembers.created_at));
+
+  const profiles = new Map(
+    (await getUserProfiles(env.DB, members.map((member) => member.user_id))).map((profile) => [profile.id, profile])
+  );
+
+  return Response.json(
+    members.map((member): ProjectMember => {
+      const profile = profiles.get(member.user_id);
+      return { ...member, name: profile?.name, email: profile?.email, image: profile?.image ?? null };
+    })
+  );
+}
+
+/**
+ * Add a user to the project by email address or GitHub username.
+ * They have to have signed in once so there's an account to share with.
+ */
+async function inviteMember(
+  env: Env,
+  projectId: string,
+  identifier: string,
+  role: ProjectRole,
+  userId: string
+): Promise<Response> {
+  requireAccess(await getMemberRole(env, projectId, userId), "manage");
+
+  if (!identifier?.trim()) {
+    return Response.json({ error: "Enter an email address or GitHub username" }, { status: 400 });
+  }
+
+  if (!PROJECT_ROLES.includes(role)) {
+    return Response.json({ error: `Role must be one of ${PROJECT_ROLES.join(", ")}` }, { status: 400 });
+  }
+
+  const user = await findUser(env.DB, identifier);
+  if (!user) {
+    return Response.json(
+      { error: `No user found for ${identifier.trim()}. They need to sign in once before they can be invited.` },
+      { status: 404 }
+    );
+  }
+
+  if (await getMemberRole(env, projectId, user.id)) {
+    return Response.json({ error: `${user.name} is already a member of this project` }, { status: 409 });
+  }
+
+  const now = Date.now();
+  await drizzle(env.DB, { schema })
+    .insert(schema.projectMembers)
+    .values({ project_id: projectId, user_id: user.id, role, created_at: now });
+
+  console.log(`[Members] Added ${user.id} to ${projectId} as ${role}`);
+
+  return Response.json({
+    project_id: projectId,
+    user_id: user.id,
+    role,
+    created_at: now,
+    name: user.name,
+    email: user.email,
+    image: user.image
+  } satisfies ProjectMember);
+}
+
+async function updateMember(
+  env: Env,
+  projectId: string,
+  memberId: string,
+  role: ProjectRole,
+  userId: string
+): Promise<Response> {
+  requireAccess(await getMemberRole(env, projectId, userId), "manage");
+
+  if (!PROJECT_ROLES.includes(role)) {
+    return Response.json({ error: `Role must be one of ${PROJECT_ROLES.join(", ")}` }, { status: 400 });
+  }
+
+  const currentRole = await getMemberRole(env, projectId, memberId);
+  if (!currentRole) {
+    return new Response("Member not found", { status: 404 });
+  }
+
+  if (currentRole === "owner" && role !== "owner" && (await countOwners(env, projectId)) === 1) {
+    return Response.json({ error: "A project needs at least one owner" }, { status: 400 });
+  }
+
+  await drizzle(env.DB, { schema })
+    .update(schema.projectMembers)
+    .set({ role })
+    .where(and(eq(schema.projectMembers.project_id, projectId), eq(schema.projectMembers.user_id, memberId)));
+
+  return Response.json({ success: true, user_id: memberId, role });
+}
+
+/**
+ * Remove a member. Owners can remove anyone; everyone else can only leave.
+ */
+async function removeMember(env: Env, projectId: string, memberId: string, userId: string): Promise<Response> {
+  requireAccess(await getMemberRole(env, projectId, userId), memberId === userId ? "read" : "manage");
+
+  const currentRole = await getMemberRole(env, projectId, memberId);
+  if (!currentRole) {
+    return new Response("Member not found", { status: 404 });
+  }
+
+  if (currentRole === "owner" && (await countOwners(env, projectId)) === 1) {
+    return Response.json({ error: "A project needs at least one owner" }, { status: 400 });
+  }
+
+  await drizzle(env.DB, { schema })
+    .delete(schema.projectMembers)
+    .where(and(eq(schema.projectMembers.project_id, projectId), eq(schema.projectMembers.user_id, memberId)));
+
+  console.log(`[Members] Removed ${memberId} from ${projectId}`);
+
+  return Response.json({ success: true, user_id: memberId });
+}
+
+async function countOwners(env: Env, projectId: string): Promise<number> {
+  const [{ owners }] = await drizzle(env.DB, { schema })
+    .select({ owners: count() })
+    .from(schema.projectMembers)
+    .where(and(eq(schema.projectMembers.project_id, projectId), eq(schema.projectMembers.role, "owner")));
+  return owners;
+}
+
+/**
+ * Delete every R2 object under a key prefix
+ */
+async function deletePrefix(bucket: R2Bucket, prefix: string): Promise<void> {
+  let cursor: string | undefined;
+  do {
+    const list = await bucket.list({ prefix, cursor });
+    if (list.objects.length > 0) {
+      await bucket.delete(list.objects.map((object) => object.key));
+    }
+    cursor = list.truncated ? list.cursor : undefined;
+  } while (cursor);
+}
+
+/**
+ * A registry row as the API returns it
+ */
+function toProject(row: typeof schema.projects.$inferSelect): Project {
+  return { ...row, description: row.description ?? undefined };
+}
+
+/**
+ * Filters, sort and page of a project list request: ?q=, ?tag=, ?favorites=1,
+ * ?sort=name|updated|created, ?order=asc|desc, ?limit= and ?offset=
+ */
+function projectListOptions(url: URL): ProjectListOptions {
+  const params = url.searchParams;
+  const sort = params.get("sort");
+  const projectSort: ProjectSort = sort === "name" || sort === "created" ? sort : "updated";
+  const order = params.get("order");
+  const limit = Number.parseInt(params.get("limit") ?? "", 10);
+  const offset = Number.parseInt(params.get("offset") ?? "", 10);
+
+  return {
+    trashed: params.get("trashed") === "1",
+    search: params.get("q")?.trim() ?? "",
+    tag: params.get("tag")?.trim().toLowerCase() || null,
+    favorites: params.get("favorites") === "1",
+    sort: projectSort,
+    // Names read A to Z, dates newest first
+    order: order === "asc" || order === "desc" ? order : projectSort === "name" ? "asc" : "desc",
+    limit: limit > 0 ? Math.min(limit, MAX_PROJECT_PAGE_SIZE) : MAX_PROJECT_PAGE_SIZE,
+    offset: offset > 0 ? offset : 0
+  };
+}
+
+/**
+ * Tags as stored: trimmed, lowercase and without duplicates. Returns the problem
+ * as a message if the list isn't valid.
+ */
+function normalizeTags(tags: unknown): string[] | string {
+  if (!Array.isArray(tags) || tags.some((tag) => typeof tag !== "string")) {
+    return "Tags must be a list of strings";
+  }
+
+  const normalized = [...new Set((tags as string[]).map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+  if (normalized.length > MAX_PROJECT_TAGS) {
+    return `A project can have up to ${MAX_PROJECT_TAGS} tags`;
+  }
+  const invalid = normalized.find((tag) => tag.length > MAX_TAG_LENGTH || /[,\n\r]/.test(tag));
+  if (invalid) {
+    return `Tag "${invalid}" must be at most ${MAX_TAG_LENGTH} characters, without commas`;
+  }
+  return normalized;
+}
@@ -0,0 +1,152 @@
+/**
+ * Search helpers shared by the ProjectManager's search route, the AI tools and the IDE search panel
+ */
+
+export interface SearchOptions {
+  query: string;
+  regex?: boolean;  // Treat the query as a JavaScript regular expression
+  caseSensitive?: boolean;
+  wholeWord?: boolean;
+  include?: string[];  // Only search paths matching one of these globs
+  exclude?: string[];  // Skip paths matching any of these globs
+  maxResults?: number;
+}
+
+export interface SearchMatch {
+  path: string;
+  line: number;  // 1-based
+  column: number;  // 1-based
+  length: number;
+  text: string;  // The matching line without indentation, cut down to MAX_LINE_LENGTH around the match
+  highlight: [number, number];  // Start and end of the match within `text`
+}
+
+export interface SearchResult {
+  matches: SearchMatch[];
+  filesMatched: number;
+  truncated: boolean;  // More matches exist beyond maxResults
+}
+
+export const DEFAULT_MAX_RESULTS = 200;
+export const MAX_RESULTS_LIMIT = 2000;
+
+// Longer lines (minified code) are shortened around the match
+const MAX_LINE_LENGTH = 300;
+
+/**
+ * Build the regular expression a search runs line by line.
+ * Throws a SyntaxError for an invalid regex query.
+ */
+export function createMatcher(options: SearchOptions): RegExp {
+  let source = options.regex ? options.query : escapeRegExp(options.query);
+  if (options.wholeWord) {
+    source = `\\b(?:${source})\\b`;
+  }
+  return new RegExp(source, options.caseSensitive ? "g" : "gi");
+}
+
+/**
+ * Every match of `matcher` in `content`, up to `limit`
+ */
+export function findMatches(path: string, content: string, matcher: RegExp, limit: number): SearchMatch[] {
+  const matches: SearchMatch[] = [];
+  const lines = content.split("\n");
+
+  for (let i = 0; i < lines.length && matches.length < limit; i++) {
+    const line = lines[i].replace(/\r$/, "");
+    matcher.lastIndex = 0;
+
+    let match = matcher.exec(line);
+    while (match && matches.length < limit) {
+      // Empty matches (like `a*` between characters) aren't results; step past them so the loop ends
+      if (match[0].length === 0) {
+        matcher.lastIndex++;
+      } else {
+        matches.push({
+          path,
+          line: i + 1,
+          column: match.index + 1,
+          length: match[0].length,
+          ...excerpt(line, match.index, match[0].length)
+        });
+      }
+      match = matcher.exec(line);
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Whether a path passes the include and exclude globs of a search
+ */
+export function matchesGlobs(path: string, include: string[] = [], exclude: string[] = []): boolean {
+  if (include.length > 0 && !include.some((glob) => globToRegExp(glob).test(path))) {
+    return false;
+  }
+  return !exclude.some((glob) => globToRegExp(glob).test(path));
+}
+
+/**
+ * Convert a glob to a regular expression over project paths. Supports `*`, `**`, `?`
+ * and `{a,b}`. A glob without a slash matches the file name at any depth, like `*.ts`;
+ * a directory glob like `src/**` or `node_modules` also matches everything below it.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob.trim().replace(/^\.?\//, "").replace(/\/$/, "");
+  let source = "";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "*" && pattern[i + 1] === "*") {
+      // `**/` matches any number of directories, including none
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      const end = pattern.indexOf("}", i);
+      if (end === -1) {
+        source += "\\{";
+        continue;
+      }
+      const alternatives = pattern.slice(i + 1, end).split(",").map((alternative) => escapeRegExp(alternative));
+      source += `(?:${alternatives.join("|")})`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  const prefix = pattern.includes("/") ? "^" : "(?:^|/)";
+  return new RegExp(`${prefix}${source}(?:/.*)?$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * The part of a line shown for a match, with the match's position in it
+ */
+function excerpt(line: string, index: number, length: number): Pick<SearchMatch, "text" | "highlight"> {
+  const indent = line.length - line.trimStart().length;
+  let start = Math.min(indent, index);
+  if (line.length - start > MAX_LINE_LENGTH) {
+    start = Math.max(start, index - MAX_LINE_LENGTH / 3);
+  }
+
+  const end = Math.min(line.length, start + MAX_LINE_LENGTH);
+  const prefix = start > Math.min(indent, index) ? "…" : "";
+  const text = `${prefix}${line.slice(start, end).trimEnd()}${end < line.length ? "…" : ""}`;
+  const highlightStart = prefix.length + index - start;
+  return { text, highlight: [highlightStart, Math.min(text.length, highlightStart + length)] };
+}
@@ -15,7 +15,20 @@ import { createOpenAI } from "@ai-sdk/openai";
 import { processToolCalls, cleanupMessages } from "./utils";
 import { tools, executions } from "./tools";
 import { createCodeTools } from "./code-tools";
-import { cloneGitRepository, importGitFilesIntoProject } from "./git-clone";
+import { cloneGitRepository, gitFilesFromZip, importGitFilesIntoProject, type GitFile } from "./git-clone";
+import type { Project } from "./project-manager";
+import { getProjectRole, hasAccess } from "./authorization";
+import { getStorageLimits, QuotaExceededError } from "./quotas";
+import { loadProjectConfig, PROJECT_CONFIG_PATH, type ProjectConfig, ProjectConfigError } from "./project-config";
+import { loadTemplateFiles, renderTemplate } from "./templates";
+import {
+  createProject,
+  handleRegistryRequest,
+  importLegacyRegistry,
+  purgeExpiredProjects,
+  purgeProject
+} from "./registry";
+import { readZip } from "./zip";
 import { handleAuthRoutes } from "./lib/auth-routes";
 
 // Force use of chat completions API instead of responses API
@@ -44,14 +57,6 @@ export class Chat extends AIChatAgent<Env> {
     //   "https://path-to-mcp-server/sse"
     // );
 
-    // Collect all tools, including MCP tools and code tools
-    const codeTools = createCodeTools(this.env);
-    const allTools = {
-      ...tools,
-      ...codeTools,
-      ...this.mcp.getAITools()
-    };
-
     const stream = createUIMessageStream({
       execute: async ({ writer, context }) => {
         console.log('[Chat] Context received:', JSON.stringify(context));
@@ -64,6 +69,36 @@ export class Chat extends AIChatAgent<Env> {
         console.log('[Chat] Extracted projectId:', projectId);
         console.log('[Chat] Extracted currentFile:', currentFile);
 
+        // Each user has their own agent (see routeAgentRequest below), so its name is the user it acts for
+        const userId = this.name;
+        const role = projectId ? await getProjectRole(this.env, projectId, userId) : null;
+        const readOnly = role !== null && !hasAccess(role, "write");
+
+        // Open a checkpoint for this turn so the user can undo every AI change at once
+        const checkpointId = projectId && lastUserMessage && !readOnly ? lastUserMessage.id : undefined;
+        if (checkpointId) {
+          const id = this.env.ProjectManager.idFromName(projectId);
+          const stub = this.env.ProjectManager.get(id);
+          await stub.fetch(
+            new Request(`https://dummy/projects/${projectId}/checkpoints`, {
+              method: "POST",
+              headers: { "Content-Type": "application/json", "X-User-Id": userId },
+              body: JSON.stringify({ id: checkpointId })
+            })
+          );
+        }
+
+        // Collect all tools, including MCP tools and code tools.
+        // Code tools are only offered for a project the user can access, and viewers only
+        // get the ones that read; the ProjectManager checks every call again anyway.
+        const codeTools = createCodeTools(this.env, { userId, projectId, checkpointId });
+        const { readFile, listFiles, searchInFiles } = codeTools;
+        const allTools = {
+          ...tools,
+          ...(role === null ? {} : readOnly ? { readFile, listFiles, searchInFiles } : codeTools),
+          ...this.mcp.getAITools()
+        };
+
         // Create context object for tools - include env
         const toolContext = {
           env: this.env,
@@ -73,6 +108,8 @@ export class Chat extends AIChatAgent<Env> {
           }
         };
 
+        const projectPrompt = role === null ? "" : await getProjectConfigPrompt(this.env, projectId, userId);
+
         // Clean up incomplete tool calls to prevent API errors
         const cleanedMessages = cleanupMessages(this.messages);
 
@@ -103,13 +140,14 @@ AGENTIC BEHAVIOR - MULTI-STEP EXECUTION:
 Available tools (ALL require projectId parameter):
 - listFiles(projectId): List all files in the project
 - readFile(projectId, filePath): Read the contents of a file
-- writeFile(projectId, filePath, content): Create or update a file (use when creating new files or completely replacing content)
+- writeFile(projectId, filePath, content, expectedRevision?): Create or update a file (use when creating new files or completely replacing content; pass the revision from readFile to avoid overwriting someone else's changes)
 - editFile(projectId, filePath, oldContent, newContent): Edit specific parts of a file by replacing old content with new content (PREFERRED for modifying existing files)
-- searchInFiles(projectId, query): Search for text across all files
+- searchInFiles(projectId, query, regex?, caseSensitive?, wholeWord?, include?, exclude?, maxResults?): Search text files by text or regex, optionally limited to paths matching include/exclude globs (PREFERRED over reading files one by one to find code)
 - createFile(projectId, path, type, content?): Create a new file or directory
-- deleteFile(projectId, filePath): Delete a file or directory
+- deleteFile(projectId, filePath): Delete a file or directory (it goes to the project's trash, where the user can restore it)
 - moveFile(projectId, sourcePath, destinationPath): Move a file to a different location
 - renameFile(projectId, filePath, newName): Rename a file or directory
+- applyChanges(projectId, changes): Create, update and delete several files in one all-or-nothing step (PREFERRED for changes spanning multiple files)
 
 WORKFLOW EXAMPLE - Creating an Express app:
 Step 1: Call listFiles(projectId) to see current structure
@@ -119,14 +157,14 @@ Step 4: Call createFile(projectId, ".gitignore", "file", "node_modules...") to c
 Step 5: Call listFiles(projectId) to confirm all files created
 Step 6: Provide summary of what was created
 
-IMPORTANT RULES:
+${readOnly ? "READ-ONLY ACCESS: The user can only view this project. Answer questions by reading and searching files, and explain any changes instead of making them.\n\n" : ""}IMPORTANT RULES:
 1. ALWAYS complete the full task in one interaction
 2. Use multiple tool calls in sequence as needed
 3. Don't explain your plan - just execute it
 4. After all steps are done, provide a brief summary
 5. If creating a project from scratch, create ALL necessary files
 
-${getSchedulePrompt({ date: new Date() })}
+${projectPrompt}${getSchedulePrompt({ date: new Date() })}
 
 Execute tasks autonomously and efficiently. Complete the ENTIRE task before responding.
 `,
@@ -170,9 +208,53 @@ Execute tasks autonomously and efficiently. Complete the ENTIRE task before resp
   }
 }
 
+/**
+ * The part of the system prompt that comes from the project's config file: its commands,
+ * entry points, ignored paths and instructions. An invalid file is reported instead, so
+ * the agent can fix it when asked.
+ */
+async function getProjectConfigPrompt(env: Env, projectId: string, userId: string): Promise<string> {
+  let config: ProjectConfig;
+  try {
+    config = await loadProjectConfig(env, projectId, userId);
+  } catch (error) {
+    if (error instanceof ProjectConfigError) {
+      return `PROJECT SETTINGS: ${error.message}. Writes to ${PROJECT_CONFIG_PATH} must be valid JSON with these optional keys: installCommand, buildCommand, outputDir, entryPoints, previewRoutes, ignore, agentInstructions.\n\n`;
+    }
+    console.error("[Chat] Failed to load project config:", error);
+    return "";
+  }
+
+  const lines = [
+    config.installCommand && `- Install command: ${config.installCommand}`,
+    config.buildCommand && `- Build command: ${config.buildCommand}`,
+    config.outputDir && `- Build output directory: ${config.outputDir} (generated; don't edit it)`,
+    config.entryPoints && `- Entry points: ${config.entryPoints.join(", ")}`,
+    config.ignore && `- Ignored paths (don't read, search or change them unless asked): ${config.ignore.join(", ")}`
+  ].filter(Boolean);
+
+  let prompt = lines.length > 0 ? `PROJECT SETTINGS (from ${PROJECT_CONFIG_PATH}):\n${lines.join("\n")}\n\n` : "";
+  if (config.agentInstructions) {
+    prompt += `PROJECT INSTRUCTIONS (from the project's settings; follow them unless the user says otherwise):\n${config.agentInstructions}\n\n`;
+  }
+  return prompt;
+}
+
 export { ProjectManager } from "./project-manager";
 export { BuildRunner } from "./build-runner";
 
+/**
+ * Name of the ProjectManager instance serving an API path, or null if none does.
+ * Only routes within one project reach an instance, the project's own; the registry
+ * routes are served from D1 before this. Deriving it from the path instead of trusting the
+ * client's X-DO-ID keeps one project's routes from running against another project's storage.
+ */
+function projectManagerInstance(pathname: string): string | null {
+  const [, , collection, projectId, route] = pathname.split("/");
+  if (collection !== "projects" || !projectId || !route) return null;
+  return projectId;
+}
+
 /**
  * Worker entry point that routes incoming requests to the appropriate handler
  */
@@ -188,6 +270,40 @@ function addCrossOriginHeaders(response: Response): Response {
   });
 }
 
+/**
+ * Create a project for `userId` and import `files` into it.
+ * Shared by git clone and zip import.
+ */
+async function createProjectWithFiles(
+  env: Env,
+  userId: string,
+  name: string,
+  description: string,
+  files: GitFile[]
+): Promise<Project> {
+  console.log(`[Import] Creating project: ${name}`);
+
+  const project = await createProject(env, userId, { name, description });
+  console.log(`[Import] Project created successfully: ${project.id}`);
+
+  // Now use the project ID as the DO ID for storing files
+  const projectDoId = env.ProjectManager.idFromName(project.id);
+  const projectStub = env.ProjectManager.get(projectDoId);
+
+  // Import files into the project using the project-specific DO
+  console.log(`[Import] Importing ${files.length} files into project...`);
+  try {
+    await importGitFilesIntoProject(project.id, userId, files, projectStub, { FILES: env.FILES });
+  } catch (error) {
+    // The batch left no files behind, so drop the empty project as well
+    await purgeProject(env, project.id, userId);
+    throw error;
+  }
+  console.log(`[Import] Files imported successfully`);
+
+  return project;
+}
+
 export default {
   async fetch(request: Request, env: Env, _ctx: ExecutionContext) {
     const url = new URL(request.url);
@@ -253,50 +369,129 @@ export default {
 
         console.log(`[Git Clone] Cloned ${files.length} files`);
 
-        // Create a new project - use "global" DO for project creation to store in central list
-        const globalId = env.ProjectManager.idFromName("global");
-        const globalStub = env.ProjectManager.get(globalId);
+        const project = await createProjectWithFiles(
+          env,
+          userId,
+          body.projectName,
+          `Cloned from ${body.repoUrl}`,
+          files
+        );
+
+        return Response.json(project);
+      } catch (error) {
+        console.error("[Git Clone] Error:", error);
+        if (error instanceof QuotaExceededError) {
+          return addCrossOriginHeaders(error.toResponse());
+        }
+        return addCrossOriginHeaders(Response.json(
+          {
+            error: error instanceof Error ? error.message : "Failed to clone repository"
+          },
+          { status: 500 }
+        ));
+      }
+    }
 
-        console.log(`[Git Clone] Creating project: ${body.projectName}`);
+    // Zip import endpoint: the body is the archive, ?name= the new project's name
+    if (url.pathname === "/api/projects/import" && request.method === "POST") {
+      try {
+        const { createAuth } = await import("./lib/auth");
+        const auth = createAuth(env.DB);
+        const session = await auth.api.getSession({
+          headers: request.headers,
+        });
 
-        const createHeaders = new Headers({ "Content-Type": "application/json" });
-        createHeaders.set("X-User-Id", userId);
+        if (!session?.user?.id) {
+          return Response.json({ error: "Unauthorized" }, { status: 401 });
+        }
 
-        const createResponse = await globalStub.fetch(
-          new Request("http://internal/projects", {
-            method: "POST",
-            headers: createHeaders,
-            body: JSON.stringify({
-              name: body.projectName,
-              description: `Cloned from ${body.repoUrl}`
-            })
-          })
+        const projectName = url.searchParams.get("name")?.trim() || "imported-project";
+        // Checked against the project quota before inflating, so a zip bomb can't exhaust memory
+        const limits = getStorageLimits();
+        const files = gitFilesFromZip(
+          await readZip(await request.arrayBuffer(), { maxFiles: limits.projectFiles, maxBytes: limits.projectBytes })
         );
 
-        if (!createResponse.ok) {
-          const errorText = await createResponse.text();
-          console.error(`[Git Clone] Failed to create project: ${errorText}`);
-          throw new Error(`Failed to create project: ${errorText}`);
+        if (!files.some((file) => file.type === "file")) {
+          return Response.json({ error: "The archive doesn't contain any files" }, { status: 400 });
+        }
+
+        console.log(`[Zip Import] Read ${files.length} entries for ${projectName}`);
+
+        const project = await createProjectWithFiles(
+          env,
+          session.user.id,
+          projectName,
+          "Imported from zip",
+          files
+        );
+
+        return Response.json(project);
+      } catch (error) {
+        console.error("[Zip Import] Error:", error);
+        if (error instanceof QuotaExceededError) {
+          return addCrossOriginHeaders(error.toResponse());
+        }
+        return addCrossOriginHeaders(Response.json(
+          {
+            error: error instanceof Error ? error.message : "Failed to import project"
+          },
+          { status: 500 }
+        ));
+      }
+    }
+
+    // Template endpoint: create a project from a built-in or saved template
+    if (url.pathname === "/api/projects/from-template" && request.method === "POST") {
+      try {
+        const { createAuth } = await import("./lib/auth");
+        const auth = createAuth(env.DB);
+        const session = await auth.api.getSession({
+          headers: request.headers,
+        });
+
+        if (!session?.user?.id) {
+          return Response.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { templateId, name, description } = await request.json<{
+          templateId: string;
+          name: string;
+          description?: string;
+        }>();
+
+        const projectName = name?.trim();
+        if (!templateId || !projectName) {
+          return Response.json({ error: "Template and project name are required" }, { status: 400 });
         }
 
-        const project = await createResponse.json();
-        console.log(`[Git Clone] Project created successfully: ${project.id}`);
+        const templateFiles = await loadTemplateFiles(env, templateId, session.user.id);
+        if (!templateFiles) {
+          return Response.json({ error: "Template not found" }, { status: 404 });
+        }
+
+        const projectDescription = description?.trim() ?? "";
+        const files = renderTemplate(templateFiles, { projectName, projectDescription });
 
-        // Now use the project ID as the DO ID for storing files
-        const projectDoId = env.ProjectManager.idFromName(project.id);
-        const projectStub = env.ProjectManager.get(projectDoId);
+        console.log(`[Template] Creating ${projectName} from ${templateId} (${files.length} entries)`);
 
-        // Import files into the project using the project-specific DO
-        console.log(`[Git Clone] Importing ${files.length} files into project...`);
-        await importGitFilesIntoProject(project.id, files, projectStub, { FILES: env.FILES });
-        console.log(`[Git Clone] Files imported successfully`);
+        const project = await createProjectWithFiles(
+          env,
+          session.user.id,
+          projectName,
+          projectDescription,
+          files
+        );
 
         return Response.json(project);
       } catch (error) {
-        console.error("[Git Clone] Error:", error);
+        console.error("[Template] Error:", error);
+        if (error instanceof QuotaExceededError) {
+          return addCrossOriginHeaders(error.toResponse());
+        }
         return addCrossOriginHeaders(Response.json(
           {
-            error: error instanceof Error ? error.message : "Failed to clone repository"
+            error: error instanceof Error ? error.message : "Failed to create project from template"
           },
           { status: 500 }
         ));
@@ -305,6 +500,17 @@ export default {
 
     // Build API routes
     if (url.pathname.startsWith("/api/build")) {
+      // Builds read the project's files as the signed-in user
+      const { createAuth } = await import("./lib/auth");
+      const auth = createAuth(env.DB);
+      const session = await auth.api.getSession({
+        headers: request.headers,
+      });
+
+      if (!session?.user?.id) {
+        return Response.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
       const buildId = crypto.randomUUID();
       const id = env.BuildRunner.idFromName(buildId);
       const stub = env.BuildRunner.get(id);
@@ -312,10 +518,13 @@ export default {
       const newUrl = new URL(request.url);
       newUrl.pathname = newUrl.pathname.replace("/api/build", "/build");
 
+      const buildHeaders = new Headers(request.headers);
+      buildHeaders.set("X-User-Id", session.user.id);
+
       const buildResponse = await stub.fetch(
         new Request(newUrl.toString(), {
           method: request.method,
-          headers: request.headers,
+          headers: buildHeaders,
           body: request.body
         })
       );
@@ -370,7 +579,43 @@ export default {
         });
       }
 
-      const doId = request.headers.get("X-DO-ID") || crypto.randomUUID();
+      // Existing projects are copied into D1 from the old registry before anything reads them
+      try {
+        await importLegacyRegistry(env);
+      } catch (error) {
+        console.error("[Registry] Failed to import the old project registry:", error);
+        return addCrossOriginHeaders(
+          Response.json({ error: "Projects are being migrated, try again in a moment" }, { status: 503 })
+        );
+      }
+
+      // Project lists, members, usage and templates come from the registry in D1
+      const registryResponse = await handleRegistryRequest(request, env, url.pathname.replace("/api", ""), userId);
+      if (registryResponse) {
+        return addCrossOriginHeaders(registryResponse);
+      }
+
+      // Browsers can't set X-DO-ID on a WebSocket, so the events and collab routes name their project
+      // in the path. The upgrade response is returned untouched; copying it would drop the socket.
+      const socketMatch = url.pathname.match(/^\/api\/projects\/([^/]+)\/(events|collab)$/);
+      if (socketMatch) {
+        const [, projectId, route] = socketMatch;
+        const stub = env.ProjectManager.get(env.ProjectManager.idFromName(projectId));
+
+        const socketHeaders = new Headers(request.headers);
+        if (userId) {
+          socketHeaders.set("X-User-Id", userId);
+        }
+
+        return stub.fetch(
+          new Request(`http://internal/projects/${projectId}/${route}${url.search}`, { headers: socketHeaders })
+        );
+      }
+
+      const doId = projectManagerInstance(url.pathname);
+      if (!doId) {
+        return addCrossOriginHeaders(new Response("Not found", { status: 404 }));
+      }
       const id = env.ProjectManager.idFromName(doId);
       const stub = env.ProjectManager.get(id);
 
@@ -384,6 +629,12 @@ export default {
         newHeaders.set("X-User-Id", userId);
       }
 
+      // Browser requests always write as the user; only code tools mark writes as AI
+      // and attach them to the checkpoint of the chat turn
+      newHeaders.set("X-Author", "user");
+      newHeaders.delete("X-Author-Tool");
+      newHeaders.delete("X-Checkpoint-Id");
+
       const newRequest = new Request(newUrl.toString(), {
         method: request.method,
         headers: newHeaders,
@@ -394,14 +645,36 @@ export default {
       return addCrossOriginHeaders(apiResponse);
     }
 
+    // Each user talks to their own agent, named after their user id,
+    // so the agent's tools work on projects with that user's role
+    const authorizeAgent = async (agentRequest: Request, lobby: { name: string }) => {
+      const { createAuth } = await import("./lib/auth");
+      const session = await createAuth(env.DB).api.getSession({ headers: agentRequest.headers });
+
+      if (!session?.user?.id) {
+        return Response.json({ error: "Unauthorized" }, { status: 401 });
+      }
+      if (lobby.name !== session.user.id) {
+        return Response.json({ error: "Forbidden" }, { status: 403 });
+      }
+    };
+
     const response = (
       // Route the request to our agent or return 404 if not found
-      (await routeAgentRequest(request, env)) ||
+      (await routeAgentRequest(request, env, {
+        onBeforeConnect: authorizeAgent,
+        onBeforeRequest: authorizeAgent
+      })) ||
       new Response("Not found", { status: 404 })
     );
 
     // Add Cross-Origin headers for WebContainer support on ALL responses
     // This is required for SharedArrayBuffer to work in WebContainer
     return addCrossOriginHeaders(response);
+  },
+
+  // Cron trigger: delete projects whose time in the trash is up
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+    ctx.waitUntil(importLegacyRegistry(env).then(() => purgeExpiredProjects(env)));
   }
 } satisfies ExportedHandler<Env>;
@@ -0,0 +1,433 @@
+/**
+ * Project templates: the built-in starters below and templates users save from their own
+ * projects. Saved templates are zip archives in R2 listed in the project registry in D1.
+ * New projects get a template's files through the same batch import as git clone, with
+ * {{projectName}}, {{projectSlug}} and {{projectDescription}} filled in.
+ */
+import { drizzle } from "drizzle-orm/d1";
+import { and, eq } from "drizzle-orm";
+import * as schema from "./db/schema";
+import { isBinaryContent } from "./file-types";
+import type { GitFile } from "./git-clone";
+import { readZip } from "./zip";
+
+export interface ProjectTemplate {
+  id: string;  // "builtin:<name>" for built-in templates, a UUID for saved ones
+  name: string;
+  description: string;
+  builtin: boolean;
+  user_id?: string;  // Saved templates: the user who saved it, the only one who sees it
+  source_project_id?: string | null;
+  size?: number;  // Bytes of the archive
+  file_count?: number;
+  created_at?: number;
+}
+
+export interface TemplateVariables {
+  projectName: string;
+  projectDescription: string;
+}
+
+/**
+ * R2 key of a saved template's archive
+ */
+export function templateKey(userId: string, templateId: string): string {
+  return `templates/${userId}/${templateId}.zip`;
+}
+
+interface BuiltinTemplate extends ProjectTemplate {
+  files: Record<string, string>;
+}
+
+const VITE_GITIGNORE = "node_modules\ndist\n*.log\n";
+
+const BUILTIN_TEMPLATES: BuiltinTemplate[] = [
+  {
+    id: "builtin:static",
+    name: "Static HTML",
+    description: "A plain HTML page with a stylesheet and a script",
+    builtin: true,
+    files: {
+      "index.html": `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>{{projectName}}</title>
+    <link rel="stylesheet" href="styles.css" />
+  </head>
+  <body>
+    <main>
+      <h1>{{projectName}}</h1>
+      <p>{{projectDescription}}</p>
+      <button id="counter" type="button">Clicked 0 times</button>
+    </main>
+    <script src="script.js"></script>
+  </body>
+</html>
+`,
+      "styles.css": `body {
+  font-family: system-ui, sans-serif;
+  margin: 0;
+  min-height: 100vh;
+  display: grid;
+  place-items: center;
+}
+
+main {
+  text-align: center;
+}
+`,
+      "script.js": `let count = 0;
+const button = document.getElementById("counter");
+
+button.addEventListener("click", () => {
+  count += 1;
+  button.textContent = \`Clicked \${count} times\`;
+});
+`
+    }
+  },
+  {
+    id: "builtin:vite-react",
+    name: "Vite + React",
+    description: "A React app built with Vite",
+    builtin: true,
+    files: {
+      "package.json": `{
+  "name": "{{projectSlug}}",
+  "description": "{{projectDescription}}",
+  "private": true,
+  "version": "0.0.0",
+  "type": "module",
+  "scripts": {
+    "dev": "vite",
+    "build": "vite build",
+    "preview": "vite preview"
+  },
+  "dependencies": {
+    "react": "^18.3.1",
+    "react-dom": "^18.3.1"
+  },
+  "devDependencies": {
+    "@vitejs/plugin-react": "^4.3.1",
+    "vite": "^5.4.0"
+  }
+}
+`,
+      "index.html": `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>{{projectName}}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.jsx"></script>
+  </body>
+</html>
+`,
+      "vite.config.js": `import { defineConfig } from "vite";
+import react from "@vitejs/plugin-react";
+
+export default defineConfig({
+  plugins: [react()]
+});
+`,
+      "src/main.jsx": `import { StrictMode } from "react";
+import { createRoot } from "react-dom/client";
+import App from "./App.jsx";
+import "./index.css";
+
+createRoot(document.getElementById("root")).render(
+  <StrictMode>
+    <App />
+  </StrictMode>
+);
+`,
+      "src/App.jsx": `import { useState } from "react";
+
+export default function App() {
+  const [count, setCount] = useState(0);
+
+  return (
+    <main>
+      <h1>{{projectName}}</h1>
+      <p>{{projectDescription}}</p>
+      <button type="button" onClick={() => setCount((count) => count + 1)}>
+        Clicked {count} times
+      </button>
+    </main>
+  );
+}
+`,
+      "src/index.css": `body {
+  font-family: system-ui, sans-serif;
+  margin: 0;
+  min-height: 100vh;
+  display: grid;
+  place-items: center;
+}
+
+main {
+  text-align: center;
+}
+`,
+      ".gitignore": VITE_GITIGNORE,
+      ".aieditor.json": `{
+  "installCommand": "npm install",
+  "buildCommand": "npm run build",
+  "outputDir": "dist",
+  "entryPoints": ["src/main.jsx"],
+  "ignore": ["node_modules"]
+}
+`
+    }
+  },
+  {
+    id: "builtin:vite-vue",
+    name: "Vite + Vue",
+    description: "A Vue 3 app built with Vite",
+    builtin: true,
+    files: {
+      "package.json": `{
+  "name": "{{projectSlug}}",
+  "description": "{{projectDescription}}",
+  "private": true,
+  "version": "0.0.0",
+  "type": "module",
+  "scripts": {
+    "dev": "vite",
+    "build": "vite build",
+    "preview": "vite preview"
+  },
+  "dependencies": {
+    "vue": "^3.4.38"
+  },
+  "devDependencies": {
+    "@vitejs/plugin-vue": "^5.1.2",
+    "vite": "^5.4.0"
+  }
+}
+`,
+      "index.html": `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>{{projectName}}</title>
+  </head>
+  <body>
+    <div id="app"></div>
+    <script type="module" src="/src/main.js"></script>
+  </body>
+</html>
+`,
+      "vite.config.js": `import { defineConfig } from "vite";
+import vue from "@vitejs/plugin-vue";
+
+export default defineConfig({
+  plugins: [vue()]
+});
+`,
+      "src/main.js": `import { createApp } from "vue";
+import App from "./App.vue";
+import "./style.css";
+
+createApp(App).mount("#app");
+`,
+      "src/App.vue": `<script setup>
+import { ref } from "vue";
+
+const count = ref(0);
+</script>
+
+<template>
+  <main>
+    <h1>{{projectName}}</h1>
+    <p>{{projectDescription}}</p>
+    <button type="button" @click="count++">Clicked {{ count }} times</button>
+  </main>
+</template>
+`,
+      "src/style.css": `body {
+  font-family: system-ui, sans-serif;
+  margin: 0;
+  min-height: 100vh;
+  display: grid;
+  place-items: center;
+}
+
+main {
+  text-align: center;
+}
+`,
+      ".gitignore": VITE_GITIGNORE,
+      ".aieditor.json": `{
+  "installCommand": "npm install",
+  "buildCommand": "npm run build",
+  "outputDir": "dist",
+  "entryPoints": ["src/main.js"],
+  "ignore": ["node_modules"]
+}
+`
+    }
+  },
+  {
+    id: "builtin:express",
+    name: "Express API",
+    description: "A JSON API server with Express",
+    builtin: true,
+    files: {
+      "package.json": `{
+  "name": "{{projectSlug}}",
+  "description": "{{projectDescription}}",
+  "private": true,
+  "version": "0.0.0",
+  "type": "module",
+  "scripts": {
+    "dev": "node --watch server.js",
+    "start": "node server.js"
+  },
+  "dependencies": {
+    "express": "^4.19.2"
+  }
+}
+`,
+      "server.js": `import express from "express";
+
+const app = express();
+const port = process.env.PORT || 3000;
+
+app.use(express.json());
+
+const items = [];
+
+app.get("/api/health", (req, res) => {
+  res.json({ status: "ok", service: "{{projectName}}" });
+});
+
+app.get("/api/items", (req, res) => {
+  res.json(items);
+});
+
+app.post("/api/items", (req, res) => {
+  const item = { id: items.length + 1, ...req.body };
+  items.push(item);
+  res.status(201).json(item);
+});
+
+app.listen(port, () => {
+  console.log("{{projectName}} listening on port " + port);
+});
+`,
+      "README.md": `# {{projectName}}
+
+{{projectDescription}}
+
+Start the server with \`npm install\` and \`npm run dev\`, then open \`/api/health\`.
+`,
+      ".gitignore": "node_modules\n*.log\n",
+      ".aieditor.json": `{
+  "installCommand": "npm install",
+  "ignore": ["node_modules"],
+  "agentInstructions": "This is an Express JSON API. Keep routes under /api and respond with JSON."
+}
+`
+    }
+  }
+];
+
+/**
+ * The built-in templates, without their files
+ */
+export function listBuiltinTemplates(): ProjectTemplate[] {
+  return BUILTIN_TEMPLATES.map(({ files: _, ...template }) => template);
+}
+
+/**
+ * One of the user's saved templates, or null if they have no template with this id
+ */
+export async function findSavedTemplate(env: Env, templateId: string, userId: string): Promise<ProjectTemplate | null> {
+  const [template] = await drizzle(env.DB, { schema })
+    .select()
+    .from(schema.templates)
+    .where(and(eq(schema.templates.id, templateId), eq(schema.templates.user_id, userId)));
+  return template ? { ...template, description: template.description ?? "", builtin: false } : null;
+}
+
+/**
+ * Files of a template the user can use, or null if there's no such template.
+ * Users only see the templates they saved themselves.
+ */
+export async function loadTemplateFiles(env: Env, templateId: string, userId: string): Promise<GitFile[] | null> {
+  const builtin = BUILTIN_TEMPLATES.find((template) => template.id === templateId);
+  if (builtin) {
+    return Object.entries(builtin.files).map(([path, content]) => ({
+      path,
+      content: new TextEncoder().encode(content),
+      type: "file"
+    }));
+  }
+
+  const template = await findSavedTemplate(env, templateId, userId);
+  if (!template) return null;
+
+  const object = await env.FILES.get(templateKey(userId, template.id));
+  if (!object) {
+    throw new Error(`The files of template ${template.name} are missing`);
+  }
+
+  const entries = await readZip(await object.arrayBuffer());
+  return entries.map((entry) => ({
+    path: entry.path,
+    content: entry.content ?? new Uint8Array(),
+    type: entry.content === null ? "directory" : "file"
+  }));
+}
+
+/**
+ * Fill in the template variables in every text file. Values are escaped for the
+ * file's language, so a name with quotes or brackets can't break the code around it.
+ */
+export function renderTemplate(files: GitFile[], variables: TemplateVariables): GitFile[] {
+  const values: Record<string, string> = {
+    projectName: variables.projectName,
+    projectSlug: slugify(variables.projectName),
+    projectDescription: variables.projectDescription
+  };
+
+  return files.map((file) => {
+    if (file.type === "directory" || isBinaryContent(file.content)) return file;
+
+    const text = new TextDecoder().decode(file.content);
+    const rendered = text.replace(
+      /\{\{\s*(projectName|projectSlug|projectDescription)\s*\}\}/g,
+      (_, name: string) => escapeFor(file.path, values[name])
+    );
+    return rendered === text ? file : { ...file, content: new TextEncoder().encode(rendered) };
+  });
+}
+
+/**
+ * A name usable as an npm package name
+ */
+function slugify(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9._-]+/g, "-")
+      .replace(/^[-._]+|[-._]+$/g, "") || "project"
+  );
+}
+
+function escapeFor(path: string, value: string): string {
+  if (/\.(json|[cm]?js|ts)$/.test(path)) {
+    return JSON.stringify(value).slice(1, -1);
+  }
+  if (/\.(html?|vue|jsx|tsx)$/.test(path)) {
+    return value.replace(/[&<>"{}]/g, (char) => `&#${char.charCodeAt(0)};`);
+  }
+  return value;
+}
@@ -0,0 +1,273 @@
+/**
+ * Minimal zip reading and writing for project export/import
+ * Uses the platform's deflate-raw streams, so it runs in both the Worker and the browser
+ */
+
+import { formatBytes, QuotaExceededError } from "./quotas";
+
+export interface ZipEntry {
+  path: string;
+  content: Uint8Array<ArrayBuffer> | null;  // null for directories
+  modifiedAt?: number;
+}
+
+/**
+ * Most an archive may unpack to, checked against the central directory before anything is inflated
+ */
+export interface ZipLimits {
+  maxFiles: number;
+  maxBytes: number;  // Uncompressed size of all files together
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const UTF8_NAMES_FLAG = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/**
+ * Stream a zip archive of the given entries, one entry at a time
+ */
+export function createZipStream(
+  entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>
+): ReadableStream<Uint8Array> {
+  const chunks = zipChunks(entries);
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    }
+  });
+}
+
+async function* zipChunks(
+  entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>
+): AsyncGenerator<Uint8Array> {
+  const centralHeaders: Uint8Array[] = [];
+  let offset = 0;
+  let count = 0;
+
+  for await (const entry of entries) {
+    const isDirectory = entry.content === null;
+    const name = new TextEncoder().encode(isDirectory ? `${entry.path.replace(/\/$/, "")}/` : entry.path);
+    const data = entry.content ?? new Uint8Array();
+    const crc = crc32(data);
+
+    // Keep the deflated bytes only when they are actually smaller
+    let method = METHOD_STORED;
+    let stored = data;
+    if (data.length > 0) {
+      const deflated = await deflateRaw(data);
+      if (deflated.length < data.length) {
+        method = METHOD_DEFLATE;
+        stored = deflated;
+      }
+    }
+
+    const { time, date } = toDosDateTime(new Date(entry.modifiedAt ?? Date.now()));
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    local.setUint16(4, 20, true);  // version needed to extract
+    local.setUint16(6, UTF8_NAMES_FLAG, true);
+    local.setUint16(8, method, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, stored.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);  // extra field length
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    central.setUint16(4, 20, true);  // version made by
+    central.setUint16(6, 20, true);  // version needed to extract
+    central.setUint16(8, UTF8_NAMES_FLAG, true);
+    central.setUint16(10, method, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, stored.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(38, isDirectory ? 0x10 : 0, true);  // MS-DOS directory attribute
+    central.setUint32(42, offset, true);
+
+    // Done before yielding: a stream's reader may take over the buffers of the chunks it's given
+    centralHeaders.push(new Uint8Array(central.buffer), name.slice());
+    offset += 30 + name.length + stored.length;
+    count++;
+
+    yield new Uint8Array(local.buffer);
+    yield name;
+    yield stored;
+  }
+
+  const centralDirectory = concatBytes(centralHeaders);
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  end.setUint16(8, count, true);
+  end.setUint16(10, count, true);
+  end.setUint32(12, centralDirectory.length, true);
+  end.setUint32(16, offset, true);
+
+  yield centralDirectory;
+  yield new Uint8Array(end.buffer);
+}
+
+/**
+ * Read every entry of a zip archive. Only stored and deflated entries are supported.
+ * With `limits`, archives that would unpack to more files or bytes are refused with a
+ * QuotaExceededError before anything is inflated. No entry may inflate past its listed size.
+ */
+export async function readZip(archive: ArrayBuffer, limits?: ZipLimits): Promise<ZipEntry[]> {
+  const view = new DataView(archive);
+  const bytes = new Uint8Array(archive);
+
+  // The end of central directory record sits at the end, followed by a comment of up to 64KB
+  let endOffset = -1;
+  for (let i = archive.byteLength - 22; i >= Math.max(0, archive.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+
+  if (endOffset === -1) {
+    throw new Error("Not a valid zip file");
+  }
+
+  const count = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const headers: { name: string; method: number; compressedSize: number; size: number; localOffset: number }[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > archive.byteLength || view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error("Corrupt zip central directory");
+    }
+
+    const nameLength = view.getUint16(offset + 28, true);
+    headers.push({
+      name: new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      localOffset: view.getUint32(offset + 42, true)
+    });
+
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+  }
+
+  if (limits) {
+    const files = headers.filter((header) => !header.name.endsWith("/"));
+    const totalSize = files.reduce((total, header) => total + header.size, 0);
+    if (files.length > limits.maxFiles) {
+      throw new QuotaExceededError(`The archive holds ${files.length} files, more than the limit of ${limits.maxFiles}`);
+    }
+    if (totalSize > limits.maxBytes) {
+      throw new QuotaExceededError(
+        `The archive unpacks to ${formatBytes(totalSize)}, more than the limit of ${formatBytes(limits.maxBytes)}`
+      );
+    }
+  }
+
+  const entries: ZipEntry[] = [];
+  for (const { name, method, compressedSize, size, localOffset } of headers) {
+    if (name.endsWith("/")) {
+      entries.push({ path: name.slice(0, -1), content: null });
+      continue;
+    }
+
+    // Sizes come from the central directory; the local header only tells us where the data starts
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.slice(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORED) {
+      entries.push({ path: name, content: data });
+    } else if (method === METHOD_DEFLATE) {
+      entries.push({ path: name, content: await inflateRaw(data, size, name) });
+    } else {
+      throw new Error(`Unsupported compression method in ${name}`);
+    }
+  }
+
+  return entries;
+}
+
+async function deflateRaw(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Inflate `data`, giving up as soon as the output grows past `maxSize` bytes
+ */
+async function inflateRaw(data: Uint8Array<ArrayBuffer>, maxSize: number, name: string): Promise<Uint8Array<ArrayBuffer>> {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw")).getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    size += value.length;
+    if (size > maxSize) {
+      await reader.cancel();
+      throw new Error(`${name} unpacks to more than the size listed in the archive`);
+    }
+    chunks.push(value);
+  }
+
+  return concatBytes(chunks);
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let position = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, position);
+    position += chunk.length;
+  }
+  return result;
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,94 @@
+import { env } from "cloudflare:test";
+import { describe, expect, it } from "vitest";
+import { AuthorizationError, authorizeProject } from "../src/authorization";
+import { addProject, projectRequest } from "./helpers";
+
+const OWNER = "owner-user";
+const EDITOR = "editor-user";
+const VIEWER = "viewer-user";
+const STRANGER = "stranger-user";
+
+async function authorizationStatus(promise: Promise<unknown>): Promise<number> {
+  try {
+    await promise;
+    return 200;
+  } catch (error) {
+    if (error instanceof AuthorizationError) return error.status;
+    throw error;
+  }
+}
+
+describe("authorizeProject", () => {
+  it("requires a signed-in user", async () => {
+    const projectId = await addProject({ [OWNER]: "owner" });
+    expect(await authorizationStatus(authorizeProject(env, projectId, null, "read"))).toBe(401);
+  });
+
+  it("hides projects from users who aren't members", async () => {
+    const projectId = await addProject({ [OWNER]: "owner" });
+    expect(await authorizationStatus(authorizeProject(env, projectId, STRANGER, "read"))).toBe(404);
+    expect(await authorizationStatus(authorizeProject(env, "missing-project", STRANGER, "read"))).toBe(404);
+  });
+
+  it("hides projects in the trash", async () => {
+    const projectId = await addProject({ [OWNER]: "owner" }, { deletedAt: Date.now() });
+    expect(await authorizationStatus(authorizeProject(env, projectId, OWNER, "read"))).toBe(404);
+  });
+
+  it("allows each role only what it may do", async () => {
+    const projectId = await addProject({ [OWNER]: "owner", [EDITOR]: "editor", [VIEWER]: "viewer" });
+
+    expect(await authorizeProject(env, projectId, VIEWER, "read")).toBe("viewer");
+    expect(await authorizationStatus(authorizeProject(env, projectId, VIEWER, "write"))).toBe(403);
+
+    expect(await authorizeProject(env, projectId, EDITOR, "write")).toBe("editor");
+    expect(await authorizationStatus(authorizeProject(env, projectId, EDITOR, "manage"))).toBe(403);
+
+    expect(await authorizeProject(env, projectId, OWNER, "manage")).toBe("owner");
+  });
+});
+
+describe("ProjectManager access", () => {
+  const newFile = { path: "index.html", type: "file", content: "<h1>Hi</h1>" };
+
+  it("requires a user", async () => {
+    const projectId = await addProject({ [OWNER]: "owner" });
+    expect((await projectRequest(projectId, null, "/files")).status).toBe(401);
+  });
+
+  it("answers 404 to users who aren't members", async () => {
+    const projectId = await addProject({ [OWNER]: "owner" });
+    await projectRequest(projectId, OWNER, "/files", { method: "POST", body: newFile });
+
+    expect((await projectRequest(projectId, STRANGER, "/files")).status).toBe(404);
+    expect((await projectRequest(projectId, STRANGER, "/files/index.html")).status).toBe(404);
+    expect(
+      (await projectRequest(projectId, STRANGER, "/files/index.html", { method: "PUT", body: { content: "x" } })).status
+    ).toBe(404);
+    expect((await projectRequest(projectId, STRANGER, "/content", { method: "DELETE" })).status).toBe(404);
+  });
+
+  it("lets viewers read but not write", async () => {
+    const projectId = await addProject({ [OWNER]: "owner", [VIEWER]: "viewer" });
+    await projectRequest(projectId, OWNER, "/files", { method: "POST", body: newFile });
+
+    expect((await projectRequest(projectId, VIEWER, "/files/index.html")).status).toBe(200);
+    expect(
+      (await projectRequest(projectId, VIEWER, "/files/index.html", { method: "PUT", body: { content: "x" } })).status
+    ).toBe(403);
+    expect((await projectRequest(projectId, VIEWER, "/files/index.html", { method: "DELETE" })).status).toBe(403);
+    expect(
+      (await projectRequest(projectId, VIEWER, "/files", { method: "POST", body: { ...newFile, path: "a.txt" } })).status
+    ).toBe(403);
+  });
+
+  it("lets editors write but not manage the project", async () => {
+    const projectId = await addProject({ [OWNER]: "owner", [EDITOR]: "editor" });
+
+    expect((await projectRequest(projectId, EDITOR, "/files", { method: "POST", body: newFile })).status).toBe(200);
+    expect(
+      (await projectRequest(projectId, EDITOR, "/files/index.html", { method: "PUT", body: { content: "x" } })).status
+    ).toBe(200);
+    expect((await projectRequest(projectId, EDITOR, "/content", { method: "DELETE" })).status).toBe(403);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import type { TrashItem } from "../src/project-manager";
+import { addProject, projectRequest } from "./helpers";
+
+const OWNER = "owner-user";
+
+/**
+ * Start an AI turn's checkpoint and return the headers its tool calls send
+ */
+async function startTurn(projectId: string): Promise<Record<string, string>> {
+  const checkpointId = crypto.randomUUID();
+  await projectRequest(projectId, OWNER, "/checkpoints", { method: "POST", body: { id: checkpointId } });
+  return { "X-Author": "ai", "X-Checkpoint-Id": checkpointId };
+}
+
+async function listTrash(projectId: string): Promise<TrashItem[]> {
+  return (await projectRequest(projectId, OWNER, "/trash")).json<TrashItem[]>();
+}
+
+describe("undoing a turn", () => {
+  it("takes the files it brings back out of the trash", async () => {
+    const projectId = await addProject({ [OWNER]: "owner" });
+    await projectRequest(projectId, OWNER, "/files", {
+      method: "POST",
+      body: { path: "notes.txt", type: "file", content: "keep me" }
+    });
+
+    const headers = await startTurn(projectId);
+    await projectRequest(projectId, OWNER, "/files/notes.txt", { method: "DELETE", headers });
+    expect(await listTrash(projectId)).toHaveLength(1);
+
+    const checkpointId = headers["X-Checkpoint-Id"];
+    const undo = await projectRequest(projectId, OWNER, `/checkpoints/${checkpointId}/restore`, { method: "POST" });
+    expect(undo.status).toBe(200);
+
+    expect(await listTrash(projectId)).toEqual([]);
+    const file = await (await projectRequest(projectId, OWNER, "/files/notes.txt")).json<{ content: string }>();
+    expect(file.content).toBe("keep me");
+  });
+
+  it("leaves copies trashed before the turn alone", async () => {
+    const projectId = await addProject({ [OWNER]: "owner" });
+    await projectRequest(projectId, OWNER, "/files", {
+      method: "POST",
+      body: { path: "notes.txt", type: "file", content: "first draft" }
+    });
+    await projectRequest(projectId, OWNER, "/files/notes.txt", { method: "DELETE" });
+    await projectRequest(projectId, OWNER, "/files", {
+      method: "POST",
+      body: { path: "notes.txt", type: "file", content: "second draft" }
+    });
+
+    // Turns are told apart from earlier deletes by time
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const headers = await startTurn(projectId);
+    await projectRequest(projectId, OWNER, "/files/notes.txt", { method: "DELETE", headers });
+    expect(await listTrash(projectId)).toHaveLength(2);
+
+    await projectRequest(projectId, OWNER, `/checkpoints/${headers["X-Checkpoint-Id"]}/restore`, { method: "POST" });
+
+    expect(await listTrash(projectId)).toHaveLength(1);
+    const file = await (await projectRequest(projectId, OWNER, "/files/notes.txt")).json<{ content: string }>();
+    expect(file.content).toBe("second draft");
+  });
+});
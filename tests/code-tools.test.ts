@@ -0,0 +1,63 @@
+import { env } from "cloudflare:test";
+import { describe, expect, it } from "vitest";
+import { createCodeTools } from "../src/code-tools";
+import { addProject, projectRequest } from "./helpers";
+
+const OWNER = "owner-user";
+const STRANGER = "stranger-user";
+const toolOptions = { toolCallId: "call-1", messages: [] };
+
+describe("code tools", () => {
+  it("refuse projects other than the chat's current one", async () => {
+    const projectId = await addProject({ [OWNER]: "owner" });
+    const otherProjectId = await addProject({ [OWNER]: "owner" });
+    await projectRequest(otherProjectId, OWNER, "/files", {
+      method: "POST",
+      body: { path: "secret.txt", type: "file", content: "secret" }
+    });
+
+    const tools = createCodeTools(env, { userId: OWNER, projectId });
+    const read = await tools.readFile.execute?.({ projectId: otherProjectId, filePath: "secret.txt" }, toolOptions);
+    expect(read).toEqual({ success: false, error: `Tools can only work on the current project (${projectId})` });
+
+    const write = await tools.writeFile.execute?.(
+      { projectId: otherProjectId, filePath: "secret.txt", content: "changed" },
+      toolOptions
+    );
+    expect(write).toMatchObject({ success: false });
+
+    const file = await (await projectRequest(otherProjectId, OWNER, "/files/secret.txt")).json<{ content: string }>();
+    expect(file.content).toBe("secret");
+  });
+
+  it("refuse to work without a current project", async () => {
+    const projectId = await addProject({ [OWNER]: "owner" });
+    const tools = createCodeTools(env, { userId: OWNER });
+
+    const result = await tools.listFiles.execute?.({ projectId }, toolOptions);
+    expect(result).toEqual({ success: false, error: "No project context available" });
+  });
+
+  it("act with the user's own role in the current project", async () => {
+    const projectId = await addProject({ [OWNER]: "owner" });
+    await projectRequest(projectId, OWNER, "/files", {
+      method: "POST",
+      body: { path: "index.html", type: "file", content: "<h1>Hi</h1>" }
+    });
+
+    const strangerTools = createCodeTools(env, { userId: STRANGER, projectId });
+    expect(await strangerTools.readFile.execute?.({ projectId, filePath: "index.html" }, toolOptions)).toEqual({
+      success: false,
+      error: "File not found"
+    });
+    expect(
+      await strangerTools.writeFile.execute?.({ projectId, filePath: "index.html", content: "changed" }, toolOptions)
+    ).toMatchObject({ success: false });
+
+    const ownerTools = createCodeTools(env, { userId: OWNER, projectId });
+    expect(await ownerTools.readFile.execute?.({ projectId, filePath: "index.html" }, toolOptions)).toMatchObject({
+      success: true,
+      content: "<h1>Hi</h1>"
+    });
+  });
+});
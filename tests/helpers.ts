@@ -0,0 +1,47 @@
+import { env } from "cloudflare:test";
+import type { ProjectRole } from "../src/project-manager";
+
+/**
+ * Add a project to the registry with the given members and return its id.
+ * Storage isn't reset between tests, so every project gets a fresh id.
+ */
+export async function addProject(
+  members: Record<string, ProjectRole>,
+  options: { deletedAt?: number } = {}
+): Promise<string> {
+  const projectId = crypto.randomUUID();
+  const now = Date.now();
+  const [ownerId] = Object.keys(members);
+
+  await env.DB.batch([
+    env.DB.prepare(
+      "INSERT INTO projects (id, name, user_id, created_at, updated_at, deleted_at) VALUES (?, ?, ?, ?, ?, ?)"
+    ).bind(projectId, "Test project", ownerId, now, now, options.deletedAt ?? null),
+    ...Object.entries(members).map(([userId, role]) =>
+      env.DB.prepare("INSERT INTO project_members (project_id, user_id, role, created_at) VALUES (?, ?, ?, ?)").bind(
+        projectId,
+        userId,
+        role,
+        now
+      )
+    )
+  ]);
+  return projectId;
+}
+
+/**
+ * Send a request to a project's ProjectManager as `userId`
+ */
+export function projectRequest(
+  projectId: string,
+  userId: string | null,
+  route: string,
+  init: { method?: string; body?: unknown; headers?: Record<string, string> } = {}
+): Promise<Response> {
+  const stub = env.ProjectManager.get(env.ProjectManager.idFromName(projectId));
+  return stub.fetch(`https://dummy/projects/${projectId}${route}`, {
+    method: init.method ?? "GET",
+    headers: { "Content-Type": "application/json", ...(userId ? { "X-User-Id": userId } : {}), ...init.headers },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body)
+  });
+}
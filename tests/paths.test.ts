@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { decodePath, InvalidPathError, MAX_NAME_LENGTH, MAX_PATH_LENGTH, normalizePath, validateName } from "../src/paths";
+
+// A path MAX_PATH_LENGTH characters long, in segments no longer than a name may be
+const longestPath = Array.from({ length: 5 }, () => "a".repeat(200)).join("/").padEnd(MAX_PATH_LENGTH, "b");
+
+describe("normalizePath", () => {
+  it.each([
+    ["src/index.ts", "src/index.ts"],
+    ["/src/index.ts", "src/index.ts"],
+    ["src/components/", "src/components"],
+    ["//src///index.ts//", "src/index.ts"],
+    ["src\\components\\App.tsx", "src/components/App.tsx"],
+    ["\\src\\\\App.tsx", "src/App.tsx"],
+    ["./src/./index.ts", "src/index.ts"],
+    ["my file.txt", "my file.txt"],
+    ["..config/.env", "..config/.env"],
+    ["docs/ünïcödé.md", "docs/ünïcödé.md"],
+    [longestPath, longestPath]
+  ])("accepts %j as %j", (path, expected) => {
+    expect(normalizePath(path)).toBe(expected);
+  });
+
+  it.each([
+    ["", "path is required"],
+    ["   ", "path is required"],
+    [null, "path is required"],
+    [42, "path is required"],
+    ["/", "doesn't name a file or directory"],
+    ["//./", "doesn't name a file or directory"],
+    ["..", 'can\'t contain ".." segments'],
+    ["../secret.txt", 'can\'t contain ".." segments'],
+    ["src/../../etc/passwd", 'can\'t contain ".." segments'],
+    ["src\\..\\..\\etc", 'can\'t contain ".." segments'],
+    ["src/\u0000file.ts", "contains control characters"],
+    ["src/file\n.ts", "contains control characters"],
+    ["src/\u007f", "contains control characters"],
+    [`src/${"a".repeat(MAX_NAME_LENGTH + 1)}`, `is longer than ${MAX_NAME_LENGTH} characters`],
+    [`${longestPath}c`, `Path is longer than ${MAX_PATH_LENGTH} characters`]
+  ])("rejects %j", (path, message) => {
+    expect(() => normalizePath(path)).toThrow(InvalidPathError);
+    expect(() => normalizePath(path)).toThrow(message);
+  });
+});
+
+describe("validateName", () => {
+  it.each(["index.ts", ".gitignore", "a".repeat(MAX_NAME_LENGTH)])("accepts %j", (name) => {
+    expect(validateName(name)).toBe(name);
+  });
+
+  it.each(["", ".", "..", "a/b", "a\\b", "tab\there", "a".repeat(MAX_NAME_LENGTH + 1)])("rejects %j", (name) => {
+    expect(() => validateName(name)).toThrow(InvalidPathError);
+  });
+});
+
+describe("decodePath", () => {
+  it.each([
+    ["src/my%20file.ts", "src/my file.ts"],
+    ["src%2Findex.ts", "src/index.ts"],
+    ["%2Fsrc%5Capp.ts", "src/app.ts"]
+  ])("decodes %j as %j", (encoded, expected) => {
+    expect(decodePath(encoded)).toBe(expected);
+  });
+
+  it.each([
+    ["src/%E0%A4%A", "not a valid URL-encoded path"],
+    ["src/%2E%2E/%2E%2E/secret", 'can\'t contain ".." segments'],
+    ["src/%00.ts", "contains control characters"]
+  ])("rejects %j", (encoded, message) => {
+    expect(() => decodePath(encoded)).toThrow(InvalidPathError);
+    expect(() => decodePath(encoded)).toThrow(message);
+  });
+});
@@ -1,24 +1,43 @@
-import { defineWorkersConfig } from "@cloudflare/vitest-pool-workers/config";
+import { existsSync } from "node:fs";
+import { defineWorkersConfig, readD1Migrations } from "@cloudflare/vitest-pool-workers/config";
 
-export default defineWorkersConfig({
-  environments: {
-    ssr: {
-      keepProcessEnv: true
-    }
-  },
-  test: {
-    // https://github.com/cloudflare/workers-sdk/issues/9822
-    deps: {
-      optimizer: {
-        ssr: {
-          include: ["ajv"]
-        }
+export default defineWorkersConfig(async () => {
+  // Applied to the shared D1 database by tests/apply-migrations.ts before each test file
+  const migrations = await readD1Migrations("./drizzle");
+
+  return {
+    environments: {
+      ssr: {
+        keepProcessEnv: true
       }
     },
-    poolOptions: {
-      workers: {
-        wrangler: { configPath: "./wrangler.jsonc" }
+    test: {
+      setupFiles: ["./tests/apply-migrations.ts"],
+      // https://github.com/cloudflare/workers-sdk/issues/9822
+      deps: {
+        optimizer: {
+          ssr: {
+            include: ["ajv"]
+          }
+        }
+      },
+      poolOptions: {
+        workers: {
+          // Fresh checkouts only have the example config; its placeholder ids are fine locally
+          wrangler: {
+            configPath: existsSync("./wrangler.jsonc") ? "./wrangler.jsonc" : "./wrangler.example.jsonc"
+          },
+          // Isolated storage can't snapshot SQLite-backed Durable Objects, so tests use their own ids instead
+          isolatedStorage: false,
+          // Files share that storage, so they run one at a time rather than racing to apply migrations
+          singleWorker: true,
+          // Tests run offline, so Workers AI and Vectorize are never called for real
+          remoteBindings: false,
+          miniflare: {
+            bindings: { TEST_MIGRATIONS: migrations }
+          }
+        }
       }
     }
-  }
+  };
 });